@@ -1,4 +1,5 @@
 import { AuthManager } from '../../auth/manager.js';
+import { ApiTokenStrategy } from '../../auth/strategies.js';
 import * as oauthModule from '../../tools/oauth.js';
 
 // Mock the oauth module
@@ -172,15 +173,15 @@ describe('AuthManager', () => {
     });
   });
 
-  describe('OAuth-only authentication', () => {
-    it('should only support OAuth authentication', () => {
-      // Verify that the manager only provides OAuth-based methods
+  describe('OAuth authentication', () => {
+    it('should use OAuth by default', () => {
+      expect(authManager.getMethod()).toBe('oauth');
       expect(authManager.isAuthenticated).toBeDefined();
       expect(authManager.getAuthHeaders).toBeDefined();
       expect(authManager.getCloudId).toBeDefined();
       expect(authManager.getConfluenceClient).toBeDefined();
 
-      // Verify no legacy API token methods exist
+      // Token credentials are set through strategies, not legacy API token methods
       expect((authManager as any).setApiToken).toBeUndefined();
       expect((authManager as any).getApiToken).toBeUndefined();
       expect((authManager as any).clearApiToken).toBeUndefined();
@@ -250,4 +251,124 @@ describe('AuthManager', () => {
         .toThrow('OAuth client not available');
     });
   });
-});
\ No newline at end of file
+
+  describe('sites', () => {
+    const sandbox = { id: 'cloud-sandbox', url: 'https://sandbox.atlassian.net', name: 'sandbox', scopes: [], avatarUrl: '' };
+    let mockOAuthClient: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      mockOAuthClient = {
+        getCloudId: jest.fn().mockReturnValue('cloud-prod'),
+        getDomainUrl: jest.fn().mockReturnValue('https://prod.atlassian.net'),
+        getSites: jest.fn().mockReturnValue([]),
+        fetchSites: jest.fn().mockResolvedValue([sandbox]),
+        findSite: jest.fn().mockReturnValue(sandbox),
+        selectSite: jest.fn().mockResolvedValue(sandbox)
+      };
+      mockOauthModule.isOAuthAuthenticated.mockReturnValue(true);
+      mockOauthModule.getOAuthConfluenceClient.mockReturnValue({ getOAuthClient: () => mockOAuthClient } as any);
+    });
+
+    it('should use the site override only within the call', async () => {
+      const site = await authManager.resolveSite('sandbox');
+
+      const inside = await authManager.withSite(site, async () => [authManager.getBaseUrl(), authManager.getCloudId()]);
+
+      expect(mockOAuthClient.fetchSites).toHaveBeenCalled();
+      expect(inside).toEqual(['https://sandbox.atlassian.net', 'cloud-sandbox']);
+      expect(authManager.getBaseUrl()).toBe('https://prod.atlassian.net');
+      expect(authManager.getCloudId()).toBe('cloud-prod');
+    });
+
+    it('should select the active site through the OAuth client', async () => {
+      await expect(authManager.selectSite('sandbox')).resolves.toEqual(sandbox);
+      expect(mockOAuthClient.selectSite).toHaveBeenCalledWith('sandbox');
+    });
+
+    it('should only resolve sites for OAuth sessions', async () => {
+      authManager.setStrategy(new ApiTokenStrategy({ baseUrl: 'https://test.atlassian.net', email: 'test@example.com', apiToken: 'token' }));
+
+      expect(() => authManager.resolveSite('sandbox')).toThrow('Not available with api_token authentication - OAuth required');
+    });
+  });
+
+  describe('token strategies', () => {
+    const strategy = new ApiTokenStrategy({
+      baseUrl: 'https://test.atlassian.net/wiki/',
+      email: 'test@example.com',
+      apiToken: 'test-token'
+    });
+
+    it('should delegate headers and base URL to the active strategy', () => {
+      authManager.setStrategy(strategy);
+
+      expect(authManager.getMethod()).toBe('api_token');
+      expect(authManager.isAuthenticated()).toBe(true);
+      expect(authManager.getAuthHeaders()['Authorization']).toBe('Basic dGVzdEBleGFtcGxlLmNvbTp0ZXN0LXRva2Vu');
+      expect(authManager.getBaseUrl()).toBe('https://test.atlassian.net');
+      expect(authManager.getDeployment()).toBe('cloud');
+      expect(mockOauthModule.isOAuthAuthenticated).not.toHaveBeenCalled();
+    });
+
+    it('should only provide cloud ID and OAuth client for OAuth sessions', () => {
+      authManager.setStrategy(strategy);
+
+      expect(() => authManager.getCloudId()).toThrow('Not available with api_token authentication - OAuth required');
+      expect(() => authManager.getConfluenceClient()).toThrow('Not available with api_token authentication - OAuth required');
+    });
+
+    it('should switch back to OAuth when cleared', () => {
+      authManager.setStrategy(strategy);
+      authManager.clear();
+
+      expect(authManager.getMethod()).toBe('oauth');
+    });
+
+    it('should configure API token credentials from the environment', () => {
+      const configured = authManager.configureFromEnvironment({
+        CONFLUENCE_BASE_URL: 'https://test.atlassian.net',
+        CONFLUENCE_EMAIL: 'test@example.com',
+        CONFLUENCE_API_TOKEN: 'test-token'
+      });
+
+      expect(configured).toBe(true);
+      expect(authManager.getMethod()).toBe('api_token');
+    });
+
+    it('should configure a personal access token from the environment', () => {
+      authManager.configureFromEnvironment({
+        CONFLUENCE_BASE_URL: 'https://confluence.example.com',
+        CONFLUENCE_PAT: 'pat-token'
+      });
+
+      expect(authManager.getMethod()).toBe('pat');
+      expect(authManager.getAuthHeaders()['Authorization']).toBe('Bearer pat-token');
+      expect(authManager.getDeployment()).toBe('datacenter');
+    });
+
+    it('should keep the Data Center context path and honour the deployment setting', () => {
+      authManager.configureFromEnvironment({
+        CONFLUENCE_BASE_URL: 'https://example.com/wiki/',
+        CONFLUENCE_EMAIL: 'jdoe',
+        CONFLUENCE_API_TOKEN: 'password',
+        CONFLUENCE_DEPLOYMENT: 'datacenter'
+      });
+
+      expect(authManager.getDeployment()).toBe('datacenter');
+      expect(authManager.getBaseUrl()).toBe('https://example.com/wiki');
+    });
+
+    it('should reject an unknown deployment setting', () => {
+      expect(() => authManager.configureFromEnvironment({
+        CONFLUENCE_BASE_URL: 'https://confluence.example.com',
+        CONFLUENCE_PAT: 'pat-token',
+        CONFLUENCE_DEPLOYMENT: 'server'
+      })).toThrow('Invalid CONFLUENCE_DEPLOYMENT "server"');
+    });
+
+    it('should keep OAuth when the environment has no token credentials', () => {
+      expect(authManager.configureFromEnvironment({ CONFLUENCE_EMAIL: 'test@example.com' })).toBe(false);
+      expect(authManager.getMethod()).toBe('oauth');
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { OAuthClient } from '../../auth/oauth-client.js';
+import { OAuthClient, parseAuthorizationResponse } from '../../auth/oauth-client.js';
 import { OAuthCredentials } from '../../types/index.js';
+import { tokenStorage, StoredOAuthData } from '../../auth/token-storage.js';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -41,6 +42,25 @@ describe('OAuthClient', () => {
       expect(decodedUrl).toContain('offline_access');
     });
 
+    it('should request only read scopes in read-only mode', () => {
+      process.env.CONFLUENCE_READ_ONLY = 'true';
+      try {
+        const scopes = new URL(oauthClient.generateAuthUrl()).searchParams.get('scope')!.split(' ');
+
+        expect(scopes).toContain('read:confluence-content.all');
+        expect(scopes).toContain('offline_access');
+        expect(scopes.filter(scope => scope.startsWith('write:'))).toEqual([]);
+      } finally {
+        delete process.env.CONFLUENCE_READ_ONLY;
+      }
+    });
+
+    it('should request the scopes given with the credentials', () => {
+      const client = new OAuthClient({ ...credentials, scopes: ['read:page:confluence'] });
+
+      expect(new URL(client.generateAuthUrl()).searchParams.get('scope')).toBe('read:page:confluence offline_access');
+    });
+
     it('should generate different state and code challenge on each call', () => {
       const authUrl1 = oauthClient.generateAuthUrl();
       const authUrl2 = oauthClient.generateAuthUrl();
@@ -69,6 +89,128 @@ describe('OAuthClient', () => {
     });
   });
 
+  describe('manual authorization', () => {
+    const tokenResponse = {
+      ok: true,
+      json: async () => ({ access_token: 'manual-access-token', refresh_token: 'manual-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: '' })
+    } as Response;
+    const resourcesResponse = {
+      ok: true,
+      json: async () => [{ id: 'cloud-1', url: 'https://team.atlassian.net', name: 'team', scopes: ['read:confluence-content.all'], avatarUrl: '' }]
+    } as Response;
+
+    beforeEach(() => {
+      jest.spyOn(tokenStorage, 'store').mockResolvedValue();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should read the code and state from a redirect URL, its query string or a bare code', () => {
+      expect(parseAuthorizationResponse('http://localhost:9000/oauth/callback?code=abc&state=xyz')).toEqual({ code: 'abc', state: 'xyz' });
+      expect(parseAuthorizationResponse(' code=abc&state=xyz ')).toEqual({ code: 'abc', state: 'xyz' });
+      expect(parseAuthorizationResponse('abc')).toEqual({ code: 'abc' });
+      expect(parseAuthorizationResponse('http://localhost:9000/oauth/callback?error=access_denied&error_description=User%20denied')).toEqual({ error: 'User denied' });
+    });
+
+    it('should exchange the pasted code with the PKCE verifier of the pending request', async () => {
+      const authUrl = new URL(oauthClient.generateAuthUrl());
+      const state = authUrl.searchParams.get('state');
+      mockFetch.mockResolvedValueOnce(tokenResponse).mockResolvedValueOnce(resourcesResponse);
+
+      await oauthClient.completeWithRedirect(`http://localhost:9000/oauth/callback?code=auth-code&state=${state}`);
+
+      const exchange = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+      expect(exchange).toMatchObject({ grant_type: 'authorization_code', code: 'auth-code', redirect_uri: 'http://localhost:9000/oauth/callback' });
+      expect(exchange.code_verifier).toEqual(expect.any(String));
+      expect(oauthClient.isAuthenticated()).toBe(true);
+      expect(oauthClient.getCloudId()).toBe('cloud-1');
+    });
+
+    it('should compare the requested scopes with the granted ones', async () => {
+      const client = new OAuthClient({ ...credentials, scopes: ['read:page:confluence', 'write:page:confluence'] });
+      client.generateAuthUrl();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: 'manual-access-token', refresh_token: 'manual-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: 'read:page:confluence offline_access' })
+      } as Response).mockResolvedValueOnce(resourcesResponse);
+
+      await client.completeWithRedirect('auth-code');
+
+      expect(client.getScopeReport()).toEqual({
+        requested: ['read:page:confluence', 'write:page:confluence', 'offline_access'],
+        granted: ['read:page:confluence', 'offline_access'],
+        missing: ['write:page:confluence'],
+        unrequested: []
+      });
+      expect(tokenStorage.store).toHaveBeenLastCalledWith(expect.objectContaining({
+        requestedScopes: ['read:page:confluence', 'write:page:confluence', 'offline_access']
+      }));
+    });
+
+    it('should keep an authorization request started while the stored session loads', async () => {
+      let loadStoredSession: () => void = () => {};
+      jest.spyOn(tokenStorage, 'retrieve').mockImplementation(() => new Promise(resolve => {
+        loadStoredSession = () => resolve({
+          credentials,
+          tokens: { access_token: 'stored-access-token', refresh_token: 'stored-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: '' },
+          cloudId: 'stored-cloud-id',
+          domainUrl: 'https://stored.atlassian.net',
+          requestedScopes: ['read:confluence-content.all'],
+          oauthState: { state: 'stored-state', codeVerifier: 'stored-verifier', codeChallenge: 'stored-challenge', timestamp: Date.now() },
+          lastUpdated: Date.now()
+        });
+      }));
+      const client = new OAuthClient({ ...credentials, scopes: ['read:page:confluence'] });
+      const state = new URL(client.generateAuthUrl()).searchParams.get('state');
+      loadStoredSession();
+      await client.ensureValidToken();
+      mockFetch.mockResolvedValueOnce(tokenResponse).mockResolvedValueOnce(resourcesResponse);
+
+      await client.completeWithRedirect(`http://localhost:9000/oauth/callback?code=auth-code&state=${state}`);
+
+      const exchange = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+      expect(exchange.code_verifier).not.toBe('stored-verifier');
+      expect(client.getScopeReport()?.requested).toEqual(['read:page:confluence', 'offline_access']);
+    });
+
+    it('should accept a bare authorization code', async () => {
+      oauthClient.generateAuthUrl();
+      mockFetch.mockResolvedValueOnce(tokenResponse).mockResolvedValueOnce(resourcesResponse);
+
+      await oauthClient.completeWithRedirect('auth-code');
+
+      expect(oauthClient.getAuthHeaders()['Authorization']).toBe('Bearer manual-access-token');
+    });
+
+    it('should reject a redirect for another authorization request', async () => {
+      oauthClient.generateAuthUrl();
+
+      await expect(oauthClient.completeWithRedirect('http://localhost:9000/oauth/callback?code=auth-code&state=forged')).rejects.toThrow('Invalid state parameter');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject codes without a pending request', async () => {
+      await expect(oauthClient.completeWithRedirect('auth-code')).rejects.toThrow('No pending authorization request');
+    });
+
+    it('should reject expired authorization requests', async () => {
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      oauthClient.generateAuthUrl();
+      (Date.now as jest.Mock).mockReturnValue(now + 11 * 60 * 1000);
+
+      await expect(oauthClient.completeWithRedirect('auth-code')).rejects.toThrow('Authorization request expired');
+    });
+
+    it('should report errors returned by Atlassian', async () => {
+      oauthClient.generateAuthUrl();
+
+      await expect(oauthClient.completeWithRedirect('http://localhost:9000/oauth/callback?error=access_denied')).rejects.toThrow('OAuth error: access_denied');
+    });
+  });
+
   describe('stopCallbackServer', () => {
     it('should stop callback server gracefully', async () => {
       await oauthClient.startCallbackServer();
@@ -155,6 +297,130 @@ describe('OAuthClient', () => {
     });
   });
 
+  describe('token lifecycle', () => {
+    const tokenResponse = (accessToken: string, refreshToken?: string) => ({
+      ok: true,
+      json: async () => ({
+        access_token: accessToken,
+        ...(refreshToken && { refresh_token: refreshToken }),
+        expires_in: 3600,
+        token_type: 'Bearer',
+        scope: ''
+      })
+    } as Response);
+
+    const authenticate = (expiresAt?: number) => {
+      oauthClient.deserialize(JSON.stringify({
+        tokens: { access_token: 'old-access-token', refresh_token: 'old-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: '', ...(expiresAt && { expiresAt }) },
+        cloudId: 'test-cloud-id',
+        domainUrl: 'https://test.atlassian.net',
+        oauthState: null
+      }));
+    };
+
+    const sentRefreshToken = (call: number) => JSON.parse(mockFetch.mock.calls[call][1]!.body as string).refresh_token;
+
+    beforeEach(() => {
+      jest.spyOn(tokenStorage, 'store').mockResolvedValue();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should record when the refreshed token expires and use the rotated refresh token', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      authenticate();
+      mockFetch.mockResolvedValue(tokenResponse('new-access-token', 'rotated-refresh-token'));
+
+      await oauthClient.refreshAccessToken();
+      await oauthClient.refreshAccessToken();
+
+      expect(oauthClient.getTokenExpiresAt()).toBe(1_000_000 + 3600 * 1000);
+      expect(sentRefreshToken(1)).toBe('rotated-refresh-token');
+      expect(tokenStorage.store).toHaveBeenCalledWith(expect.objectContaining({
+        tokens: expect.objectContaining({ refresh_token: 'rotated-refresh-token', expiresAt: 1_000_000 + 3600 * 1000 })
+      }));
+    });
+
+    it('should keep the refresh token when the response has none', async () => {
+      authenticate();
+      mockFetch.mockResolvedValue(tokenResponse('new-access-token'));
+
+      await oauthClient.refreshAccessToken();
+      await oauthClient.refreshAccessToken();
+
+      expect(sentRefreshToken(1)).toBe('old-refresh-token');
+    });
+
+    it('should share one refresh between concurrent callers', async () => {
+      authenticate();
+      mockFetch.mockResolvedValue(tokenResponse('new-access-token', 'rotated-refresh-token'));
+
+      await Promise.all([oauthClient.refreshAccessToken(), oauthClient.refreshAccessToken(), oauthClient.refreshAccessToken()]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(oauthClient.getAuthHeaders()['Authorization']).toBe('Bearer new-access-token');
+    });
+
+    it('should use tokens another server rotated when the refresh token was rejected', async () => {
+      authenticate();
+      mockFetch.mockResolvedValue({ ok: false, status: 403, text: async () => 'unauthorized_client' } as Response);
+      jest.spyOn(tokenStorage, 'retrieve').mockResolvedValue({
+        tokens: { access_token: 'other-access-token', refresh_token: 'other-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: '', expiresAt: 5_000_000 },
+        cloudId: 'test-cloud-id',
+        domainUrl: 'https://test.atlassian.net',
+        oauthState: null,
+        lastUpdated: 1_000_000
+      });
+
+      await oauthClient.refreshAccessToken();
+
+      expect(oauthClient.getAuthHeaders()['Authorization']).toBe('Bearer other-access-token');
+      expect(oauthClient.getTokenExpiresAt()).toBe(5_000_000);
+    });
+
+    it('should refresh the token shortly before it expires', async () => {
+      authenticate(Date.now() + 60 * 1000);
+      mockFetch.mockResolvedValue(tokenResponse('new-access-token'));
+
+      await oauthClient.ensureValidToken();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(oauthClient.getAuthHeaders()['Authorization']).toBe('Bearer new-access-token');
+    });
+
+    it('should not refresh a token that is still valid', async () => {
+      authenticate(Date.now() + 30 * 60 * 1000);
+
+      await oauthClient.ensureValidToken();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should refresh after a 401 unless another request already did', async () => {
+      authenticate();
+      mockFetch.mockResolvedValue(tokenResponse('new-access-token'));
+      const rejectedHeaders = oauthClient.getAuthHeaders();
+
+      expect(await oauthClient.renewAccessToken(rejectedHeaders)).toBe(true);
+      expect(await oauthClient.renewAccessToken(rejectedHeaders)).toBe(true);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry after a 401 without a refresh token', async () => {
+      oauthClient.deserialize(JSON.stringify({
+        tokens: { access_token: 'old-access-token', expires_in: 3600, token_type: 'Bearer', scope: '' },
+        cloudId: 'test-cloud-id',
+        domainUrl: 'https://test.atlassian.net',
+        oauthState: null
+      }));
+
+      expect(await oauthClient.renewAccessToken(oauthClient.getAuthHeaders())).toBe(false);
+    });
+  });
+
   describe('getAuthHeaders', () => {
     it('should throw error when not authenticated', () => {
       expect(() => oauthClient.getAuthHeaders()).toThrow('No OAuth tokens available');
@@ -293,6 +559,143 @@ describe('OAuthClient', () => {
     });
   });
 
+  describe('sites', () => {
+    const production = { id: 'cloud-prod', url: 'https://prod.atlassian.net', name: 'prod', scopes: ['read:confluence-content.all'], avatarUrl: '' };
+    const sandbox = { id: 'cloud-sandbox', url: 'https://sandbox.atlassian.net', name: 'sandbox', scopes: ['write:confluence-content'], avatarUrl: '' };
+    const jira = { id: 'cloud-jira', url: 'https://jira.atlassian.net', name: 'jira', scopes: ['read:jira-work'], avatarUrl: '' };
+
+    const authenticate = (cloudId: string | null = null) => {
+      oauthClient.deserialize(JSON.stringify({
+        tokens: { access_token: 'test-access-token', refresh_token: 'test-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: '' },
+        cloudId,
+        domainUrl: null,
+        oauthState: null
+      }));
+      mockFetch.mockResolvedValue({ ok: true, json: async () => [jira, production, sandbox] } as Response);
+    };
+
+    it('should expose every Confluence site and select the first one', async () => {
+      authenticate();
+
+      const sites = await oauthClient.fetchSites();
+
+      expect(mockFetch).toHaveBeenCalledWith('https://api.atlassian.com/oauth/token/accessible-resources', {
+        headers: { 'Authorization': 'Bearer test-access-token' }
+      });
+      expect(sites).toEqual([production, sandbox]);
+      expect(oauthClient.getSites()).toEqual([production, sandbox]);
+      expect(oauthClient.getCloudId()).toBe('cloud-prod');
+      expect(oauthClient.getDomainUrl()).toBe('https://prod.atlassian.net');
+    });
+
+    it('should keep the previously selected site', async () => {
+      authenticate('cloud-sandbox');
+
+      await oauthClient.fetchSites();
+
+      expect(oauthClient.getCloudId()).toBe('cloud-sandbox');
+      expect(oauthClient.getDomainUrl()).toBe('https://sandbox.atlassian.net');
+    });
+
+    it('should fail when no resource has Confluence scopes', async () => {
+      authenticate();
+      mockFetch.mockResolvedValue({ ok: true, json: async () => [jira] } as Response);
+
+      await expect(oauthClient.fetchSites()).rejects.toThrow('No Confluence resources found');
+    });
+
+    it('should find sites by cloud ID, name, URL or host name', async () => {
+      authenticate();
+      await oauthClient.fetchSites();
+
+      expect(oauthClient.findSite('cloud-sandbox')).toEqual(sandbox);
+      expect(oauthClient.findSite('Sandbox')).toEqual(sandbox);
+      expect(oauthClient.findSite('https://sandbox.atlassian.net/')).toEqual(sandbox);
+      expect(oauthClient.findSite('sandbox.atlassian.net')).toEqual(sandbox);
+      expect(() => oauthClient.findSite('staging')).toThrow('Unknown site "staging". Available sites: prod (https://prod.atlassian.net), sandbox (https://sandbox.atlassian.net)');
+    });
+
+    it('should switch the active site and keep it in the serialized state', async () => {
+      authenticate();
+      await oauthClient.fetchSites();
+
+      const selected = await oauthClient.selectSite('sandbox');
+
+      expect(selected).toEqual(sandbox);
+      expect(oauthClient.getCloudId()).toBe('cloud-sandbox');
+      expect(JSON.parse(oauthClient.serialize())).toMatchObject({
+        cloudId: 'cloud-sandbox',
+        domainUrl: 'https://sandbox.atlassian.net',
+        sites: [production, sandbox]
+      });
+    });
+  });
+
+  describe('restore', () => {
+    const storedData = (lastUpdated: number): StoredOAuthData => ({
+      credentials: {
+        clientId: 'stored-client-id',
+        clientSecret: 'stored-client-secret',
+        redirectUri: 'http://localhost:9000/oauth/callback'
+      },
+      tokens: { access_token: 'stored-access-token', refresh_token: 'stored-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: '' },
+      cloudId: 'stored-cloud-id',
+      domainUrl: 'https://stored.atlassian.net',
+      oauthState: null,
+      lastUpdated
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should restore a stored session with valid tokens', async () => {
+      jest.spyOn(tokenStorage, 'retrieve').mockResolvedValue(storedData(Date.now()));
+
+      const restored = await OAuthClient.restore();
+
+      expect(restored?.isAuthenticated()).toBe(true);
+      expect(restored?.getCloudId()).toBe('stored-cloud-id');
+      expect(restored?.getAuthHeaders()['Authorization']).toBe('Bearer stored-access-token');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should refresh expired tokens once with the stored client credentials', async () => {
+      jest.spyOn(tokenStorage, 'retrieve').mockResolvedValue(storedData(Date.now() - 7200 * 1000));
+      jest.spyOn(tokenStorage, 'store').mockResolvedValue();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ access_token: 'refreshed-access-token', refresh_token: 'refreshed-refresh-token', expires_in: 3600, token_type: 'Bearer', scope: '' })
+      } as Response);
+
+      const restored = await OAuthClient.restore();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0][1]!.body as string)).toMatchObject({
+        grant_type: 'refresh_token',
+        client_id: 'stored-client-id',
+        refresh_token: 'stored-refresh-token'
+      });
+      expect(restored?.getAuthHeaders()['Authorization']).toBe('Bearer refreshed-access-token');
+      expect(tokenStorage.store).toHaveBeenCalledWith(expect.objectContaining({ credentials: storedData(0).credentials }));
+    });
+
+    it('should fail when the expired tokens cannot be refreshed', async () => {
+      jest.spyOn(tokenStorage, 'retrieve').mockResolvedValue(storedData(Date.now() - 7200 * 1000));
+      jest.spyOn(console, 'error').mockImplementation();
+      mockFetch.mockResolvedValue({ ok: false, status: 400, text: async () => 'invalid_grant' } as Response);
+
+      await expect(OAuthClient.restore()).rejects.toThrow('Token refresh failed: 400 invalid_grant');
+    });
+
+    it('should not restore sessions stored without client credentials', async () => {
+      const { credentials, ...legacyData } = storedData(Date.now());
+      jest.spyOn(tokenStorage, 'retrieve').mockResolvedValue(legacyData);
+
+      expect(await OAuthClient.restore()).toBeNull();
+    });
+  });
+
   describe('serialize and deserialize', () => {
     it('should serialize and deserialize state correctly', () => {
       const mockState = {
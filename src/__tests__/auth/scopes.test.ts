@@ -0,0 +1,82 @@
+import { getRequestedScopes, isReadOnlyMode, isWriteScope, compareScopes } from '../../auth/scopes.js';
+
+describe('scopes', () => {
+  describe('isReadOnlyMode', () => {
+    it('should be off unless CONFLUENCE_READ_ONLY is set', () => {
+      expect(isReadOnlyMode({})).toBe(false);
+      expect(isReadOnlyMode({ CONFLUENCE_READ_ONLY: 'false' })).toBe(false);
+      expect(isReadOnlyMode({ CONFLUENCE_READ_ONLY: 'true' })).toBe(true);
+      expect(isReadOnlyMode({ CONFLUENCE_READ_ONLY: ' TRUE ' })).toBe(true);
+      expect(isReadOnlyMode({ CONFLUENCE_READ_ONLY: '1' })).toBe(true);
+    });
+
+    it('should reject unknown values', () => {
+      expect(() => isReadOnlyMode({ CONFLUENCE_READ_ONLY: 'yes please' })).toThrow('Invalid CONFLUENCE_READ_ONLY "yes please", expected "true" or "false"');
+    });
+  });
+
+  describe('isWriteScope', () => {
+    it('should recognise classic and granular write scopes', () => {
+      expect(isWriteScope('write:confluence-content')).toBe(true);
+      expect(isWriteScope('write:page:confluence')).toBe(true);
+      expect(isWriteScope('delete:page:confluence')).toBe(true);
+      expect(isWriteScope('read:page:confluence')).toBe(false);
+      expect(isWriteScope('search:confluence')).toBe(false);
+      expect(isWriteScope('offline_access')).toBe(false);
+    });
+  });
+
+  describe('getRequestedScopes', () => {
+    it('should request read and write scopes by default', () => {
+      const scopes = getRequestedScopes(undefined, {});
+
+      expect(scopes).toContain('read:confluence-content.all');
+      expect(scopes).toContain('write:page:confluence');
+      expect(scopes).toContain('offline_access');
+      expect(scopes).toHaveLength(11);
+    });
+
+    it('should request only read scopes in read-only mode', () => {
+      const scopes = getRequestedScopes(undefined, { CONFLUENCE_READ_ONLY: 'true' });
+
+      expect(scopes).toEqual([
+        'read:confluence-content.all',
+        'read:content:confluence',
+        'read:space:confluence',
+        'read:page:confluence',
+        'read:confluence-content.summary',
+        'read:confluence-space.summary',
+        'search:confluence',
+        'offline_access'
+      ]);
+    });
+
+    it('should use CONFLUENCE_OAUTH_SCOPES and always add offline_access', () => {
+      expect(getRequestedScopes(undefined, { CONFLUENCE_OAUTH_SCOPES: 'read:page:confluence, search:confluence' }))
+        .toEqual(['read:page:confluence', 'search:confluence', 'offline_access']);
+    });
+
+    it('should prefer scopes passed in over the environment', () => {
+      expect(getRequestedScopes(['read:space:confluence', 'offline_access'], { CONFLUENCE_OAUTH_SCOPES: 'read:page:confluence' }))
+        .toEqual(['read:space:confluence', 'offline_access']);
+    });
+
+    it('should reject configured write scopes in read-only mode', () => {
+      expect(() => getRequestedScopes(['read:page:confluence', 'write:page:confluence'], { CONFLUENCE_READ_ONLY: 'true' }))
+        .toThrow('Write scopes cannot be requested in read-only mode: write:page:confluence');
+    });
+  });
+
+  describe('compareScopes', () => {
+    it('should list missing and unrequested scopes', () => {
+      const report = compareScopes(['read:page:confluence', 'write:page:confluence', 'offline_access'], 'read:page:confluence offline_access search:confluence');
+
+      expect(report).toEqual({
+        requested: ['read:page:confluence', 'write:page:confluence', 'offline_access'],
+        granted: ['read:page:confluence', 'offline_access', 'search:confluence'],
+        missing: ['write:page:confluence'],
+        unrequested: ['search:confluence']
+      });
+    });
+  });
+});
@@ -2,15 +2,26 @@ import { TokenStorage } from '../../auth/token-storage.js';
 import { StoredOAuthData } from '../../auth/token-storage.js';
 import * as keytar from 'keytar';
 import { existsSync, mkdirSync } from 'fs';
-import { writeFile, readFile } from 'fs/promises';
-import { homedir } from 'os';
+import { writeFile, readFile, readdir, stat, unlink, chmod } from 'fs/promises';
+import { homedir, hostname } from 'os';
 import { join } from 'path';
+import crypto from 'crypto';
 
 // Mock dependencies
-jest.mock('keytar');
+jest.mock('keytar', () => ({
+  setPassword: jest.fn(),
+  getPassword: jest.fn(),
+  deletePassword: jest.fn(),
+  findCredentials: jest.fn()
+}));
 jest.mock('fs');
 jest.mock('fs/promises');
-jest.mock('os');
+// The storage paths are resolved when the module is loaded
+jest.mock('os', () => ({
+  homedir: jest.fn(() => '/home/user'),
+  hostname: jest.fn(() => 'workstation'),
+  userInfo: jest.fn(() => ({ uid: 1000, username: 'user' }))
+}));
 
 const mockKeytar = keytar as jest.Mocked<typeof keytar>;
 const mockExistsSync = existsSync as jest.MockedFunction<typeof existsSync>;
@@ -18,6 +29,11 @@ const mockMkdirSync = mkdirSync as jest.MockedFunction<typeof mkdirSync>;
 const mockWriteFile = writeFile as jest.MockedFunction<typeof writeFile>;
 const mockReadFile = readFile as jest.MockedFunction<typeof readFile>;
 const mockHomedir = homedir as jest.MockedFunction<typeof homedir>;
+const mockHostname = hostname as jest.MockedFunction<typeof hostname>;
+const mockReaddir = readdir as unknown as jest.MockedFunction<(path: string) => Promise<string[]>>;
+const mockStat = stat as unknown as jest.MockedFunction<(path: string) => Promise<{ size: number }>>;
+const mockUnlink = unlink as jest.MockedFunction<typeof unlink>;
+const mockChmod = chmod as jest.MockedFunction<typeof chmod>;
 
 describe('TokenStorage', () => {
   let tokenStorage: TokenStorage;
@@ -120,6 +136,7 @@ describe('TokenStorage', () => {
       mockKeytar.getPassword.mockResolvedValueOnce('test');
       mockKeytar.deletePassword.mockResolvedValueOnce(true);
       mockKeytar.setPassword.mockRejectedValueOnce(new Error('Keychain store failed')); // Store call fails
+      mockExistsSync.mockReturnValue(false);
 
       const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
 
@@ -131,12 +148,10 @@ describe('TokenStorage', () => {
       expect(consoleSpy).toHaveBeenCalledWith('Failed to store in keychain, falling back to file storage:', expect.any(Error));
       expect(mockWriteFile).toHaveBeenCalledWith(
         '/home/user/.mcp/confluence-adf/oauth-tokens.json',
-        JSON.stringify({
-          ...mockStoredData,
-          lastUpdated: 1234567890
-        }),
+        expect.stringContaining('"format":"mcp-confluence-adf/encrypted-tokens"'),
         { mode: 0o600 }
       );
+      expect(mockWriteFile).not.toHaveBeenCalledWith(expect.anything(), expect.stringContaining('test-access-token'), expect.anything());
 
       consoleSpy.mockRestore();
     });
@@ -154,12 +169,10 @@ describe('TokenStorage', () => {
 
       expect(mockWriteFile).toHaveBeenCalledWith(
         '/home/user/.mcp/confluence-adf/oauth-tokens.json',
-        JSON.stringify({
-          ...mockStoredData,
-          lastUpdated: 1234567890
-        }),
+        expect.stringContaining('"format":"mcp-confluence-adf/encrypted-tokens"'),
         { mode: 0o600 }
       );
+      expect(mockWriteFile).not.toHaveBeenCalledWith(expect.anything(), expect.stringContaining('test-access-token'), expect.anything());
 
       consoleSpy.mockRestore();
     });
@@ -384,6 +397,7 @@ describe('TokenStorage', () => {
       const data: StoredOAuthData = {
         tokens: null,
         cloudId: null,
+        domainUrl: null,
         oauthState: null,
         lastUpdated: 999000
       };
@@ -395,6 +409,7 @@ describe('TokenStorage', () => {
       const data: StoredOAuthData = {
         tokens: mockStoredData.tokens,
         cloudId: 'test-cloud-id',
+        domainUrl: 'https://test.atlassian.net',
         oauthState: null,
         lastUpdated: 0
       };
@@ -409,6 +424,7 @@ describe('TokenStorage', () => {
           expires_in: 3600 // 1 hour
         },
         cloudId: 'test-cloud-id',
+        domainUrl: 'https://test.atlassian.net',
         oauthState: null,
         lastUpdated: 1000000 - 3900000 // More than 1 hour + 5 min buffer ago
       };
@@ -423,6 +439,7 @@ describe('TokenStorage', () => {
           expires_in: 3600 // 1 hour
         },
         cloudId: 'test-cloud-id',
+        domainUrl: 'https://test.atlassian.net',
         oauthState: null,
         lastUpdated: 1000000 - 1800000 // 30 minutes ago (within 1 hour - 5 min buffer)
       };
@@ -431,6 +448,22 @@ describe('TokenStorage', () => {
     });
   });
 
+  describe('expiresAt', () => {
+    it('should use the recorded expiry of the access token', () => {
+      const storage = new TokenStorage();
+      const now = Date.now();
+
+      expect(storage.isTokenExpired({ ...mockStoredData, tokens: { ...mockStoredData.tokens!, expiresAt: now + 10 * 60 * 1000 }, lastUpdated: now - 7200 * 1000 })).toBe(false);
+      expect(storage.isTokenExpired({ ...mockStoredData, tokens: { ...mockStoredData.tokens!, expiresAt: now + 60 * 1000 }, lastUpdated: now })).toBe(true);
+    });
+
+    it('should count tokens without expiresAt from their last save', () => {
+      const storage = new TokenStorage();
+
+      expect(storage.getExpiresAt({ ...mockStoredData, lastUpdated: 1_000_000 })).toBe(1_000_000 + 3600 * 1000);
+    });
+  });
+
   describe('getStorageInfo', () => {
     it('should return keychain info when keychain is available', async () => {
       mockKeytar.setPassword.mockResolvedValue();
@@ -444,7 +477,8 @@ describe('TokenStorage', () => {
 
       expect(info).toEqual({
         method: 'keychain',
-        location: 'macOS Keychain (mcp-confluence-adf)'
+        location: 'macOS Keychain (mcp-confluence-adf)',
+        encrypted: true
       });
     });
 
@@ -461,13 +495,252 @@ describe('TokenStorage', () => {
 
       expect(info).toEqual({
         method: 'file',
-        location: '/home/user/.mcp/confluence-adf/oauth-tokens.json'
+        location: '/home/user/.mcp/confluence-adf/oauth-tokens.json',
+        encrypted: true,
+        keySource: 'machine'
       });
 
       consoleSpy.mockRestore();
     });
   });
 
+  describe('file encryption', () => {
+    const tokenFile = '/home/user/.mcp/confluence-adf/oauth-tokens.json';
+    const keyFile = '/home/user/.mcp/confluence-adf/encryption.key';
+    let files: Map<string, string>;
+
+    const createFileStorage = async () => {
+      mockKeytar.setPassword.mockRejectedValue(new Error('No keychain'));
+      const storage = new TokenStorage();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      return storage;
+    };
+
+    beforeEach(() => {
+      files = new Map();
+      mockExistsSync.mockImplementation((path) => files.has(path as string));
+      (mockReadFile as jest.Mock).mockImplementation(async (path: string) => files.get(path));
+      (mockWriteFile as jest.Mock).mockImplementation(async (path: string, data: string) => {
+        files.set(path, data);
+      });
+      jest.spyOn(console, 'warn').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      delete process.env.CONFLUENCE_TOKEN_PASSPHRASE;
+      jest.restoreAllMocks();
+    });
+
+    it('should encrypt the token file with a key derived from this machine', async () => {
+      files.set('/etc/machine-id', 'abc123\n');
+      const storage = await createFileStorage();
+
+      await storage.store(mockStoredData);
+
+      const stored = JSON.parse(files.get(tokenFile)!);
+      expect(stored).toMatchObject({ format: 'mcp-confluence-adf/encrypted-tokens', version: 1, keySource: 'machine' });
+      expect(files.get(tokenFile)).not.toContain('test-refresh-token');
+      expect(files.has(keyFile)).toBe(false);
+      expect(storage.getStorageInfo()).toMatchObject({ encrypted: true, keySource: 'machine' });
+
+      const result = await storage.retrieve();
+      expect(result).toEqual({ ...mockStoredData, lastUpdated: expect.any(Number) });
+    });
+
+    it('should not decrypt a token file copied from another machine', async () => {
+      const storage = await createFileStorage();
+      await storage.store(mockStoredData);
+
+      mockHostname.mockReturnValue('other-machine');
+      const result = await storage.retrieve();
+      mockHostname.mockReturnValue('workstation');
+
+      expect(result).toBeNull();
+      expect(storage.getStorageInfo().error).toContain('encrypted on another machine or by another user account');
+    });
+
+    it('should re-encrypt files encrypted with the key file of earlier versions', async () => {
+      const key = Buffer.alloc(32, 7);
+      const iv = Buffer.alloc(12, 1);
+      const header = { format: 'mcp-confluence-adf/encrypted-tokens', version: 1, keySource: 'machine-key', salt: Buffer.alloc(16).toString('base64') };
+      const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+      cipher.setAAD(Buffer.from(JSON.stringify([header.format, header.version, header.keySource, header.salt]), 'utf8'));
+      const data = Buffer.concat([cipher.update(JSON.stringify(mockStoredData), 'utf8'), cipher.final()]);
+      files.set(keyFile, key.toString('base64'));
+      files.set(tokenFile, JSON.stringify({ ...header, iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') }));
+      const storage = await createFileStorage();
+
+      expect(await storage.retrieve()).toEqual(mockStoredData);
+      expect(JSON.parse(files.get(tokenFile)!).keySource).toBe('machine');
+      expect(await storage.retrieve()).toEqual(mockStoredData);
+    });
+
+    it('should derive the key from CONFLUENCE_TOKEN_PASSPHRASE when set', async () => {
+      process.env.CONFLUENCE_TOKEN_PASSPHRASE = 'correct horse battery staple';
+      const storage = await createFileStorage();
+
+      await storage.store(mockStoredData);
+
+      expect(JSON.parse(files.get(tokenFile)!).keySource).toBe('passphrase');
+      expect(files.has(keyFile)).toBe(false);
+      expect(storage.getStorageInfo()).toMatchObject({ encrypted: true, keySource: 'passphrase' });
+      expect((await storage.retrieve())?.tokens).toEqual(mockStoredData.tokens);
+    });
+
+    it('should keep the file and report the error when the passphrase is wrong', async () => {
+      process.env.CONFLUENCE_TOKEN_PASSPHRASE = 'correct horse battery staple';
+      const storage = await createFileStorage();
+      await storage.store(mockStoredData);
+      const encrypted = files.get(tokenFile);
+
+      process.env.CONFLUENCE_TOKEN_PASSPHRASE = 'wrong passphrase';
+      const result = await storage.retrieve();
+
+      expect(result).toBeNull();
+      expect(files.get(tokenFile)).toBe(encrypted);
+      expect(storage.getStorageInfo().error).toContain('failed its integrity check');
+    });
+
+    it('should require the passphrase to read a passphrase-encrypted file', async () => {
+      process.env.CONFLUENCE_TOKEN_PASSPHRASE = 'correct horse battery staple';
+      const storage = await createFileStorage();
+      await storage.store(mockStoredData);
+
+      delete process.env.CONFLUENCE_TOKEN_PASSPHRASE;
+
+      expect(await storage.retrieve()).toBeNull();
+      expect(storage.getStorageInfo().error).toBe('Token file is encrypted with a passphrase. Set CONFLUENCE_TOKEN_PASSPHRASE to read it.');
+    });
+
+    it('should detect a modified token file', async () => {
+      const storage = await createFileStorage();
+      await storage.store(mockStoredData);
+
+      const stored = JSON.parse(files.get(tokenFile)!);
+      const data = Buffer.from(stored.data, 'base64');
+      data[0] ^= 1;
+      files.set(tokenFile, JSON.stringify({ ...stored, data: data.toString('base64') }));
+
+      expect(await storage.retrieve()).toBeNull();
+      expect(storage.getStorageInfo().error).toContain('failed its integrity check');
+    });
+
+    it('should encrypt plaintext token files from earlier versions', async () => {
+      files.set(tokenFile, JSON.stringify(mockStoredData));
+      const storage = await createFileStorage();
+
+      const result = await storage.retrieve();
+
+      expect(result).toEqual(mockStoredData);
+      expect(JSON.parse(files.get(tokenFile)!).format).toBe('mcp-confluence-adf/encrypted-tokens');
+      expect(files.get(tokenFile)).not.toContain('test-access-token');
+      expect(mockChmod).toHaveBeenCalledWith(tokenFile, 0o600);
+      expect(await storage.retrieve()).toEqual(mockStoredData);
+    });
+
+    it('should re-encrypt with the passphrase once it is set', async () => {
+      const storage = await createFileStorage();
+      await storage.store(mockStoredData);
+
+      process.env.CONFLUENCE_TOKEN_PASSPHRASE = 'correct horse battery staple';
+      await storage.retrieve();
+
+      expect(JSON.parse(files.get(tokenFile)!).keySource).toBe('passphrase');
+    });
+  });
+
+  describe('profiles', () => {
+    const createStorage = async () => {
+      mockKeytar.setPassword.mockResolvedValue();
+      mockKeytar.getPassword.mockResolvedValue('test');
+      mockKeytar.deletePassword.mockResolvedValue(true);
+
+      const storage = new TokenStorage();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      return storage;
+    };
+
+    it('should store named profiles under their own keychain account', async () => {
+      const storage = await createStorage();
+
+      storage.setProfile('docs-bot');
+      await storage.store(mockStoredData);
+      await storage.retrieve();
+
+      expect(storage.getProfile()).toBe('docs-bot');
+      expect(mockKeytar.setPassword).toHaveBeenCalledWith('mcp-confluence-adf', 'oauth-tokens:docs-bot', expect.any(String));
+      expect(mockKeytar.getPassword).toHaveBeenCalledWith('mcp-confluence-adf', 'oauth-tokens:docs-bot');
+    });
+
+    it('should store named profiles in their own file when keychain not available', async () => {
+      mockKeytar.setPassword.mockRejectedValue(new Error('No keychain'));
+      mockExistsSync.mockReturnValue(false);
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const storage = new TokenStorage();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      storage.setProfile('docs-bot');
+      await storage.store(mockStoredData);
+
+      expect(mockWriteFile).toHaveBeenCalledWith('/home/user/.mcp/confluence-adf/oauth-tokens.docs-bot.json', expect.any(String), { mode: 0o600 });
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should store an empty record for a created profile', async () => {
+      const storage = await createStorage();
+
+      await storage.createProfile('personal');
+
+      expect(storage.getProfile()).toBe('personal');
+      expect(mockKeytar.setPassword).toHaveBeenCalledWith('mcp-confluence-adf', 'oauth-tokens:personal', expect.any(String));
+      const stored = JSON.parse(mockKeytar.setPassword.mock.calls.at(-1)![2]);
+      expect(stored).toEqual({ tokens: null, cloudId: null, domainUrl: null, oauthState: null, lastUpdated: expect.any(Number) });
+    });
+
+    it('should reject invalid profile names', async () => {
+      const storage = await createStorage();
+
+      expect(() => storage.setProfile('../secrets')).toThrow('Invalid profile name "../secrets"');
+      expect(storage.getProfile()).toBe('default');
+    });
+
+    it('should list profiles from the keychain and token files', async () => {
+      const storage = await createStorage();
+      mockKeytar.findCredentials.mockResolvedValue([
+        { account: 'oauth-tokens', password: '{}' },
+        { account: 'oauth-tokens:personal', password: '{}' }
+      ]);
+      mockExistsSync.mockReturnValue(true);
+      mockReaddir.mockResolvedValue(['oauth-tokens.json', 'oauth-tokens.docs-bot.json', 'oauth-tokens.cleared.json']);
+      mockStat.mockImplementation(async (path) => ({ size: path.includes('cleared') ? 0 : 100 }));
+
+      storage.setProfile('new');
+
+      expect(await storage.listProfiles()).toEqual(['default', 'docs-bot', 'new', 'personal']);
+    });
+
+    it('should delete a profile and switch back to the default one', async () => {
+      const storage = await createStorage();
+      mockExistsSync.mockReturnValue(true);
+      mockUnlink.mockResolvedValue();
+
+      storage.setProfile('docs-bot');
+      await storage.deleteProfile('docs-bot');
+
+      expect(mockKeytar.deletePassword).toHaveBeenCalledWith('mcp-confluence-adf', 'oauth-tokens:docs-bot');
+      expect(mockUnlink).toHaveBeenCalledWith('/home/user/.mcp/confluence-adf/oauth-tokens.docs-bot.json');
+      expect(storage.getProfile()).toBe('default');
+    });
+
+    it('should not delete the default profile', async () => {
+      const storage = await createStorage();
+
+      await expect(storage.deleteProfile('default')).rejects.toThrow('The default profile cannot be deleted');
+    });
+  });
+
   describe('isValidStoredData', () => {
     it('should return true for valid data', () => {
       const storage = new TokenStorage();
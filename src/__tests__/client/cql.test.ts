@@ -0,0 +1,55 @@
+import { buildCql, escapeCqlString, extractNextCursor } from '../../client/cql.js';
+
+describe('CQL helpers', () => {
+  describe('escapeCqlString', () => {
+    it('should escape quotes and backslashes', () => {
+      expect(escapeCqlString('say "hi" \\ bye')).toBe('say \\"hi\\" \\\\ bye');
+    });
+  });
+
+  describe('buildCql', () => {
+    it('should build a text query', () => {
+      expect(buildCql({ text: 'release notes' })).toBe('(title ~ "release notes" OR text ~ "release notes")');
+    });
+
+    it('should wrap raw CQL and combine it with filters', () => {
+      expect(buildCql({ cql: 'type = page OR type = blogpost', spaceKeys: ['DEV'] }))
+        .toBe('(type = page OR type = blogpost) AND space = "DEV"');
+    });
+
+    it('should use in clauses for multiple values', () => {
+      expect(buildCql({ labels: ['a', 'b'], types: ['page', 'blogpost'] }))
+        .toBe('type in ("page", "blogpost") AND label in ("a", "b")');
+    });
+
+    it('should quote contributor account IDs but not CQL functions', () => {
+      expect(buildCql({ contributor: '5b10ac8d82e05b22cc7d4ef5' })).toBe('contributor = "5b10ac8d82e05b22cc7d4ef5"');
+      expect(buildCql({ contributor: 'currentUser()' })).toBe('contributor = currentUser()');
+    });
+
+    it('should add last-modified range and ancestor', () => {
+      expect(buildCql({ modifiedAfter: '2024-01-01', modifiedBefore: '2024-02-01', ancestorId: '123' }))
+        .toBe('lastmodified >= "2024-01-01" AND lastmodified <= "2024-02-01" AND ancestor = "123"');
+    });
+
+    it('should escape values in every filter', () => {
+      expect(buildCql({ spaceKeys: ['A" OR space = "B'] })).toBe('space = "A\\" OR space = \\"B"');
+    });
+
+    it('should reject empty queries', () => {
+      expect(() => buildCql({})).toThrow('At least one search term, filter or CQL expression is required');
+      expect(() => buildCql({ text: '   ' })).toThrow();
+    });
+  });
+
+  describe('extractNextCursor', () => {
+    it('should read the cursor from a relative next link', () => {
+      expect(extractNextCursor({ next: '/rest/api/search?cql=type%3Dpage&cursor=abc%3D%3D&limit=25' })).toBe('abc==');
+    });
+
+    it('should return undefined without a next link', () => {
+      expect(extractNextCursor({})).toBeUndefined();
+      expect(extractNextCursor(undefined)).toBeUndefined();
+    });
+  });
+});
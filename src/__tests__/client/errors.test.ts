@@ -0,0 +1,66 @@
+import {
+  errorFromResponse,
+  ConfluenceApiError,
+  NotFoundError,
+  PermissionDeniedError,
+  VersionConflictError,
+  RateLimitedError,
+  AuthExpiredError,
+  ValidationFailedError
+} from '../../client/errors.js';
+
+function response(status: number, body: string, headers: Record<string, string> = {}): Response {
+  return { ok: false, status, headers: new Headers(headers), text: async () => body } as Response;
+}
+
+describe('errorFromResponse', () => {
+  it('should map statuses to typed errors', async () => {
+    expect(await errorFromResponse(response(400, ''))).toBeInstanceOf(ValidationFailedError);
+    expect(await errorFromResponse(response(401, ''))).toBeInstanceOf(AuthExpiredError);
+    expect(await errorFromResponse(response(403, ''))).toBeInstanceOf(PermissionDeniedError);
+    expect(await errorFromResponse(response(404, ''))).toBeInstanceOf(NotFoundError);
+    expect(await errorFromResponse(response(409, ''))).toBeInstanceOf(VersionConflictError);
+    expect(await errorFromResponse(response(429, ''))).toBeInstanceOf(RateLimitedError);
+
+    const error = await errorFromResponse(response(502, 'Bad gateway'));
+    expect(error).toBeInstanceOf(ConfluenceApiError);
+    expect(error.code).toBe('http_error');
+    expect(error.message).toBe('HTTP 502: Bad gateway');
+  });
+
+  it('should read the messages of v2 error bodies', async () => {
+    const error = await errorFromResponse(response(409, JSON.stringify({
+      errors: [{ status: 409, code: 'CONFLICT', title: 'Version conflict', detail: 'Version must be incremented on update. Current version is: 5' }]
+    })));
+
+    expect(error.code).toBe('version_conflict');
+    expect(error.status).toBe(409);
+    expect(error.messages).toEqual(['Version must be incremented on update. Current version is: 5']);
+    expect(error.message).toBe('HTTP 409: Version must be incremented on update. Current version is: 5');
+  });
+
+  it('should read the messages of v1 error bodies', async () => {
+    const error = await errorFromResponse(response(400, JSON.stringify({
+      statusCode: 400,
+      message: 'Could not create content',
+      data: { errors: [{ message: { key: 'title.required', translation: 'A page title is required' } }] }
+    })));
+
+    expect(error.messages).toEqual(['Could not create content', 'A page title is required']);
+    expect(error.message).toBe('HTTP 400: Could not create content; A page title is required');
+  });
+
+  it('should keep the body of responses that are not JSON', async () => {
+    const error = await errorFromResponse(response(404, 'Page not found'));
+
+    expect(error.messages).toEqual([]);
+    expect(error.message).toBe('HTTP 404: Page not found');
+  });
+
+  it('should read Retry-After of rate-limited responses', async () => {
+    const error = await errorFromResponse(response(429, 'Too many requests', { 'Retry-After': '30' })) as RateLimitedError;
+
+    expect(error.retryAfterMs).toBe(30_000);
+    expect(error.hint).toBe('Confluence is rate limiting requests. Retry after 30 seconds.');
+  });
+});
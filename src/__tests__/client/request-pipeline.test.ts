@@ -0,0 +1,229 @@
+import { RequestPipeline, getPipelineOptions, getRequestPipeline, parseRetryAfter } from '../../client/request-pipeline.js';
+
+global.fetch = jest.fn();
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return { ok: status < 400, status, headers: new Headers(headers) } as Response;
+}
+
+describe('RequestPipeline', () => {
+  const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+  let sleep: jest.Mock<Promise<void>, [number]>;
+  let pipeline: RequestPipeline;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedFetch.mockReset();
+    sleep = jest.fn().mockResolvedValue(undefined);
+    pipeline = new RequestPipeline({ maxRetries: 2, baseDelayMs: 100, maxDelayMs: 10_000, sleep });
+  });
+
+  it('should send the request with an abort signal', async () => {
+    mockedFetch.mockResolvedValueOnce(response(200));
+
+    const result = await pipeline.send('site', 'https://site/rest/api/content/1', { headers: { 'Accept': 'application/json' } });
+
+    expect(result.status).toBe(200);
+    expect(mockedFetch).toHaveBeenCalledWith('https://site/rest/api/content/1', {
+      headers: { 'Accept': 'application/json' },
+      signal: expect.any(AbortSignal)
+    });
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should wait for Retry-After before retrying a rate-limited request', async () => {
+    mockedFetch
+      .mockResolvedValueOnce(response(429, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(response(201));
+
+    const result = await pipeline.send('site', 'https://site/api/v2/pages', { method: 'POST' });
+
+    expect(result.status).toBe(201);
+    expect(sleep).toHaveBeenCalledWith(3000);
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should back off exponentially with jitter without Retry-After', async () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    mockedFetch
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(502))
+      .mockResolvedValueOnce(response(200));
+
+    await pipeline.send('site', 'https://site/rest/api/content/1');
+
+    expect(sleep.mock.calls).toEqual([[50], [100]]);
+    random.mockRestore();
+  });
+
+  it('should return the last response once the retries are used up', async () => {
+    mockedFetch.mockResolvedValue(response(429));
+
+    const result = await pipeline.send('site', 'https://site/rest/api/content/1');
+
+    expect(result.status).toBe(429);
+    expect(mockedFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not wait for a Retry-After longer than the maximum delay', async () => {
+    mockedFetch.mockResolvedValueOnce(response(429, { 'Retry-After': '60' }));
+
+    const result = await pipeline.send('site', 'https://site/rest/api/content/1');
+
+    expect(result.status).toBe(429);
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry server errors of requests that are not idempotent', async () => {
+    mockedFetch.mockResolvedValueOnce(response(500));
+
+    const result = await pipeline.send('site', 'https://site/api/v2/pages', { method: 'POST' });
+
+    expect(result.status).toBe(500);
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors of idempotent requests', async () => {
+    mockedFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(response(200));
+
+    const result = await pipeline.send('site', 'https://site/api/v2/pages/1', { method: 'DELETE' });
+
+    expect(result.status).toBe(200);
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry server errors or network errors of updates', async () => {
+    mockedFetch
+      .mockResolvedValueOnce(response(503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const result = await pipeline.send('site', 'https://site/api/v2/pages/1', { method: 'PUT' });
+
+    expect(result.status).toBe(503);
+    await expect(pipeline.send('site', 'https://site/api/v2/pages/1', { method: 'PUT' })).rejects.toThrow('fetch failed');
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry rate-limited updates', async () => {
+    mockedFetch
+      .mockResolvedValueOnce(response(429))
+      .mockResolvedValueOnce(response(200));
+
+    const result = await pipeline.send('site', 'https://site/api/v2/pages/1', { method: 'PUT' });
+
+    expect(result.status).toBe(200);
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry network errors of requests that are not idempotent', async () => {
+    mockedFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(pipeline.send('site', 'https://site/api/v2/pages', { method: 'POST' })).rejects.toThrow('fetch failed');
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort requests that time out', async () => {
+    mockedFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init!.signal!.addEventListener('abort', () => reject(new DOMException('This operation was aborted', 'AbortError')));
+    }));
+    pipeline = new RequestPipeline({ maxRetries: 1, timeoutMs: 10, sleep });
+
+    await expect(pipeline.send('site', 'https://site/rest/api/content/1')).rejects.toThrow('Request timed out after 0.01s');
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out while reading a stalled response body', async () => {
+    let source!: ReadableStreamDefaultController<Uint8Array>;
+    mockedFetch.mockImplementation((_url, init) => {
+      const body = new ReadableStream<Uint8Array>({ start: controller => { source = controller; } });
+      init!.signal!.addEventListener('abort', () => source.error(new DOMException('This operation was aborted', 'AbortError')));
+      return Promise.resolve(new Response(body, { status: 200 }));
+    });
+    pipeline = new RequestPipeline({ timeoutMs: 10, sleep });
+
+    const result = await pipeline.send('site', 'https://site/rest/api/content/1');
+    source.enqueue(new TextEncoder().encode('{"id":'));
+
+    expect(result.status).toBe(200);
+    await expect(result.text()).rejects.toThrow('Request timed out after 0.01s');
+  });
+
+  it('should return the body of responses read within the timeout', async () => {
+    mockedFetch.mockResolvedValueOnce(new Response('{"id":"1"}', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
+    const result = await pipeline.send('site', 'https://site/rest/api/content/1');
+
+    expect(result.headers.get('Content-Type')).toBe('application/json');
+    expect(await result.json()).toEqual({ id: '1' });
+  });
+
+  it('should limit the requests in flight to each site', async () => {
+    const pending: Array<() => void> = [];
+    mockedFetch.mockImplementation(() => new Promise(resolve => pending.push(() => resolve(response(200)))));
+    pipeline = new RequestPipeline({ maxConcurrency: 2, sleep });
+
+    const requests = [1, 2, 3].map(id => pipeline.send('site-a', `https://site-a/rest/api/content/${id}`));
+    const other = pipeline.send('site-b', 'https://site-b/rest/api/content/1');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockedFetch).toHaveBeenCalledTimes(3);
+    expect(mockedFetch).not.toHaveBeenCalledWith('https://site-a/rest/api/content/3', expect.anything());
+
+    pending.shift()!();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(mockedFetch).toHaveBeenCalledWith('https://site-a/rest/api/content/3', expect.anything());
+
+    pending.forEach(resolve => resolve());
+    await Promise.all([...requests, other]);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read seconds and HTTP dates', () => {
+    const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('getPipelineOptions', () => {
+  it('should read the environment', () => {
+    expect(getPipelineOptions({})).toEqual({});
+    expect(getPipelineOptions({ CONFLUENCE_MAX_RETRIES: '0', CONFLUENCE_REQUEST_TIMEOUT: '90', CONFLUENCE_MAX_CONCURRENCY: '2' }))
+      .toEqual({ maxRetries: 0, timeoutMs: 90_000, maxConcurrency: 2 });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => getPipelineOptions({ CONFLUENCE_MAX_CONCURRENCY: '0' }))
+      .toThrow('Invalid CONFLUENCE_MAX_CONCURRENCY "0", expected a whole number of at least 1');
+  });
+});
+
+describe('getRequestPipeline', () => {
+  const originalRetries = process.env.CONFLUENCE_MAX_RETRIES;
+
+  afterEach(() => {
+    if (originalRetries === undefined) {
+      delete process.env.CONFLUENCE_MAX_RETRIES;
+    } else {
+      process.env.CONFLUENCE_MAX_RETRIES = originalRetries;
+    }
+  });
+
+  it('should read the environment on first use and share the pipeline', () => {
+    process.env.CONFLUENCE_MAX_RETRIES = 'many';
+    expect(() => getRequestPipeline()).toThrow('Invalid CONFLUENCE_MAX_RETRIES "many"');
+
+    process.env.CONFLUENCE_MAX_RETRIES = '2';
+    const pipeline = getRequestPipeline();
+
+    expect(pipeline).toBeInstanceOf(RequestPipeline);
+    expect(getRequestPipeline()).toBe(pipeline);
+  });
+});
@@ -0,0 +1,203 @@
+import { OAuthTransport, SessionTransport, SiteTransport } from '../../client/transport.js';
+import { ConfluenceClient } from '../../client/confluence.js';
+import { OAuthClient } from '../../auth/oauth-client.js';
+import { authManager } from '../../auth/manager.js';
+
+global.fetch = jest.fn();
+
+jest.mock('../../auth/manager.js', () => ({
+  authManager: {
+    getBaseUrl: jest.fn(),
+    getAuthHeaders: jest.fn(),
+    getDeployment: jest.fn(),
+    getMethod: jest.fn(),
+    getCloudId: jest.fn(),
+    getConfluenceClient: jest.fn()
+  }
+}));
+
+describe('transports', () => {
+  const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+  const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
+  let mockClient: jest.Mocked<OAuthClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockClient = {
+      ensureValidToken: jest.fn().mockResolvedValue(undefined),
+      getAuthHeaders: jest.fn().mockReturnValue({
+        'Authorization': 'Bearer test-token',
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      }),
+      getCloudId: jest.fn().mockReturnValue('test-cloud-id'),
+      renewAccessToken: jest.fn().mockResolvedValue(false)
+    } as any;
+
+    mockedAuthManager.getBaseUrl.mockReturnValue('https://test.atlassian.net');
+    mockedAuthManager.getDeployment.mockReturnValue('cloud');
+    mockedAuthManager.getMethod.mockReturnValue('api_token');
+    mockedAuthManager.getAuthHeaders.mockReturnValue({
+      'Authorization': 'Basic dGVzdA==',
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    });
+  });
+
+  describe('SiteTransport', () => {
+    it('should serve Cloud sites under /wiki', async () => {
+      mockedFetch.mockResolvedValueOnce({ ok: true } as Response);
+
+      await new SiteTransport().request('/rest/api/content/123');
+
+      expect(mockedFetch).toHaveBeenCalledWith('https://test.atlassian.net/wiki/rest/api/content/123', {
+        headers: { 'Authorization': 'Basic dGVzdA==', 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        signal: expect.any(AbortSignal)
+      });
+    });
+
+    it('should use the Data Center base URL as is', async () => {
+      mockedAuthManager.getBaseUrl.mockReturnValue('https://confluence.example.com/confluence');
+      mockedAuthManager.getDeployment.mockReturnValue('datacenter');
+      mockedFetch.mockResolvedValueOnce({ ok: true } as Response);
+
+      await new SiteTransport().request('/rest/api/content/123');
+
+      expect(mockedFetch).toHaveBeenCalledWith('https://confluence.example.com/confluence/rest/api/content/123', expect.anything());
+    });
+
+    it('should drop the JSON headers for binary requests', async () => {
+      mockedFetch.mockResolvedValueOnce({ ok: true } as Response);
+
+      await new SiteTransport().request('/rest/api/content/123/child/attachment', { method: 'POST' }, {
+        binary: true,
+        headers: { 'X-Atlassian-Token': 'no-check' }
+      });
+
+      expect(mockedFetch).toHaveBeenCalledWith(expect.any(String), {
+        method: 'POST',
+        headers: { 'Authorization': 'Basic dGVzdA==', 'X-Atlassian-Token': 'no-check' },
+        signal: expect.any(AbortSignal)
+      });
+    });
+  });
+
+  describe('OAuthTransport', () => {
+    it('should send requests through the API gateway', async () => {
+      mockedFetch.mockResolvedValueOnce({ ok: true } as Response);
+
+      const transport = new OAuthTransport(mockClient);
+      await transport.request('/api/v2/pages/123', { method: 'DELETE' });
+
+      expect(transport.getDeployment()).toBe('cloud');
+      expect(mockClient.ensureValidToken).toHaveBeenCalled();
+      expect(mockedFetch).toHaveBeenCalledWith('https://api.atlassian.com/ex/confluence/test-cloud-id/wiki/api/v2/pages/123', {
+        method: 'DELETE',
+        headers: expect.objectContaining({ 'Authorization': 'Bearer test-token' }),
+        signal: expect.any(AbortSignal)
+      });
+    });
+
+    it('should retry a request rejected with 401 once with the refreshed token', async () => {
+      mockClient.renewAccessToken.mockImplementation(async () => {
+        mockClient.getAuthHeaders.mockReturnValue({ 'Authorization': 'Bearer refreshed-token' });
+        return true;
+      });
+      mockedFetch
+        .mockResolvedValueOnce({ ok: false, status: 401 } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 200 } as Response);
+
+      const response = await new OAuthTransport(mockClient).request('/rest/api/content/123');
+
+      expect(response.status).toBe(200);
+      expect(mockClient.renewAccessToken).toHaveBeenCalledWith(expect.objectContaining({ 'Authorization': 'Bearer test-token' }));
+      expect(mockedFetch).toHaveBeenLastCalledWith(expect.any(String), { headers: { 'Authorization': 'Bearer refreshed-token' }, signal: expect.any(AbortSignal) });
+    });
+
+    it('should return the 401 response when the token cannot be renewed', async () => {
+      mockedFetch.mockResolvedValueOnce({ ok: false, status: 401 } as Response);
+
+      const response = await new OAuthTransport(mockClient).request('/rest/api/content/123');
+
+      expect(response.status).toBe(401);
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('SessionTransport', () => {
+    it('should use the site transport for token authentication', async () => {
+      mockedFetch.mockResolvedValueOnce({ ok: true } as Response);
+
+      await new SessionTransport().request('/rest/api/content/123');
+
+      expect(mockedFetch).toHaveBeenCalledWith('https://test.atlassian.net/wiki/rest/api/content/123', expect.anything());
+    });
+
+    it('should use the OAuth transport and the selected site for OAuth sessions', async () => {
+      mockedAuthManager.getMethod.mockReturnValue('oauth');
+      mockedAuthManager.getCloudId.mockReturnValue('other-cloud-id');
+      mockedAuthManager.getConfluenceClient.mockReturnValue({ getOAuthClient: () => mockClient } as any);
+      mockedFetch.mockResolvedValueOnce({ ok: true } as Response);
+
+      const transport = new SessionTransport();
+      await transport.request('/rest/api/content/123');
+
+      expect(transport.getDeployment()).toBe('cloud');
+      expect(mockedFetch).toHaveBeenCalledWith('https://api.atlassian.com/ex/confluence/other-cloud-id/wiki/rest/api/content/123', expect.anything());
+    });
+  });
+
+  describe('ConfluenceClient over OAuth', () => {
+    let client: ConfluenceClient;
+
+    beforeEach(() => {
+      client = new ConfluenceClient(new OAuthTransport(mockClient));
+    });
+
+    it('should get content with the V1 API and expansions', async () => {
+      mockedFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ id: '123', title: 'Test Page' }) } as Response);
+
+      await client.getContent('123', ['body.atlas_doc_format', 'version']);
+
+      expect(mockedFetch).toHaveBeenCalledWith(
+        'https://api.atlassian.com/ex/confluence/test-cloud-id/wiki/rest/api/content/123?expand=body.atlas_doc_format%2Cversion',
+        expect.anything()
+      );
+    });
+
+    it('should create pages with the V2 API in the space of the key', async () => {
+      mockedFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ results: [{ id: '98304', key: 'TEST', name: 'Test Space' }] }) } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: '123', status: 'current', title: 'New Page', spaceId: '98304', version: { number: 1 }, _links: { webui: '/pages/123' } })
+        } as Response);
+
+      const result = await client.createContent({
+        type: 'page',
+        title: 'New Page',
+        space: { key: 'TEST' },
+        body: { atlas_doc_format: { value: '{}', representation: 'atlas_doc_format' } }
+      });
+
+      expect(mockedFetch).toHaveBeenNthCalledWith(1, 'https://api.atlassian.com/ex/confluence/test-cloud-id/wiki/api/v2/spaces?keys=TEST', expect.anything());
+      expect(mockedFetch).toHaveBeenNthCalledWith(2, 'https://api.atlassian.com/ex/confluence/test-cloud-id/wiki/api/v2/pages', expect.objectContaining({ method: 'POST' }));
+      expect(result.space).toEqual({ key: 'TEST', name: 'Test Space' });
+    });
+
+    it('should upload attachments with the XSRF bypass header and without JSON headers', async () => {
+      mockedFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ results: [{ id: 'att1', title: 'diagram.png' }] }) } as Response);
+
+      await client.uploadAttachment('123', 'diagram.png', Buffer.from('png'));
+
+      expect(mockedFetch).toHaveBeenCalledWith(
+        'https://api.atlassian.com/ex/confluence/test-cloud-id/wiki/rest/api/content/123/child/attachment',
+        expect.objectContaining({
+          method: 'PUT',
+          headers: { 'Authorization': 'Bearer test-token', 'X-Atlassian-Token': 'no-check' }
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { ADFPatcher } from '../../converter/adf-patcher.js';
+import { ADFConverter } from '../../converter/index.js';
+import { ADFDocument } from '../../types/index.js';
+
+describe('ADFPatcher', () => {
+  const macro = {
+    type: 'extension',
+    attrs: {
+      extensionType: 'com.atlassian.confluence.macro.core',
+      extensionKey: 'toc',
+      parameters: { macroParams: {} }
+    }
+  };
+
+  const mention = {
+    type: 'paragraph',
+    content: [
+      { type: 'text', text: 'Owner: ' },
+      { type: 'mention', attrs: { id: 'abc-123', text: '@Jane' } }
+    ]
+  };
+
+  const original: ADFDocument = {
+    version: 1,
+    type: 'doc',
+    content: [
+      {
+        type: 'heading',
+        attrs: { level: 1 },
+        content: [{ type: 'text', text: 'Runbook' }]
+      },
+      macro,
+      {
+        type: 'paragraph',
+        content: [{ type: 'text', text: 'First paragraph' }]
+      },
+      {
+        type: 'paragraph',
+        content: [{ type: 'text', text: 'Second paragraph', marks: [{ type: 'strong' }] }]
+      }
+    ]
+  };
+
+  it('should keep the original document when Markdown is unchanged', () => {
+    const markdown = ADFConverter.adfToMarkdown(original, { pageId: '123' });
+
+    const result = ADFPatcher.patch(original, markdown);
+
+    expect(result.adf).toEqual(original);
+    expect(result.stats).toEqual({ preserved: 4, changed: 0, removed: 0 });
+  });
+
+  it('should only rebuild edited blocks', () => {
+    const markdown = '# Runbook\n\nFirst paragraph, edited\n\n**Second paragraph**';
+
+    const result = ADFPatcher.patch(original, markdown);
+
+    expect(result.adf.content[0]).toBe(original.content[0]);
+    expect(result.adf.content[1]).toBe(macro);
+    expect(result.adf.content[2]).toEqual({
+      type: 'paragraph',
+      content: [{ type: 'text', text: 'First paragraph, edited' }]
+    });
+    expect(result.adf.content[3]).toBe(original.content[3]);
+    expect(result.stats).toEqual({ preserved: 3, changed: 1, removed: 0 });
+  });
+
+  it('should keep invisible blocks after the edited block they followed', () => {
+    const doc: ADFDocument = {
+      version: 1,
+      type: 'doc',
+      content: [
+        { type: 'paragraph', content: [{ type: 'text', text: 'A' }] },
+        macro,
+        { type: 'paragraph', content: [{ type: 'text', text: 'B' }] }
+      ]
+    };
+
+    const result = ADFPatcher.patch(doc, 'A2\n\nB');
+
+    expect(result.adf.content).toEqual([
+      { type: 'paragraph', content: [{ type: 'text', text: 'A2' }] },
+      macro,
+      doc.content[2]
+    ]);
+    expect(result.stats).toEqual({ preserved: 2, changed: 1, removed: 0 });
+  });
+
+  it('should count blocks deleted without replacement as removed', () => {
+    const markdown = '# Runbook\n\n**Second paragraph**';
+
+    const result = ADFPatcher.patch(original, markdown);
+
+    expect(result.adf.content).toEqual([original.content[0], macro, original.content[3]]);
+    expect(result.stats).toEqual({ preserved: 3, changed: 0, removed: 1 });
+  });
+
+  it('should insert new blocks and drop deleted ones', () => {
+    const markdown = '# Runbook\n\nFirst paragraph\n\n## New section\n\nAdded text';
+
+    const result = ADFPatcher.patch(original, markdown);
+
+    expect(result.adf.content.map(node => node.type)).toEqual([
+      'heading',
+      'extension',
+      'paragraph',
+      'heading',
+      'paragraph'
+    ]);
+    expect(result.adf.content[2]).toBe(original.content[2]);
+    expect(result.stats).toEqual({ preserved: 3, changed: 2, removed: 0 });
+  });
+
+  it('should preserve inline nodes the converter does not understand', () => {
+    const doc: ADFDocument = {
+      version: 1,
+      type: 'doc',
+      content: [
+        mention,
+        { type: 'paragraph', content: [{ type: 'text', text: 'Notes' }] }
+      ]
+    };
+    const markdown = ADFConverter.adfToMarkdown(doc).replace('Notes', 'Updated notes');
+
+    const result = ADFPatcher.patch(doc, markdown);
+
+    expect(result.adf.content[0]).toBe(mention);
+    expect(result.adf.content[1]).toEqual({
+      type: 'paragraph',
+      content: [{ type: 'text', text: 'Updated notes' }]
+    });
+  });
+
+  it('should keep document attributes from the original', () => {
+    const result = ADFPatcher.patch(original, 'Replaced');
+
+    expect(result.adf.version).toBe(1);
+    expect(result.adf.type).toBe('doc');
+    expect(result.adf.content).toContain(macro);
+  });
+});
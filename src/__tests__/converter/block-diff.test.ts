@@ -0,0 +1,68 @@
+import { BlockDiff } from '../../converter/block-diff.js';
+
+describe('BlockDiff', () => {
+  // Length of the longest common subsequence, from the full dynamic programming table
+  function lcsLength(a: string[], b: string[]): number {
+    const table = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        table[i][j] = a[i - 1] === b[j - 1] ? table[i - 1][j - 1] + 1 : Math.max(table[i - 1][j], table[i][j - 1]);
+      }
+    }
+    return table[a.length][b.length];
+  }
+
+  function expectCommonSubsequence(a: string[], b: string[], pairs: Array<[number, number]>): void {
+    pairs.forEach(([i, j], index) => {
+      expect(a[i]).toBe(b[j]);
+      if (index > 0) {
+        expect(i).toBeGreaterThan(pairs[index - 1][0]);
+        expect(j).toBeGreaterThan(pairs[index - 1][1]);
+      }
+    });
+  }
+
+  describe('normalize', () => {
+    it('should ignore trailing whitespace', () => {
+      expect(BlockDiff.normalize('  a  \nb \n\n')).toBe('a\nb');
+    });
+  });
+
+  describe('match', () => {
+    it('should match unchanged blocks around an edit', () => {
+      expect(BlockDiff.match(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd'])).toEqual([[0, 0], [2, 2], [3, 3]]);
+    });
+
+    it('should match blocks after insertions and deletions', () => {
+      expect(BlockDiff.match(['a', 'b', 'c'], ['x', 'a', 'c', 'y'])).toEqual([[0, 1], [2, 2]]);
+      expect(BlockDiff.match([], ['a'])).toEqual([]);
+      expect(BlockDiff.match(['a'], [])).toEqual([]);
+    });
+
+    it('should find a longest common subsequence', () => {
+      const samples: Array<[string[], string[]]> = [
+        [['a', 'b', 'c', 'b', 'd', 'a', 'b'], ['b', 'd', 'c', 'a', 'b', 'a']],
+        [['x', 'y', 'x', 'y', 'x'], ['y', 'x', 'y', 'x', 'y']],
+        [['a', 'a', 'b', 'a'], ['a', 'b', 'a', 'a', 'b']],
+        [['p', 'q', 'r', 's', 't'], ['t', 's', 'r', 'q', 'p']]
+      ];
+
+      for (const [a, b] of samples) {
+        const pairs = BlockDiff.match(a, b);
+
+        expectCommonSubsequence(a, b, pairs);
+        expect(pairs).toHaveLength(lcsLength(a, b));
+      }
+    });
+
+    it('should compare long documents that differ throughout', () => {
+      const original = Array.from({ length: 2000 }, (_, i) => `line ${i}`);
+      const edited = original.map((line, i) => (i % 3 === 0 ? `${line} edited` : line));
+
+      const pairs = BlockDiff.match(original, edited);
+
+      expectCommonSubsequence(original, edited, pairs);
+      expect(pairs).toHaveLength(original.length - Math.ceil(original.length / 3));
+    });
+  });
+});
@@ -384,6 +384,91 @@ describe('ADFConverter', () => {
       });
     });
 
+    it('should convert nested and mixed lists', () => {
+      const markdown = '- Parent\n  - Child\n    1. Step one\n    2. Step two\n- Sibling';
+      const result = ADFConverter.markdownToADF(markdown);
+
+      expect(result.adf.content).toHaveLength(1);
+      expect(result.adf.content[0]).toEqual({
+        type: 'bulletList',
+        content: [
+          {
+            type: 'listItem',
+            content: [
+              { type: 'paragraph', content: [{ type: 'text', text: 'Parent' }] },
+              {
+                type: 'bulletList',
+                content: [
+                  {
+                    type: 'listItem',
+                    content: [
+                      { type: 'paragraph', content: [{ type: 'text', text: 'Child' }] },
+                      {
+                        type: 'orderedList',
+                        content: [
+                          { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Step one' }] }] },
+                          { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Step two' }] }] }
+                        ]
+                      }
+                    ]
+                  }
+                ]
+              }
+            ]
+          },
+          {
+            type: 'listItem',
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Sibling' }] }]
+          }
+        ]
+      });
+    });
+
+    it('should keep the start number of ordered lists', () => {
+      const result = ADFConverter.markdownToADF('3. Third\n4. Fourth');
+
+      expect(result.adf.content[0].type).toBe('orderedList');
+      expect(result.adf.content[0].attrs).toEqual({ order: 3 });
+      expect(result.adf.content[0].content).toHaveLength(2);
+    });
+
+    it('should parse paragraphs and code blocks inside list items', () => {
+      const markdown = '1. Install\n\n   Run the installer:\n\n   ```bash\n   ./install.sh\n     --quiet\n   ```\n2. Done';
+      const result = ADFConverter.markdownToADF(markdown);
+
+      expect(result.adf.content).toHaveLength(1);
+      const [first, second] = result.adf.content[0].content!;
+      expect(first.content).toEqual([
+        { type: 'paragraph', content: [{ type: 'text', text: 'Install' }] },
+        { type: 'paragraph', content: [{ type: 'text', text: 'Run the installer:' }] },
+        { type: 'codeBlock', attrs: { language: 'bash' }, content: [{ type: 'text', text: './install.sh\n  --quiet' }] }
+      ]);
+      expect(second.content).toEqual([
+        { type: 'paragraph', content: [{ type: 'text', text: 'Done' }] }
+      ]);
+    });
+
+    it('should parse lists in files with CRLF line endings', () => {
+      const result = ADFConverter.markdownToADF('a\r\n- one\r\n- two\r\n');
+
+      expect(result.adf.content).toEqual([
+        { type: 'paragraph', content: [{ type: 'text', text: 'a' }] },
+        {
+          type: 'bulletList',
+          content: [
+            { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'one' }] }] },
+            { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'two' }] }] }
+          ]
+        }
+      ]);
+    });
+
+    it('should start a new list when the list type changes', () => {
+      const result = ADFConverter.markdownToADF('- Bullet\n1. Number');
+
+      expect(result.adf.content.map(node => node.type)).toEqual(['bulletList', 'orderedList']);
+    });
+
     it('should convert tables', () => {
       const markdown = '| Header 1 | Header 2 |\n| --- | --- |\n| Cell 1 | Cell 2 |';
       const result = ADFConverter.markdownToADF(markdown);
@@ -527,6 +612,332 @@ console.log("code");
     });
   });
 
+  describe('nested lists', () => {
+    it('should round-trip nested lists with multi-paragraph items and code blocks', () => {
+      const markdown = `5. Prepare
+   - Check access
+   - Back up the database
+
+   \`\`\`sql
+   SELECT 1;
+   \`\`\`
+6. Deploy
+
+   Watch the dashboards.`;
+
+      const { adf } = ADFConverter.markdownToADF(markdown);
+
+      expect(ADFConverter.adfToMarkdown(adf)).toBe(markdown);
+    });
+
+    it('should indent children of ordered items to the content column', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'orderedList',
+          attrs: { order: 9 },
+          content: [
+            { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Nine' }] }] },
+            {
+              type: 'listItem',
+              content: [
+                { type: 'paragraph', content: [{ type: 'text', text: 'Ten' }] },
+                {
+                  type: 'bulletList',
+                  content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Nested' }] }] }]
+                }
+              ]
+            }
+          ]
+        }]
+      };
+
+      expect(ADFConverter.adfToMarkdown(adf)).toBe('9. Nine\n10. Ten\n    - Nested');
+    });
+  });
+
+  describe('task and decision lists', () => {
+    const adf: ADFDocument = {
+      version: 1,
+      type: 'doc',
+      content: [
+        {
+          type: 'taskList',
+          attrs: { localId: 'list-1' },
+          content: [
+            { type: 'taskItem', attrs: { localId: 'task-1', state: 'DONE' }, content: [{ type: 'text', text: 'Book the room' }] },
+            { type: 'taskItem', attrs: { localId: 'task-2', state: 'TODO' }, content: [{ type: 'text', text: 'Send ' }, { type: 'text', text: 'agenda', marks: [{ type: 'strong' }] }] },
+            {
+              type: 'taskList',
+              attrs: { localId: 'list-2' },
+              content: [
+                { type: 'taskItem', attrs: { localId: 'task-3', state: 'TODO' }, content: [{ type: 'text', text: 'Draft slides' }] }
+              ]
+            }
+          ]
+        },
+        {
+          type: 'decisionList',
+          attrs: { localId: 'list-3' },
+          content: [
+            { type: 'decisionItem', attrs: { localId: 'decision-1', state: 'DECIDED' }, content: [{ type: 'text', text: 'Ship on Friday' }] }
+          ]
+        }
+      ]
+    };
+
+    it('should convert task and decision lists to Markdown', () => {
+      expect(ADFConverter.adfToMarkdown(adf)).toBe(
+        '- [x] Book the room\n- [ ] Send **agenda**\n  - [ ] Draft slides\n\n- <> Ship on Friday'
+      );
+    });
+
+    it('should parse checkboxes and decisions with generated local IDs', () => {
+      const result = ADFConverter.markdownToADF('- [x] Book the room\n- [ ] Send **agenda**\n  - [ ] Draft slides\n\n- <> Ship on Friday');
+
+      expect(result.adf.content).toEqual([
+        {
+          type: 'taskList',
+          attrs: { localId: expect.any(String) },
+          content: [
+            { type: 'taskItem', attrs: { localId: expect.any(String), state: 'DONE' }, content: [{ type: 'text', text: 'Book the room' }] },
+            { type: 'taskItem', attrs: { localId: expect.any(String), state: 'TODO' }, content: [{ type: 'text', text: 'Send ' }, { type: 'text', text: 'agenda', marks: [{ type: 'strong' }] }] },
+            {
+              type: 'taskList',
+              attrs: { localId: expect.any(String) },
+              content: [
+                { type: 'taskItem', attrs: { localId: expect.any(String), state: 'TODO' }, content: [{ type: 'text', text: 'Draft slides' }] }
+              ]
+            }
+          ]
+        },
+        {
+          type: 'decisionList',
+          attrs: { localId: expect.any(String) },
+          content: [
+            { type: 'decisionItem', attrs: { localId: expect.any(String), state: 'DECIDED' }, content: [{ type: 'text', text: 'Ship on Friday' }] }
+          ]
+        }
+      ]);
+
+      const taskList = result.adf.content[0];
+      const ids = [taskList.attrs?.localId, ...taskList.content!.map(item => item.attrs?.localId)];
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should parse task and decision lists in files with CRLF line endings', () => {
+      const result = ADFConverter.markdownToADF('- [ ] task\r\n- [x] done\r\n\r\n- <> decided\r\n');
+
+      expect(result.adf.content.map(node => node.type)).toEqual(['taskList', 'decisionList']);
+      expect(result.adf.content[0].content!.map(item => [item.attrs?.state, item.content])).toEqual([
+        ['TODO', [{ type: 'text', text: 'task' }]],
+        ['DONE', [{ type: 'text', text: 'done' }]]
+      ]);
+      expect(result.adf.content[1].content![0].content).toEqual([{ type: 'text', text: 'decided' }]);
+    });
+
+    it('should keep task lists separate from bullet lists', () => {
+      const result = ADFConverter.markdownToADF('- Plain item\n- [ ] Task item');
+
+      expect(result.adf.content.map(node => node.type)).toEqual(['bulletList', 'taskList']);
+    });
+
+    it('should not treat links at the start of a list item as checkboxes', () => {
+      const result = ADFConverter.markdownToADF('- [docs](https://example.com)');
+
+      expect(result.adf.content[0].type).toBe('bulletList');
+    });
+  });
+
+  describe('media', () => {
+    const attachments = [{
+      id: 'att1',
+      fileName: 'my diagram.png',
+      path: 'assets/123/my diagram.png',
+      fileId: 'file-1',
+      collection: 'contentId-123'
+    }];
+
+    const adf: ADFDocument = {
+      version: 1,
+      type: 'doc',
+      content: [{
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [{ type: 'media', attrs: { id: 'file-1', type: 'file', collection: 'contentId-123', alt: 'Diagram' } }]
+      }]
+    };
+
+    it('should render media with a known attachment as a relative image link', () => {
+      expect(ADFConverter.adfToMarkdown(adf, undefined, { attachments })).toBe('![Diagram](assets/123/my%20diagram.png)');
+    });
+
+    it('should reference media without a known attachment by ID and collection', () => {
+      const markdown = ADFConverter.adfToMarkdown(adf);
+
+      expect(markdown).toBe('![Diagram](attachment:file-1){collection=contentId-123}');
+      expect(ADFConverter.markdownToADF(markdown).adf.content).toEqual(adf.content);
+    });
+
+    it('should keep layout and width in an attribute block', () => {
+      const wide: ADFDocument = {
+        ...adf,
+        content: [{ ...adf.content[0], attrs: { layout: 'wide', width: 80 } }]
+      };
+
+      const markdown = ADFConverter.adfToMarkdown(wide, undefined, { attachments });
+
+      expect(markdown).toBe('![Diagram](assets/123/my%20diagram.png){layout=wide width=80}');
+      expect(ADFConverter.markdownToADF(markdown, { attachments }).adf.content).toEqual(wide.content);
+    });
+
+    it('should match images to attachments by file name', () => {
+      const result = ADFConverter.markdownToADF('![](my%20diagram.png)', { attachments });
+
+      expect(result.adf.content[0].content![0].attrs).toEqual({ id: 'file-1', type: 'file', collection: 'contentId-123' });
+    });
+
+    it('should convert external images', () => {
+      const external: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'mediaSingle',
+          attrs: { layout: 'center' },
+          content: [{ type: 'media', attrs: { type: 'external', url: 'https://example.com/logo.png', alt: 'Logo' } }]
+        }]
+      };
+
+      expect(ADFConverter.adfToMarkdown(external)).toBe('![Logo](https://example.com/logo.png)');
+      expect(ADFConverter.markdownToADF('![Logo](https://example.com/logo.png)').adf.content).toEqual(external.content);
+    });
+
+    it('should round-trip media groups as consecutive image lines', () => {
+      const group: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'mediaGroup',
+          content: [
+            { type: 'media', attrs: { id: 'file-1', type: 'file', collection: 'contentId-123' } },
+            { type: 'media', attrs: { id: 'file-2', type: 'file', collection: 'contentId-123' } }
+          ]
+        }]
+      };
+
+      const markdown = ADFConverter.adfToMarkdown(group, undefined, { attachments });
+
+      expect(markdown).toBe('![](assets/123/my%20diagram.png)\n![](attachment:file-2){collection=contentId-123}');
+      expect(ADFConverter.markdownToADF(markdown, { attachments }).adf.content).toEqual(group.content);
+    });
+
+    it('should round-trip inline media', () => {
+      const inline: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'See ' },
+            { type: 'mediaInline', attrs: { id: 'file-1', type: 'file', collection: 'contentId-123' } },
+            { type: 'text', text: ' for details' }
+          ]
+        }]
+      };
+
+      const markdown = ADFConverter.adfToMarkdown(inline, undefined, { attachments });
+
+      expect(markdown).toBe('See ![](assets/123/my%20diagram.png) for details');
+      expect(ADFConverter.markdownToADF(markdown, { attachments }).adf.content).toEqual(inline.content);
+    });
+
+    it('should parse images of known attachments into media nodes', () => {
+      const result = ADFConverter.markdownToADF('![Diagram](./assets/123/my%20diagram.png)', { attachments });
+
+      expect(result.adf.content).toEqual(adf.content);
+    });
+
+    it('should parse images inside list items', () => {
+      const result = ADFConverter.markdownToADF('- Step\n\n  ![Diagram](assets/123/my%20diagram.png)', { attachments });
+
+      expect(result.adf.content[0].content![0].content![1].type).toBe('mediaSingle');
+    });
+
+    it('should leave images of unknown files as text', () => {
+      const result = ADFConverter.markdownToADF('![Other](other.png)', { attachments });
+
+      expect(result.adf.content[0].type).toBe('paragraph');
+    });
+  });
+
+  describe('storage format macros', () => {
+    const storage = '<ac:structured-macro ac:name="toc"><ac:parameter ac:name="maxLevel">2</ac:parameter></ac:structured-macro>';
+
+    it('should render extensions carrying storage format as opaque code fences', () => {
+      const adf: ADFDocument = { version: 1, type: 'doc', content: [ADFConverter.storageExtension(storage)] };
+
+      expect(ADFConverter.adfToMarkdown(adf)).toBe('```confluence-macro\n' + storage + '\n```');
+    });
+
+    it('should parse opaque code fences back into extensions', () => {
+      const result = ADFConverter.markdownToADF('Text\n\n```confluence-macro\n' + storage + '\n```');
+
+      expect(result.adf.content[1]).toEqual({
+        type: 'extension',
+        attrs: {
+          extensionType: 'com.atlassian.confluence.macro.core',
+          extensionKey: 'toc',
+          parameters: { macroParams: { maxLevel: { value: '2' } }, storage }
+        }
+      });
+    });
+
+    it('should skip extensions without storage format', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{ type: 'extension', attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'toc' } }]
+      };
+
+      expect(ADFConverter.adfToMarkdown(adf)).toBe('');
+    });
+  });
+
+  describe('splitMarkdownBlocks', () => {
+    it('should split Markdown into top-level blocks without front matter', () => {
+      const markdown = `---
+pageId: "123"
+---
+
+# Title
+
+First paragraph
+
+- Item 1
+- Item 2
+
+\`\`\`
+code
+
+more code
+\`\`\``;
+
+      expect(ADFConverter.splitMarkdownBlocks(markdown)).toEqual([
+        '# Title',
+        'First paragraph',
+        '- Item 1\n- Item 2',
+        '```\ncode\n\nmore code\n```'
+      ]);
+    });
+
+    it('should split files with CRLF line endings at the same boundaries', () => {
+      const markdown = '---\r\npageId: "123"\r\n---\r\n\r\nIntro\r\n\r\n- Item 1\r\n- Item 2\r\n';
+
+      expect(ADFConverter.splitMarkdownBlocks(markdown)).toEqual(['Intro', '- Item 1\n- Item 2']);
+    });
+  });
+
   describe('bidirectional conversion', () => {
     it('should maintain content through round-trip conversion', () => {
       const originalMarkdown = `# Test Document
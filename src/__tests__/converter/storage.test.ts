@@ -0,0 +1,276 @@
+import { StorageConverter } from '../../converter/storage.js';
+import { ADFPatcher } from '../../converter/adf-patcher.js';
+import { ADFConverter } from '../../converter/index.js';
+import { ADFDocument } from '../../types/index.js';
+
+describe('StorageConverter', () => {
+  describe('storageToADF', () => {
+    it('should convert headings and paragraphs with inline marks', () => {
+      const adf = StorageConverter.storageToADF('<h2>Title</h2><p>Some <strong>bold</strong>, <em>italic</em> and <a href="https://example.com">link</a><br />next</p>');
+
+      expect(adf.content).toEqual([
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Title' }] },
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Some ' },
+            { type: 'text', text: 'bold', marks: [{ type: 'strong' }] },
+            { type: 'text', text: ', ' },
+            { type: 'text', text: 'italic', marks: [{ type: 'em' }] },
+            { type: 'text', text: ' and ' },
+            { type: 'text', text: 'link', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+            { type: 'hardBreak' },
+            { type: 'text', text: 'next' }
+          ]
+        }
+      ]);
+    });
+
+    it('should convert lists with nested lists', () => {
+      const adf = StorageConverter.storageToADF('<ol start="3"><li>one<ul><li>nested</li></ul></li><li><p>two</p></li></ol>');
+
+      expect(adf.content[0]).toEqual({
+        type: 'orderedList',
+        attrs: { order: 3 },
+        content: [
+          {
+            type: 'listItem',
+            content: [
+              { type: 'paragraph', content: [{ type: 'text', text: 'one' }] },
+              { type: 'bulletList', content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'nested' }] }] }] }
+            ]
+          },
+          { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'two' }] }] }
+        ]
+      });
+    });
+
+    it('should convert code macros to code blocks', () => {
+      const adf = StorageConverter.storageToADF('<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">ts</ac:parameter><ac:plain-text-body><![CDATA[const a = 1 < 2;]]></ac:plain-text-body></ac:structured-macro>');
+
+      expect(adf.content[0]).toEqual({ type: 'codeBlock', attrs: { language: 'ts' }, content: [{ type: 'text', text: 'const a = 1 < 2;' }] });
+    });
+
+    it('should convert info macros to panels', () => {
+      const adf = StorageConverter.storageToADF('<ac:structured-macro ac:name="note"><ac:rich-text-body><p>Careful</p></ac:rich-text-body></ac:structured-macro>');
+
+      expect(adf.content[0]).toEqual({
+        type: 'panel',
+        attrs: { panelType: 'warning' },
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Careful' }] }]
+      });
+    });
+
+    it('should convert tables', () => {
+      const adf = StorageConverter.storageToADF('<table><tbody><tr><th><p>Name</p></th></tr><tr><td><p>Alice</p></td></tr></tbody></table>');
+
+      expect(adf.content[0].content?.map(row => row.content?.[0].type)).toEqual(['tableHeader', 'tableCell']);
+      expect(adf.content[0].content?.[1].content?.[0].content).toEqual([{ type: 'paragraph', content: [{ type: 'text', text: 'Alice' }] }]);
+    });
+
+    it('should convert task lists', () => {
+      const adf = StorageConverter.storageToADF('<ac:task-list><ac:task><ac:task-id>1</ac:task-id><ac:task-status>complete</ac:task-status><ac:task-body>Done</ac:task-body></ac:task></ac:task-list>');
+
+      expect(adf.content[0].type).toBe('taskList');
+      expect(adf.content[0].content?.[0]).toMatchObject({ type: 'taskItem', attrs: { state: 'DONE' }, content: [{ type: 'text', text: 'Done' }] });
+    });
+
+    it('should reference attached images by file name', () => {
+      const adf = StorageConverter.storageToADF('<p><ac:image ac:alt="Diagram" ac:width="300"><ri:attachment ri:filename="diagram.png" /></ac:image></p>');
+
+      expect(adf.content[0]).toEqual({
+        type: 'mediaSingle',
+        attrs: { layout: 'center', width: 300, widthType: 'pixel' },
+        content: [{ type: 'media', attrs: { type: 'file', id: 'diagram.png', collection: '', alt: 'Diagram' } }]
+      });
+    });
+
+    it('should keep page links as opaque inline extensions showing their text', () => {
+      const link = '<ac:link><ri:page ri:content-title="Other Page" /></ac:link>';
+      const adf = StorageConverter.storageToADF(`<p>See ${link}</p>`);
+
+      expect(adf.content).toEqual([{
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'See ' },
+          {
+            type: 'inlineExtension',
+            attrs: {
+              extensionType: 'com.atlassian.confluence.macro.core',
+              extensionKey: 'ac:link',
+              parameters: { macroParams: {}, storage: link }
+            },
+            content: [{ type: 'text', text: 'Other Page' }]
+          }
+        ]
+      }]);
+    });
+
+    it('should keep mentions and inline comment markers as opaque inline extensions', () => {
+      const adf = StorageConverter.storageToADF('<p><ac:link><ri:user ri:userkey="abc-123" /></ac:link> <ac:inline-comment-marker ac:ref="c1">reviewed</ac:inline-comment-marker></p>');
+      const [mention, space, marker] = adf.content[0].content!;
+
+      expect(mention.type).toBe('inlineExtension');
+      expect(mention.content).toBeUndefined();
+      expect(space).toEqual({ type: 'text', text: ' ' });
+      expect(marker.attrs?.extensionKey).toBe('ac:inline-comment-marker');
+      expect(marker.content).toEqual([{ type: 'text', text: 'reviewed' }]);
+    });
+
+    it('should keep unknown macros as opaque extensions', () => {
+      const macro = '<ac:structured-macro ac:name="jira"><ac:parameter ac:name="key">PROJ-1</ac:parameter></ac:structured-macro>';
+      const adf = StorageConverter.storageToADF(`<p>Before</p>${macro}`);
+
+      expect(adf.content[1]).toEqual({
+        type: 'extension',
+        attrs: {
+          extensionType: 'com.atlassian.confluence.macro.core',
+          extensionKey: 'jira',
+          parameters: { macroParams: { key: { value: 'PROJ-1' } }, storage: macro }
+        }
+      });
+    });
+  });
+
+  describe('adfToStorage', () => {
+    it('should write blocks and marks as storage format', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [
+          { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'A & B' }] },
+          { type: 'paragraph', content: [{ type: 'text', text: 'code', marks: [{ type: 'code' }] }, { type: 'text', text: ' link', marks: [{ type: 'link', attrs: { href: 'https://example.com/?a=1&b=2' } }] }] },
+          { type: 'rule' }
+        ]
+      };
+
+      expect(StorageConverter.adfToStorage(adf)).toBe(
+        '<h1>A &amp; B</h1><p><code>code</code><a href="https://example.com/?a=1&amp;b=2"> link</a></p><hr />'
+      );
+    });
+
+    it('should write code blocks and panels as macros', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [
+          { type: 'codeBlock', attrs: { language: 'js' }, content: [{ type: 'text', text: 'if (a < b) {}' }] },
+          { type: 'panel', attrs: { panelType: 'success' }, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Tip' }] }] }
+        ]
+      };
+
+      expect(StorageConverter.adfToStorage(adf)).toBe(
+        '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">js</ac:parameter><ac:plain-text-body><![CDATA[if (a < b) {}]]></ac:plain-text-body></ac:structured-macro>' +
+        '<ac:structured-macro ac:name="tip"><ac:rich-text-body><p>Tip</p></ac:rich-text-body></ac:structured-macro>'
+      );
+    });
+
+    it('should write media as attached images', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'mediaSingle',
+          attrs: { layout: 'align-start' },
+          content: [{ type: 'media', attrs: { type: 'file', id: 'diagram.png', collection: '', alt: 'Diagram' } }]
+        }]
+      };
+
+      expect(StorageConverter.adfToStorage(adf)).toBe('<ac:image ac:alt="Diagram" ac:align="left"><ri:attachment ri:filename="diagram.png" /></ac:image>');
+    });
+
+    it('should write opaque extensions verbatim and rebuild other macro extensions', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [
+          { type: 'extension', attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'toc', parameters: { storage: '<ac:structured-macro ac:name="toc" />' } } },
+          {
+            type: 'bodiedExtension',
+            attrs: { extensionType: 'com.atlassian.confluence.macro.core', extensionKey: 'expand', parameters: { macroParams: { title: { value: 'More' } } } },
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Hidden' }] }]
+          }
+        ]
+      };
+
+      expect(StorageConverter.adfToStorage(adf)).toBe(
+        '<ac:structured-macro ac:name="toc" />' +
+        '<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">More</ac:parameter><ac:rich-text-body><p>Hidden</p></ac:rich-text-body></ac:structured-macro>'
+      );
+    });
+
+    it('should reference uploaded attachments by file name', () => {
+      const adf: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{ type: 'mediaSingle', attrs: { layout: 'center' }, content: [{ type: 'media', attrs: { type: 'file', id: 'file-uuid', collection: 'contentId-1' } }] }]
+      };
+      const attachments = [{ id: 'att1', fileName: 'chart.png', path: 'assets/1/chart.png', fileId: 'file-uuid', collection: 'contentId-1', hash: 'h' }];
+
+      expect(StorageConverter.adfToStorage(adf, { attachments })).toBe('<ac:image><ri:attachment ri:filename="chart.png" /></ac:image>');
+    });
+
+    it('should round-trip links, mentions and inline comment markers verbatim', () => {
+      const storage = '<p>See <strong><ac:link><ri:page ri:content-title="Other" /><ac:plain-text-link-body><![CDATA[the other page]]></ac:plain-text-link-body></ac:link></strong>, '
+        + 'ask <ac:link><ri:user ri:userkey="abc-123" /></ac:link> about '
+        + '<ac:inline-comment-marker ac:ref="c1">this part</ac:inline-comment-marker>.</p>';
+
+      expect(StorageConverter.adfToStorage(StorageConverter.storageToADF(storage))).toBe(storage);
+    });
+
+    it('should round-trip lists, tables and task states', () => {
+      const storage = '<ul><li>one</li><li>two<ol><li>nested</li></ol></li></ul>' +
+        '<table><tbody><tr><th><p>H</p></th></tr><tr><td><p>C</p></td></tr></tbody></table>' +
+        '<ac:task-list><ac:task><ac:task-id>1</ac:task-id><ac:task-status>incomplete</ac:task-status><ac:task-body>Todo</ac:task-body></ac:task></ac:task-list>';
+
+      expect(StorageConverter.adfToStorage(StorageConverter.storageToADF(storage))).toBe(storage);
+    });
+  });
+
+  describe('Markdown', () => {
+    const storage = '<h1>Title</h1><p>Intro with <strong>bold</strong></p>' +
+      '<ac:structured-macro ac:name="jira" ac:schema-version="1"><ac:parameter ac:name="key">PROJ-1</ac:parameter></ac:structured-macro>' +
+      '<ac:structured-macro ac:name="html"><ac:plain-text-body><![CDATA[<b>raw</b>]]></ac:plain-text-body></ac:structured-macro>';
+
+    it('should convert storage format to Markdown with unknown macros as opaque blocks', () => {
+      const markdown = StorageConverter.storageToMarkdown(storage);
+
+      expect(markdown).toContain('# Title');
+      expect(markdown).toContain('Intro with **bold**');
+      expect(markdown).toContain('```confluence-macro\n<ac:structured-macro ac:name="jira" ac:schema-version="1"><ac:parameter ac:name="key">PROJ-1</ac:parameter></ac:structured-macro>\n```');
+      expect(markdown).toContain('<ac:plain-text-body><![CDATA[<b>raw</b>]]></ac:plain-text-body>');
+    });
+
+    it('should round-trip storage format through Markdown', () => {
+      const { storage: result } = StorageConverter.markdownToStorage(StorageConverter.storageToMarkdown(storage));
+
+      expect(result).toBe(storage);
+    });
+
+    it('should keep opaque blocks when the surrounding Markdown is edited', () => {
+      const markdown = StorageConverter.storageToMarkdown(storage).replace('Intro', 'Edited intro');
+
+      const { storage: result } = StorageConverter.markdownToStorage(markdown);
+
+      expect(result).toContain('<p>Edited intro with <strong>bold</strong></p>');
+      expect(result).toContain('<ac:structured-macro ac:name="jira" ac:schema-version="1">');
+    });
+
+    it('should show inline markup as text and keep it in blocks that were not edited', () => {
+      const linked = '<p>See <ac:link><ri:page ri:content-title="Other" /></ac:link></p>';
+      const original = StorageConverter.storageToADF(`${linked}<p>Draft</p>`);
+      const markdown = ADFConverter.adfToMarkdown(original);
+
+      const patched = ADFPatcher.patch(original, markdown.replace('Draft', 'Final'));
+
+      expect(markdown).toContain('See Other');
+      expect(StorageConverter.adfToStorage(patched.adf)).toBe(`${linked}<p>Final</p>`);
+    });
+
+    it('should return front matter metadata', () => {
+      const { metadata } = StorageConverter.markdownToStorage('---\npageId: "123"\n---\n\nText');
+
+      expect(metadata).toEqual({ pageId: '123' });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { ThreeWayMerge } from '../../converter/three-way-merge.js';
+
+describe('ThreeWayMerge', () => {
+  const base = `# Title
+
+Intro paragraph
+
+## Steps
+
+- Step one
+- Step two
+
+Closing words`;
+
+  describe('merge', () => {
+    it('should combine changes made to different blocks', () => {
+      const local = base.replace('Intro paragraph', 'Intro paragraph, edited locally');
+      const remote = base.replace('Closing words', 'Closing words, edited remotely');
+
+      const result = ThreeWayMerge.merge(base, local, remote);
+
+      expect(result.conflicts).toBe(0);
+      expect(result.localChanges).toBe(1);
+      expect(result.remoteChanges).toBe(1);
+      expect(result.markdown).toContain('Intro paragraph, edited locally');
+      expect(result.markdown).toContain('Closing words, edited remotely');
+    });
+
+    it('should accept identical changes on both sides', () => {
+      const edited = base.replace('- Step two', '- Step two\n- Step three');
+
+      const result = ThreeWayMerge.merge(base, edited, edited);
+
+      expect(result.conflicts).toBe(0);
+      expect(result.markdown).toBe(edited);
+    });
+
+    it('should keep insertions and deletions from either side', () => {
+      const local = base.replace('Closing words', 'New local paragraph\n\nClosing words');
+      const remote = base.replace('Intro paragraph\n\n', '');
+
+      const result = ThreeWayMerge.merge(base, local, remote);
+
+      expect(result.conflicts).toBe(0);
+      expect(result.markdown).not.toContain('Intro paragraph');
+      expect(result.markdown).toContain('New local paragraph\n\nClosing words');
+    });
+
+    it('should write conflict markers when both sides change the same block', () => {
+      const local = base.replace('Intro paragraph', 'Local intro');
+      const remote = base.replace('Intro paragraph', 'Remote intro');
+
+      const result = ThreeWayMerge.merge(base, local, remote, { remote: 'remote (version 4)' });
+
+      expect(result.conflicts).toBe(1);
+      expect(result.markdown).toContain('<<<<<<< local\nLocal intro\n=======\nRemote intro\n>>>>>>> remote (version 4)');
+      expect(result.markdown).toContain('## Steps');
+    });
+
+    it('should ignore front matter in the local file', () => {
+      const local = `---\npageId: "123"\n---\n\n${base}`;
+
+      const result = ThreeWayMerge.merge(base, local, base);
+
+      expect(result.markdown).toBe(base);
+    });
+  });
+
+  describe('hasConflictMarkers', () => {
+    it('should detect unresolved conflicts', () => {
+      expect(ThreeWayMerge.hasConflictMarkers('<<<<<<< local\na\n=======\nb\n>>>>>>> remote')).toBe(true);
+    });
+
+    it('should not flag ordinary Markdown', () => {
+      expect(ThreeWayMerge.hasConflictMarkers(base)).toBe(false);
+      expect(ThreeWayMerge.hasConflictMarkers('Some text\n\n=======\n')).toBe(false);
+    });
+  });
+});
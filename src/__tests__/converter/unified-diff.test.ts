@@ -0,0 +1,46 @@
+import { UnifiedDiff } from '../../converter/unified-diff.js';
+
+describe('UnifiedDiff', () => {
+  const labels = { old: 'version 1', new: 'version 2' };
+
+  it('should return an empty diff for the same lines', () => {
+    expect(UnifiedDiff.create('a\nb  \n', 'a\nb', labels)).toEqual({ diff: '', additions: 0, deletions: 0 });
+  });
+
+  it('should show changed lines with context', () => {
+    const result = UnifiedDiff.create('one\ntwo\nthree\nfour', 'one\n2\nthree\nfour\nfive', labels, 1);
+
+    expect(result.additions).toBe(2);
+    expect(result.deletions).toBe(1);
+    expect(result.diff).toBe([
+      '--- version 1',
+      '+++ version 2',
+      '@@ -1,4 +1,5 @@',
+      ' one',
+      '-two',
+      '+2',
+      ' three',
+      ' four',
+      '+five'
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[17] = 'changed 18';
+
+    const { diff } = UnifiedDiff.create(oldLines.join('\n'), newLines.join('\n'), labels, 2);
+
+    expect(diff.split('\n').filter(line => line.startsWith('@@'))).toEqual([
+      '@@ -1,4 +1,4 @@',
+      '@@ -16,5 +16,5 @@'
+    ]);
+  });
+
+  it('should diff against empty text', () => {
+    expect(UnifiedDiff.create('', 'new', labels).diff).toBe('--- version 1\n+++ version 2\n@@ -0,0 +1,1 @@\n+new');
+    expect(UnifiedDiff.create('old', '', labels).diff).toBe('--- version 1\n+++ version 2\n@@ -1,1 +0,0 @@\n-old');
+  });
+});
@@ -0,0 +1,51 @@
+import { XhtmlParser, XhtmlElement } from '../../converter/xhtml.js';
+
+describe('XhtmlParser', () => {
+  it('should parse namespaced elements and attributes', () => {
+    const [image] = XhtmlParser.parse('<ac:image ac:alt="A &amp; B"><ri:attachment ri:filename="a.png" /></ac:image>') as XhtmlElement[];
+
+    expect(image.name).toBe('ac:image');
+    expect(image.attributes['ac:alt']).toBe('A & B');
+    expect(XhtmlParser.findChild(image, 'ri:attachment')?.attributes['ri:filename']).toBe('a.png');
+  });
+
+  it('should decode entities and keep CDATA verbatim', () => {
+    const nodes = XhtmlParser.parse('<p>a&nbsp;&lt;b&gt; &#8212; &#x2192;</p><pre><![CDATA[x < y && z]]></pre>');
+
+    expect(XhtmlParser.textContent(nodes[0])).toBe('a <b> — →');
+    expect(XhtmlParser.textContent(nodes[1])).toBe('x < y && z');
+  });
+
+  it('should keep numeric entities outside the Unicode range as text', () => {
+    const [paragraph] = XhtmlParser.parse('<p title="&#99999999;">&#x110000; &#x10FFFF; &#99999999999999999999999;</p>') as XhtmlElement[];
+
+    expect(paragraph.attributes.title).toBe('&#99999999;');
+    expect(XhtmlParser.textContent(paragraph)).toBe('&#x110000; \u{10FFFF} &#99999999999999999999999;');
+  });
+
+  it('should tolerate void elements, comments and stray closing tags', () => {
+    const nodes = XhtmlParser.parse('<p>one<br>two<!-- note --></span></p><hr><p>three</p>');
+
+    expect(nodes.map(node => node.type === 'element' && node.name)).toEqual(['p', 'hr', 'p']);
+    expect(XhtmlParser.textContent(nodes[0])).toBe('onetwo');
+  });
+
+  it('should close unclosed elements at their parent', () => {
+    const [list] = XhtmlParser.parse('<ul><li>one<li>two</ul>') as XhtmlElement[];
+
+    expect(list.children).toHaveLength(1);
+    expect(XhtmlParser.textContent(list)).toBe('onetwo');
+  });
+
+  it('should serialize nodes back to storage format', () => {
+    const storage = '<ac:structured-macro ac:name="code"><ac:parameter ac:name="title">A &amp; B</ac:parameter><ac:plain-text-body><![CDATA[x < y]]></ac:plain-text-body></ac:structured-macro><p>a &lt; b<br /></p>';
+
+    expect(XhtmlParser.serialize(XhtmlParser.parse(storage))).toBe(storage);
+  });
+
+  it('should escape text, attributes and CDATA', () => {
+    expect(XhtmlParser.escapeText('a < b & c')).toBe('a &lt; b &amp; c');
+    expect(XhtmlParser.escapeAttribute('say "hi"')).toBe('say &quot;hi&quot;');
+    expect(XhtmlParser.cdata('a ]]> b')).toBe('<![CDATA[a ]]]]><![CDATA[> b]]>');
+  });
+});
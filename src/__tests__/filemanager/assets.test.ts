@@ -0,0 +1,237 @@
+import { AssetManager } from '../../filemanager/assets.js';
+import { ConfluenceClient } from '../../client/confluence.js';
+import { ADFDocument } from '../../types/index.js';
+import * as fs from 'fs-extra';
+import { readFile } from 'fs/promises';
+
+jest.mock('../../client/confluence.js');
+jest.mock('fs-extra', () => ({
+  pathExists: jest.fn(),
+  outputFile: jest.fn()
+}));
+jest.mock('fs/promises', () => ({
+  readFile: jest.fn()
+}));
+
+describe('AssetManager', () => {
+  const mockedFs = fs as jest.Mocked<typeof fs>;
+  const mockedReadFile = readFile as jest.MockedFunction<typeof readFile>;
+  let client: jest.Mocked<ConfluenceClient>;
+
+  const adf: ADFDocument = {
+    version: 1,
+    type: 'doc',
+    content: [
+      { type: 'paragraph', content: [{ type: 'text', text: 'Architecture' }] },
+      { type: 'mediaSingle', content: [{ type: 'media', attrs: { id: 'file-1', type: 'file', collection: 'contentId-123' } }] }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new ConfluenceClient() as jest.Mocked<ConfluenceClient>;
+    (mockedFs.pathExists as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('collectMediaIds', () => {
+    it('should find media nodes at any depth', () => {
+      expect([...AssetManager.collectMediaIds(adf)]).toEqual(['file-1']);
+    });
+
+    it('should include inline media', () => {
+      const inlineADF: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Status: ' },
+            { type: 'mediaInline', attrs: { id: 'icon.png', type: 'file', collection: '' } }
+          ]
+        }]
+      };
+
+      expect([...AssetManager.collectMediaIds(inlineADF)]).toEqual(['icon.png']);
+    });
+  });
+
+  describe('downloadPageAttachments', () => {
+    it('should save attachments referenced by media nodes into assets/<pageId>', async () => {
+      client.getAttachments.mockResolvedValue({
+        results: [
+          {
+            id: 'att1',
+            type: 'attachment',
+            title: 'diagram.png',
+            extensions: { fileId: 'file-1', collectionName: 'contentId-123' },
+            _links: { download: '/download/attachments/123/diagram.png' }
+          },
+          {
+            id: 'att2',
+            type: 'attachment',
+            title: 'unused.pdf',
+            extensions: { fileId: 'file-2' },
+            _links: { download: '/download/attachments/123/unused.pdf' }
+          }
+        ]
+      });
+      client.downloadAttachment.mockResolvedValue(Buffer.from('png'));
+
+      const attachments = await AssetManager.downloadPageAttachments(client, '123', '/docs/123-page.md', adf);
+
+      expect(client.downloadAttachment).toHaveBeenCalledTimes(1);
+      expect(client.downloadAttachment).toHaveBeenCalledWith('/download/attachments/123/diagram.png');
+      expect(mockedFs.outputFile).toHaveBeenCalledWith('/docs/assets/123/diagram.png', Buffer.from('png'));
+      expect(attachments).toEqual([{
+        id: 'att1',
+        fileName: 'diagram.png',
+        path: 'assets/123/diagram.png',
+        fileId: 'file-1',
+        collection: 'contentId-123',
+        hash: AssetManager.hash(Buffer.from('png'))
+      }]);
+    });
+
+    it('should match attachments by file name for storage format pages', async () => {
+      client.getAttachments.mockResolvedValue({
+        results: [{
+          id: 'att1',
+          type: 'attachment',
+          title: 'diagram.png',
+          extensions: { fileId: 'file-uuid' },
+          _links: { download: '/download/attachments/123/diagram.png' }
+        }]
+      });
+      client.downloadAttachment.mockResolvedValue(Buffer.from('png'));
+      const storageADF: ADFDocument = {
+        version: 1,
+        type: 'doc',
+        content: [{ type: 'mediaSingle', content: [{ type: 'media', attrs: { id: 'diagram.png', type: 'file', collection: '' } }] }]
+      };
+
+      const attachments = await AssetManager.downloadPageAttachments(client, '123', '/docs/123-page.md', storageADF);
+
+      expect(attachments).toHaveLength(1);
+      expect(attachments[0].fileId).toBe('diagram.png');
+    });
+
+    it('should not list attachments for pages without media', async () => {
+      const attachments = await AssetManager.downloadPageAttachments(client, '123', '/docs/123-page.md', { version: 1, type: 'doc', content: [] });
+
+      expect(attachments).toEqual([]);
+      expect(client.getAttachments).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findLocalImages', () => {
+    it('should return existing relative image paths only', async () => {
+      (mockedFs.pathExists as jest.Mock).mockImplementation((path: string) => Promise.resolve(!path.includes('missing')));
+
+      const markdown = '![a](./assets/a.png)\n![b](https://example.com/b.png)\n![c](images/my%20chart.png)\n![d](missing.png)\n![e](/abs/e.png)\n![a again](assets/a.png)';
+
+      expect(await AssetManager.findLocalImages(markdown, '/docs/page.md')).toEqual(['assets/a.png', 'images/my chart.png']);
+    });
+
+    it('should skip files outside the folder and files that are not images', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const markdown = '![key](../../../../root/.ssh/id_rsa.png)\n![up](assets/../../secret.png)\n![env](.env)\n![doc](notes.txt)\n![ok](assets/ok.PNG)';
+
+      expect(await AssetManager.findLocalImages(markdown, '/docs/page.md')).toEqual(['assets/ok.PNG']);
+      expect(warn).toHaveBeenCalledTimes(4);
+      expect(mockedFs.pathExists).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe('hasChangedImages', () => {
+    const known = [{
+      id: 'att1',
+      fileName: 'diagram.png',
+      path: 'assets/123/diagram.png',
+      fileId: 'file-1',
+      collection: 'contentId-123',
+      hash: AssetManager.hash(Buffer.from('png'))
+    }];
+
+    it('should report no changes when every image matches its attachment', async () => {
+      mockedReadFile.mockResolvedValue(Buffer.from('png'));
+
+      expect(await AssetManager.hasChangedImages('![](assets/123/diagram.png)', '/docs/123-page.md', known)).toBe(false);
+    });
+
+    it('should report edited and new images', async () => {
+      mockedReadFile.mockResolvedValue(Buffer.from('edited'));
+      expect(await AssetManager.hasChangedImages('![](assets/123/diagram.png)', '/docs/123-page.md', known)).toBe(true);
+
+      mockedReadFile.mockResolvedValue(Buffer.from('png'));
+      expect(await AssetManager.hasChangedImages('![](images/new.png)', '/docs/123-page.md', known)).toBe(true);
+    });
+  });
+
+  describe('uploadLocalImages', () => {
+    const known = {
+      id: 'att1',
+      fileName: 'a.png',
+      path: 'assets/a.png',
+      fileId: 'file-1',
+      collection: 'contentId-123',
+      hash: AssetManager.hash(Buffer.from('unchanged'))
+    };
+
+    it('should upload new and changed images and skip unchanged ones', async () => {
+      mockedReadFile.mockImplementation((path: any) => Promise.resolve(Buffer.from(path.endsWith('a.png') ? 'unchanged' : 'new')) as any);
+      client.uploadAttachment.mockResolvedValue({
+        id: 'att2',
+        type: 'attachment',
+        title: 'b.png',
+        extensions: { fileId: 'file-2', collectionName: 'contentId-123' },
+        _links: { download: '/download/attachments/123/b.png' }
+      });
+
+      const result = await AssetManager.uploadLocalImages(client, '123', '/docs/page.md', '![a](assets/a.png)\n\n![b](b.png)', [known]);
+
+      expect(client.uploadAttachment).toHaveBeenCalledTimes(1);
+      expect(client.uploadAttachment).toHaveBeenCalledWith('123', 'b.png', Buffer.from('new'), 'image/png');
+      expect(result).toEqual({
+        attachments: [
+          known,
+          {
+            id: 'att2',
+            fileName: 'b.png',
+            path: 'b.png',
+            fileId: 'file-2',
+            collection: 'contentId-123',
+            hash: AssetManager.hash(Buffer.from('new'))
+          }
+        ],
+        uploaded: 1
+      });
+    });
+
+    it('should fail when Confluence returns no media file ID', async () => {
+      mockedReadFile.mockResolvedValue(Buffer.from('new') as any);
+      client.uploadAttachment.mockResolvedValue({ id: 'att2', type: 'attachment', title: 'b.png', _links: { download: '' } });
+
+      await expect(AssetManager.uploadLocalImages(client, '123', '/docs/page.md', '![b](b.png)', []))
+        .rejects.toThrow('Confluence did not return a media file ID for b.png');
+    });
+  });
+
+  describe('updateMediaReferences', () => {
+    it('should replace media IDs of re-uploaded attachments', () => {
+      const previous = [{ id: 'att1', fileName: 'a.png', path: 'assets/a.png', fileId: 'file-1', collection: 'contentId-123' }];
+      const current = [{ ...previous[0], fileId: 'file-9' }];
+
+      const updated = AssetManager.updateMediaReferences(adf, previous, current);
+
+      expect(updated.content[1].content![0].attrs).toEqual({ id: 'file-9', type: 'file', collection: 'contentId-123' });
+      expect(updated.content[0]).toEqual(adf.content[0]);
+    });
+
+    it('should return the document unchanged when nothing was re-uploaded', () => {
+      const attachments = [{ id: 'att1', fileName: 'a.png', path: 'assets/a.png', fileId: 'file-1', collection: 'contentId-123' }];
+
+      expect(AssetManager.updateMediaReferences(adf, attachments, attachments)).toBe(adf);
+    });
+  });
+});
@@ -8,7 +8,9 @@ import { homedir } from 'os';
 jest.mock('fs-extra', () => ({
   existsSync: jest.fn(),
   ensureDirSync: jest.fn(),
-  ensureDir: jest.fn()
+  ensureDir: jest.fn(),
+  pathExists: jest.fn(),
+  readFile: jest.fn()
 }));
 
 jest.mock('path', () => ({
@@ -186,6 +188,24 @@ describe('FileManager', () => {
     });
   });
 
+  describe('page tree directories', () => {
+    it('should place child pages in a folder named after the parent file', () => {
+      expect(FileManager.getChildDirectory('/base/123-parent.md')).toBe('/base/123-parent');
+    });
+
+    it('should place a space in a folder named after its key', () => {
+      expect(FileManager.getSpaceDirectory('TEST', '/target')).toBe('/target/TEST');
+      expect(FileManager.getSpaceDirectory('~user:name', '/target')).toBe('/target/~user-name');
+    });
+  });
+
+  describe('contentHash', () => {
+    it('should change when the content changes', () => {
+      expect(FileManager.contentHash('# Page')).toBe(FileManager.contentHash('# Page'));
+      expect(FileManager.contentHash('# Page')).not.toBe(FileManager.contentHash('# Page edited'));
+    });
+  });
+
   describe('getDisplayPath', () => {
     beforeEach(() => {
       // Mock getBaseDirectory behavior
@@ -273,6 +293,29 @@ describe('FileManager', () => {
     });
   });
 
+  describe('metadata files', () => {
+    it('should derive metadata path from markdown path', () => {
+      expect(FileManager.getMetadataPath('/downloads/123456-test-page.md')).toBe('/downloads/123456-test-page.meta.json');
+    });
+
+    it('should read metadata when the file exists', async () => {
+      const metadata = { pageId: '123456', title: 'Test', spaceKey: 'TEST', originalADF: '{}', version: 3 };
+      (mockedFs.pathExists as jest.Mock).mockResolvedValue(true);
+      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(JSON.stringify(metadata));
+
+      await expect(FileManager.readMetadata('/downloads/123456-test.meta.json')).resolves.toEqual(metadata);
+    });
+
+    it('should return null for missing or invalid metadata', async () => {
+      (mockedFs.pathExists as jest.Mock).mockResolvedValueOnce(false);
+      await expect(FileManager.readMetadata('/missing.meta.json')).resolves.toBeNull();
+
+      (mockedFs.pathExists as jest.Mock).mockResolvedValueOnce(true);
+      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValueOnce('not json');
+      await expect(FileManager.readMetadata('/invalid.meta.json')).resolves.toBeNull();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle fs operations that throw errors', async () => {
       (mockedFs.ensureDir as jest.Mock).mockRejectedValueOnce(new Error('Permission denied'));
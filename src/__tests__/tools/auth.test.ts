@@ -0,0 +1,119 @@
+import { createAuthenticateTool } from '../../tools/auth.js';
+import { authManager } from '../../auth/manager.js';
+import { ConfluenceClient } from '../../client/confluence.js';
+import { ApiTokenStrategy, PersonalAccessTokenStrategy } from '../../auth/strategies.js';
+
+// Mock dependencies
+jest.mock('../../client/confluence.js');
+jest.mock('../../tools/oauth.js', () => ({
+  isOAuthAuthenticated: jest.fn().mockReturnValue(false),
+  getOAuthConfluenceClient: jest.fn().mockReturnValue(null)
+}));
+
+describe('Authenticate Tool', () => {
+  let authenticateTool: ReturnType<typeof createAuthenticateTool>;
+  const MockedConfluenceClient = ConfluenceClient as jest.MockedClass<typeof ConfluenceClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    authManager.clear();
+    authenticateTool = createAuthenticateTool();
+    MockedConfluenceClient.prototype.testConnection = jest.fn().mockResolvedValue({ success: true });
+  });
+
+  describe('tool configuration', () => {
+    it('should have correct tool metadata', () => {
+      expect(authenticateTool.name).toBe('confluence_authenticate');
+      expect(authenticateTool.title).toBe('Authenticate with Confluence');
+    });
+
+    it('should have correct input schema', () => {
+      expect(authenticateTool.inputSchema).toHaveProperty('method');
+      expect(authenticateTool.inputSchema).toHaveProperty('baseUrl');
+      expect(authenticateTool.inputSchema).toHaveProperty('email');
+      expect(authenticateTool.inputSchema).toHaveProperty('token');
+      expect(authenticateTool.inputSchema).toHaveProperty('deployment');
+    });
+  });
+
+  describe('handler', () => {
+    it('should authenticate with an email and API token', async () => {
+      const result = await authenticateTool.handler({
+        method: 'api_token',
+        baseUrl: 'https://test.atlassian.net/wiki',
+        email: 'test@example.com',
+        token: 'test-token'
+      });
+
+      expect(MockedConfluenceClient.prototype.testConnection).toHaveBeenCalled();
+      expect(authManager.getStrategy()).toBeInstanceOf(ApiTokenStrategy);
+      expect(authManager.isAuthenticated()).toBe(true);
+      expect(result.content[0].text).toContain('API token (test@example.com)');
+      expect(result.content[0].text).toContain('https://test.atlassian.net');
+    });
+
+    it('should authenticate with a personal access token', async () => {
+      const result = await authenticateTool.handler({
+        method: 'pat',
+        baseUrl: 'https://confluence.example.com',
+        token: 'pat-token'
+      });
+
+      expect(authManager.getStrategy()).toBeInstanceOf(PersonalAccessTokenStrategy);
+      expect(authManager.getAuthHeaders()['Authorization']).toBe('Bearer pat-token');
+      expect(result.content[0].text).toContain('Personal access token');
+      expect(authManager.getDeployment()).toBe('datacenter');
+    });
+
+    it('should accept a username for Data Center basic authentication', async () => {
+      const result = await authenticateTool.handler({
+        method: 'api_token',
+        baseUrl: 'https://confluence.example.com/confluence',
+        email: 'jdoe',
+        token: 'password',
+        deployment: 'datacenter'
+      });
+
+      expect(authManager.getDeployment()).toBe('datacenter');
+      expect(authManager.getBaseUrl()).toBe('https://confluence.example.com/confluence');
+      expect(result.content[0].text).toContain('Data Center/Server');
+    });
+
+    it('should keep the previous authentication when the connection test fails', async () => {
+      MockedConfluenceClient.prototype.testConnection = jest.fn().mockResolvedValue({ success: false, error: 'HTTP 401: Unauthorized' });
+
+      await expect(authenticateTool.handler({
+        method: 'api_token',
+        baseUrl: 'https://test.atlassian.net',
+        email: 'test@example.com',
+        token: 'wrong-token'
+      })).rejects.toThrow('Connection test failed: HTTP 401: Unauthorized');
+
+      expect(authManager.getMethod()).toBe('oauth');
+    });
+
+    it('should require an email for API token authentication', async () => {
+      await expect(authenticateTool.handler({ method: 'api_token', baseUrl: 'https://test.atlassian.net', token: 'test-token' }))
+        .rejects.toThrow('email is required for api_token authentication');
+    });
+
+    it('should require a site URL and token', async () => {
+      await expect(authenticateTool.handler({ method: 'pat', token: 'pat-token' }))
+        .rejects.toThrow('baseUrl and token are required for pat authentication');
+    });
+
+    it('should reject invalid parameters', async () => {
+      await expect(authenticateTool.handler({ method: 'api_token', baseUrl: 'not a url', email: 'test@example.com', token: 'x' }))
+        .rejects.toThrow('Invalid parameters');
+    });
+
+    it('should switch back to OAuth', async () => {
+      authManager.setStrategy(new PersonalAccessTokenStrategy({ baseUrl: 'https://confluence.example.com', token: 'pat-token' }));
+
+      const result = await authenticateTool.handler({ method: 'oauth' });
+
+      expect(authManager.getMethod()).toBe('oauth');
+      expect(result.content[0].text).toContain("Run 'confluence_oauth_init'");
+    });
+  });
+});
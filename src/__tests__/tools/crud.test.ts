@@ -1,6 +1,7 @@
 import { createCrudTools } from '../../tools/crud.js';
 import { authManager } from '../../auth/manager.js';
 import { ConfluenceClient } from '../../client/confluence.js';
+import { PermissionDeniedError } from '../../client/errors.js';
 import { ToolError } from '../../types/index.js';
 
 // Mock dependencies
@@ -135,6 +136,15 @@ describe('CRUD Tools', () => {
         await expect(getPageTool.handler(params)).rejects.toThrow(ToolError);
         await expect(getPageTool.handler(params)).rejects.toThrow('Failed to get page: Page not found');
       });
+
+      it('should keep the details of Confluence errors', async () => {
+        MockedConfluenceClient.prototype.getContent = jest.fn().mockRejectedValue(new PermissionDeniedError('HTTP 403: Forbidden', { status: 403 }));
+
+        await expect(getPageTool.handler({ pageId: '123456' })).rejects.toMatchObject({
+          message: 'Failed to get page: HTTP 403: Forbidden',
+          details: { code: 'permission_denied', status: 403 }
+        });
+      });
     });
   });
 
@@ -1,7 +1,8 @@
-import { createDownloadPageTool } from '../../tools/download-page.js';
+import { createDownloadPageTool, readPageADF } from '../../tools/download-page.js';
 import { authManager } from '../../auth/manager.js';
 import { ConfluenceClient } from '../../client/confluence.js';
 import { FileManager } from '../../filemanager/index.js';
+import { AssetManager } from '../../filemanager/assets.js';
 import { ADFConverter } from '../../converter/index.js';
 import { ToolError } from '../../types/index.js';
 import * as fs from 'fs-extra';
@@ -10,9 +11,11 @@ import * as fs from 'fs-extra';
 jest.mock('../../auth/manager.js');
 jest.mock('../../client/confluence.js');
 jest.mock('../../filemanager/index.js');
+jest.mock('../../filemanager/assets.js');
 jest.mock('../../converter/index.js');
 jest.mock('fs-extra', () => ({
   writeFile: jest.fn(),
+  outputFile: jest.fn(),
   pathExists: jest.fn(),
   readFile: jest.fn(),
   move: jest.fn()
@@ -23,6 +26,7 @@ describe('Download Page Tool', () => {
   const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
   const MockedConfluenceClient = ConfluenceClient as jest.MockedClass<typeof ConfluenceClient>;
   const MockedFileManager = FileManager as jest.MockedClass<typeof FileManager>;
+  const MockedAssetManager = AssetManager as jest.MockedClass<typeof AssetManager>;
   const MockedADFConverter = ADFConverter as jest.MockedClass<typeof ADFConverter>;
   const mockedFs = fs as jest.Mocked<typeof fs>;
 
@@ -62,6 +66,7 @@ describe('Download Page Tool', () => {
     });
     MockedFileManager.getDisplayPath = jest.fn().mockReturnValue('confluence-downloads/123456-test-page.md');
     MockedADFConverter.adfToMarkdown = jest.fn().mockReturnValue('# Test Page\n\nHello world');
+    MockedAssetManager.downloadPageAttachments = jest.fn().mockResolvedValue([]);
     (mockedFs.writeFile as unknown as jest.Mock).mockResolvedValue(undefined);
   });
 
@@ -69,7 +74,7 @@ describe('Download Page Tool', () => {
     it('should have correct tool metadata', () => {
       expect(downloadTool.name).toBe('confluence_download_page');
       expect(downloadTool.title).toBe('Download Confluence Page');
-      expect(downloadTool.description).toBe('Download a Confluence page as Markdown with metadata, converting from ADF format.');
+      expect(downloadTool.description).toBe('Download a Confluence page as Markdown with metadata, converting from ADF or storage format. Images and other media on the page are saved to an assets/ folder next to the Markdown file.');
     });
 
     it('should have correct input schema', () => {
@@ -111,6 +116,42 @@ describe('Download Page Tool', () => {
       });
     });
 
+    it('should record the downloaded version in metadata', async () => {
+      await downloadTool.handler({ pageId: '123456' });
+
+      expect(MockedADFConverter.adfToMarkdown).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        version: 1,
+        versionWhen: '2023-01-01T00:00:00Z'
+      }), { attachments: [] });
+    });
+
+    it('should save attachments and link them from the Markdown', async () => {
+      const attachments = [{
+        id: 'att1',
+        fileName: 'diagram.png',
+        path: 'assets/123456/diagram.png',
+        fileId: 'file-1',
+        collection: 'contentId-123456',
+        hash: 'abc'
+      }];
+      MockedAssetManager.downloadPageAttachments = jest.fn().mockResolvedValue(attachments);
+
+      const result = await downloadTool.handler({ pageId: '123456' });
+
+      expect(MockedAssetManager.downloadPageAttachments).toHaveBeenCalledWith(
+        expect.any(MockedConfluenceClient),
+        '123456',
+        '/path/to/123456-test-page.md',
+        JSON.parse(mockPage.body.atlas_doc_format.value)
+      );
+      expect(MockedADFConverter.adfToMarkdown).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ attachments }),
+        { attachments }
+      );
+      expect(result.content[0].text).toContain('Saved 1 attachments to assets/123456');
+    });
+
     it('should download page with custom target directory', async () => {
       const params = {
         pageId: '123456',
@@ -286,4 +327,24 @@ describe('Download Page Tool', () => {
       await expect(downloadTool.handler(params)).rejects.toThrow('Failed to download page: Unknown error');
     });
   });
-});
\ No newline at end of file
+
+  describe('readPageADF', () => {
+    const page = { ...mockPage, type: 'page' };
+
+    it('should parse the ADF body', () => {
+      expect(readPageADF(page, 'adf').content[0].type).toBe('paragraph');
+    });
+
+    it('should convert the storage format body to ADF', () => {
+      const storagePage = { ...page, body: { storage: { value: '<h1>Title</h1>', representation: 'storage' } } };
+
+      expect(readPageADF(storagePage, 'storage').content).toEqual([
+        { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Title' }] }
+      ]);
+    });
+
+    it('should fail when the page has no body in the requested format', () => {
+      expect(() => readPageADF(page, 'storage')).toThrow('Page 123456 does not have storage format content or is not accessible');
+    });
+  });
+});
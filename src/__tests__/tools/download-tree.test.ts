@@ -0,0 +1,204 @@
+import { createDownloadTreeTool } from '../../tools/download-tree.js';
+import { downloadPageToFile } from '../../tools/download-page.js';
+import { authManager } from '../../auth/manager.js';
+import { ConfluenceClient } from '../../client/confluence.js';
+import { FileManager } from '../../filemanager/index.js';
+import { ToolError } from '../../types/index.js';
+
+// Mock dependencies
+jest.mock('../../auth/manager.js');
+jest.mock('../../client/confluence.js');
+jest.mock('../../filemanager/index.js');
+jest.mock('../../tools/download-page.js');
+
+describe('Download Tree Tool', () => {
+  let downloadTreeTool: ReturnType<typeof createDownloadTreeTool>;
+  const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
+  const MockedConfluenceClient = ConfluenceClient as jest.MockedClass<typeof ConfluenceClient>;
+  const MockedFileManager = FileManager as jest.MockedClass<typeof FileManager>;
+  const mockedDownloadPageToFile = downloadPageToFile as jest.MockedFunction<typeof downloadPageToFile>;
+
+  const page = (id: string, title: string) => ({
+    id,
+    type: 'page',
+    status: 'current',
+    title,
+    space: { key: 'TEST', name: 'Test Space' },
+    version: { number: 1, when: '2023-01-01T00:00:00Z' },
+    _links: { webui: `/wiki/spaces/TEST/pages/${id}` }
+  });
+
+  // Page tree: 1 -> (2 -> 4), 3
+  const children: Record<string, ReturnType<typeof page>[]> = {
+    '1': [page('2', 'Child A'), page('3', 'Child B')],
+    '2': [page('4', 'Grandchild')],
+    '3': [],
+    '4': []
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    downloadTreeTool = createDownloadTreeTool();
+
+    mockedAuthManager.isAuthenticated.mockReturnValue(true);
+    MockedConfluenceClient.prototype.getChildPages = jest.fn().mockImplementation(async (pageId: string) => ({
+      results: children[pageId] || [],
+      size: (children[pageId] || []).length
+    }));
+    MockedConfluenceClient.prototype.getSpaceRootPages = jest.fn().mockResolvedValue({
+      results: [page('1', 'Root')],
+      size: 1
+    });
+    MockedFileManager.getChildDirectory = jest.fn().mockImplementation((filePath: string) => filePath.replace(/\.md$/, ''));
+    MockedFileManager.getSpaceDirectory = jest.fn().mockReturnValue('/downloads/TEST');
+    MockedFileManager.getDisplayPath = jest.fn().mockImplementation((path: string) => path);
+    mockedDownloadPageToFile.mockImplementation(async (_client, pageId, targetDirectory) => ({
+      page: page(pageId, `Page ${pageId}`),
+      filePath: `${targetDirectory || '/downloads'}/${pageId}-page.md`,
+      attachments: []
+    }));
+  });
+
+  describe('tool configuration', () => {
+    it('should have correct tool metadata', () => {
+      expect(downloadTreeTool.name).toBe('confluence_download_tree');
+      expect(downloadTreeTool.title).toBe('Download Confluence Page Tree');
+    });
+
+    it('should have correct input schema', () => {
+      expect(downloadTreeTool.inputSchema).toHaveProperty('pageId');
+      expect(downloadTreeTool.inputSchema).toHaveProperty('spaceKey');
+      expect(downloadTreeTool.inputSchema).toHaveProperty('targetDirectory');
+      expect(downloadTreeTool.inputSchema).toHaveProperty('maxDepth');
+      expect(downloadTreeTool.inputSchema).toHaveProperty('concurrency');
+    });
+  });
+
+  describe('handler', () => {
+    it('should download a page tree into nested directories', async () => {
+      const result = await downloadTreeTool.handler({ pageId: '1', targetDirectory: '/out', concurrency: 2 });
+
+      expect(mockedDownloadPageToFile).toHaveBeenCalledTimes(4);
+      expect(mockedDownloadPageToFile).toHaveBeenCalledWith(expect.any(Object), '1', '/out');
+      expect(mockedDownloadPageToFile).toHaveBeenCalledWith(expect.any(Object), '2', '/out/1-page');
+      expect(mockedDownloadPageToFile).toHaveBeenCalledWith(expect.any(Object), '3', '/out/1-page');
+      expect(mockedDownloadPageToFile).toHaveBeenCalledWith(expect.any(Object), '4', '/out/1-page/2-page');
+      expect(result.content[0].text).toBe('Downloaded 4 pages from page tree 1 to /out');
+      expect(result.isError).toBeUndefined();
+    });
+
+    it('should download all pages of a space', async () => {
+      const result = await downloadTreeTool.handler({ spaceKey: 'TEST', concurrency: 4 });
+
+      expect(MockedFileManager.getSpaceDirectory).toHaveBeenCalledWith('TEST', undefined);
+      expect(MockedConfluenceClient.prototype.getSpaceRootPages).toHaveBeenCalledWith('TEST', 0, 50);
+      expect(mockedDownloadPageToFile).toHaveBeenCalledWith(expect.any(Object), '1', '/downloads/TEST');
+      expect(mockedDownloadPageToFile).toHaveBeenCalledTimes(4);
+      expect(result.content[0].text).toBe('Downloaded 4 pages from space TEST to /downloads/TEST');
+    });
+
+    it('should follow pagination when listing child pages', async () => {
+      (MockedConfluenceClient.prototype.getChildPages as jest.Mock).mockImplementation(async (pageId: string, start: number) => {
+        if (pageId !== '1') return { results: [], size: 0 };
+        return start === 0
+          ? { results: [page('2', 'Child A')], size: 1, _links: { next: '/rest/api/content/1/child/page?start=1' } }
+          : { results: [page('3', 'Child B')], size: 1 };
+      });
+
+      await downloadTreeTool.handler({ pageId: '1', concurrency: 1 });
+
+      expect(MockedConfluenceClient.prototype.getChildPages).toHaveBeenCalledWith('1', 0, 50);
+      expect(MockedConfluenceClient.prototype.getChildPages).toHaveBeenCalledWith('1', 1, 50);
+      expect(mockedDownloadPageToFile).toHaveBeenCalledWith(expect.any(Object), '3', '/downloads/1-page');
+    });
+
+    it('should stop descending at maxDepth', async () => {
+      const result = await downloadTreeTool.handler({ pageId: '1', maxDepth: 1, concurrency: 4 });
+
+      expect(mockedDownloadPageToFile).toHaveBeenCalledTimes(3);
+      expect(mockedDownloadPageToFile).not.toHaveBeenCalledWith(expect.any(Object), '4', expect.anything());
+      expect(result.content[0].text).toBe('Downloaded 3 pages from page tree 1');
+    });
+
+    it('should never run more downloads than the concurrency limit', async () => {
+      let running = 0;
+      let peak = 0;
+      children['1'] = [page('2', 'A'), page('3', 'B'), page('5', 'C'), page('6', 'D')];
+      mockedDownloadPageToFile.mockImplementation(async (_client, pageId, targetDirectory) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return { page: page(pageId, `Page ${pageId}`), filePath: `${targetDirectory}/${pageId}-page.md`, attachments: [] };
+      });
+
+      await downloadTreeTool.handler({ pageId: '1', concurrency: 2 });
+
+      expect(peak).toBe(2);
+      children['1'] = [page('2', 'Child A'), page('3', 'Child B')];
+    });
+
+    it('should report skipped and failed pages', async () => {
+      mockedDownloadPageToFile.mockImplementation(async (_client, pageId, targetDirectory) => {
+        if (pageId === '2') throw new ToolError('Page 2 does not have ADF content or is not accessible');
+        if (pageId === '3') throw new Error('HTTP 500: Internal Server Error');
+        return { page: page(pageId, `Page ${pageId}`), filePath: `${targetDirectory}/${pageId}-page.md`, attachments: [] };
+      });
+
+      const result = await downloadTreeTool.handler({ pageId: '1', concurrency: 4 });
+
+      expect(result.content[0].text).toBe([
+        'Downloaded 1 pages from page tree 1',
+        '',
+        'Skipped 1 pages:',
+        '- "Child A" (ID: 2): Page 2 does not have ADF content or is not accessible',
+        '',
+        'Failed 1 pages:',
+        '- "Child B" (ID: 3): HTTP 500: Internal Server Error'
+      ].join('\n'));
+      expect(result.isError).toBeUndefined();
+    });
+
+    it('should mark the result as an error when nothing could be downloaded', async () => {
+      mockedDownloadPageToFile.mockRejectedValue(new Error('HTTP 404: Not Found'));
+
+      const result = await downloadTreeTool.handler({ pageId: '1', concurrency: 4 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Failed 1 pages:');
+    });
+
+    it('should send progress notifications when a progress token is given', async () => {
+      const sendNotification = jest.fn().mockResolvedValue(undefined);
+
+      await downloadTreeTool.handler({ pageId: '1', concurrency: 1 }, { _meta: { progressToken: 'tree' }, sendNotification });
+
+      expect(sendNotification).toHaveBeenCalledTimes(4);
+      expect(sendNotification).toHaveBeenLastCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'tree', progress: 4, total: 4, message: 'Processed "Grandchild" (ID: 4)' }
+      });
+    });
+
+    it('should require either pageId or spaceKey', async () => {
+      await expect(downloadTreeTool.handler({ concurrency: 4 }))
+        .rejects.toThrow('Invalid parameters: Provide either pageId or spaceKey');
+      await expect(downloadTreeTool.handler({ pageId: '1', spaceKey: 'TEST', concurrency: 4 }))
+        .rejects.toThrow('Invalid parameters: Provide either pageId or spaceKey');
+    });
+
+    it('should throw error when not authenticated', async () => {
+      mockedAuthManager.isAuthenticated.mockReturnValue(false);
+
+      await expect(downloadTreeTool.handler({ pageId: '1', concurrency: 4 }))
+        .rejects.toThrow('Not authenticated. Please authenticate first using confluence_authenticate.');
+    });
+
+    it('should wrap errors from listing the space', async () => {
+      (MockedConfluenceClient.prototype.getSpaceRootPages as jest.Mock).mockRejectedValue(new Error('HTTP 404: Space not found'));
+
+      await expect(downloadTreeTool.handler({ spaceKey: 'NOPE', concurrency: 4 }))
+        .rejects.toThrow('Failed to download page tree: HTTP 404: Space not found');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { notAuthenticatedError, toolError, withErrorDetails } from '../../tools/errors.js';
+import { NotFoundError, RateLimitedError } from '../../client/errors.js';
+import { ToolError, ToolHandler } from '../../types/index.js';
+
+describe('tool errors', () => {
+  describe('toolError', () => {
+    it('should keep the details of Confluence errors', () => {
+      const error = toolError('get page', new NotFoundError('HTTP 404: Page not found', { status: 404 }));
+
+      expect(error).toBeInstanceOf(ToolError);
+      expect(error.message).toBe('Failed to get page: HTTP 404: Page not found');
+      expect(error.details).toEqual({
+        code: 'not_found',
+        status: 404,
+        hint: 'Check the ID or key. Confluence also reports pages the account cannot view as not found.'
+      });
+    });
+
+    it('should not add details to other errors', () => {
+      const error = toolError('get page', new Error('Network error'));
+
+      expect(error.message).toBe('Failed to get page: Network error');
+      expect(error.details).toBeUndefined();
+    });
+  });
+
+  describe('notAuthenticatedError', () => {
+    it('should name the sign-in tool and carry a code', () => {
+      const error = notAuthenticatedError('confluence_oauth_init');
+
+      expect(error.message).toBe('Not authenticated. Please authenticate first using confluence_oauth_init.');
+      expect(error.details).toEqual({
+        code: 'not_authenticated',
+        hint: 'Sign in with confluence_oauth_init, or confluence_authenticate for API tokens and personal access tokens, then retry.'
+      });
+    });
+  });
+
+  describe('withErrorDetails', () => {
+    function toolThrowing(error: unknown): ToolHandler {
+      return {
+        name: 'test_tool',
+        title: 'Test',
+        description: 'Test tool',
+        inputSchema: {},
+        handler: async () => { throw error; }
+      };
+    }
+
+    it('should return errors with details as structured error results', async () => {
+      const error = toolError('search content', new RateLimitedError('HTTP 429: Too many requests', { status: 429, retryAfterMs: 10_000 }));
+
+      const result = await withErrorDetails(toolThrowing(error)).handler({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('Failed to search content: HTTP 429: Too many requests\n\nConfluence is rate limiting requests. Retry after 10 seconds.');
+      expect(result.structuredContent).toEqual({
+        error: {
+          message: 'Failed to search content: HTTP 429: Too many requests',
+          code: 'rate_limited',
+          status: 429,
+          hint: 'Confluence is rate limiting requests. Retry after 10 seconds.',
+          retryAfterSeconds: 10
+        }
+      });
+    });
+
+    it('should rethrow errors without details', async () => {
+      await expect(withErrorDetails(toolThrowing(new ToolError('File not found: notes.md'))).handler({})).rejects.toThrow('File not found: notes.md');
+    });
+
+    it('should pass results through', async () => {
+      const tool = { ...toolThrowing(null), handler: async () => ({ content: [{ type: 'text' as const, text: 'ok' }] }) };
+
+      expect(await withErrorDetails(tool).handler({})).toEqual({ content: [{ type: 'text', text: 'ok' }] });
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { createHistoryTools } from '../../tools/history.js';
+import { authManager } from '../../auth/manager.js';
+import { ConfluenceClient } from '../../client/confluence.js';
+import { FileManager } from '../../filemanager/index.js';
+import { NotFoundError } from '../../client/errors.js';
+import { ToolError } from '../../types/index.js';
+import * as fs from 'fs-extra';
+import { readFile } from 'fs/promises';
+
+// Mock dependencies
+jest.mock('../../auth/manager.js');
+jest.mock('../../client/confluence.js');
+jest.mock('../../filemanager/index.js');
+jest.mock('fs/promises', () => ({
+  readFile: jest.fn()
+}));
+jest.mock('fs-extra', () => ({
+  pathExists: jest.fn(),
+  outputFile: jest.fn()
+}));
+
+describe('History Tools', () => {
+  const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
+  const MockedConfluenceClient = ConfluenceClient as jest.MockedClass<typeof ConfluenceClient>;
+  const MockedFileManager = FileManager as jest.MockedClass<typeof FileManager>;
+  const mockedFs = fs as jest.Mocked<typeof fs>;
+  const mockedReadFile = readFile as jest.MockedFunction<typeof readFile>;
+  let historyTool: ReturnType<typeof createHistoryTools>[0];
+  let diffTool: ReturnType<typeof createHistoryTools>[1];
+  let restoreTool: ReturnType<typeof createHistoryTools>[2];
+
+  function pageVersion(number: number, text: string[]) {
+    return {
+      id: '123456',
+      title: 'Test Page',
+      space: { key: 'TEST', name: 'Test Space' },
+      version: { number, when: `2023-01-0${number}T00:00:00Z` },
+      _links: { webui: '/wiki/spaces/TEST/pages/123456/Test+Page' },
+      body: {
+        atlas_doc_format: {
+          value: JSON.stringify({
+            version: 1,
+            type: 'doc',
+            content: text.map(line => ({ type: 'paragraph', content: [{ type: 'text', text: line }] }))
+          }),
+          representation: 'atlas_doc_format'
+        }
+      }
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    [historyTool, diffTool, restoreTool] = createHistoryTools();
+
+    mockedAuthManager.isAuthenticated.mockReturnValue(true);
+    (mockedFs.pathExists as jest.Mock).mockResolvedValue(true);
+    (mockedFs.outputFile as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('Page History Tool', () => {
+    it('should have correct tool metadata', () => {
+      expect(historyTool.name).toBe('confluence_page_history');
+    });
+
+    it('should list versions with author, date and message', async () => {
+      MockedConfluenceClient.prototype.getVersions = jest.fn().mockResolvedValue({
+        results: [
+          { number: 3, when: '2023-01-03T00:00:00Z', message: 'Fix typos', minorEdit: true, by: { displayName: 'Jane Doe' } },
+          { number: 2, when: '2023-01-02T00:00:00Z', by: { accountId: 'abc123' } }
+        ],
+        size: 2,
+        _links: { next: '/rest/api/content/123456/version?start=2' }
+      });
+
+      const result = await historyTool.handler({ pageId: '123456', limit: 2 });
+
+      expect(MockedConfluenceClient.prototype.getVersions).toHaveBeenCalledWith('123456', 0, 2);
+      expect(result.content[0].text).toContain('- Version 3 (2023-01-03T00:00:00Z) by Jane Doe: "Fix typos" [minor edit]');
+      expect(result.content[0].text).toContain('- Version 2 (2023-01-02T00:00:00Z) by abc123');
+      expect(result.content[0].text).toContain('Continue with start: 2');
+    });
+
+    it('should report pages without versions in range', async () => {
+      MockedConfluenceClient.prototype.getVersions = jest.fn().mockResolvedValue({ results: [], size: 0 });
+
+      const result = await historyTool.handler({ pageId: '123456', start: 50 });
+
+      expect(result.content[0].text).toBe('No versions found for page 123456 after the first 50.');
+    });
+
+    it('should require authentication', async () => {
+      mockedAuthManager.isAuthenticated.mockReturnValue(false);
+
+      await expect(historyTool.handler({ pageId: '123456' })).rejects.toThrow('Not authenticated');
+    });
+
+    it('should keep the details of Confluence errors', async () => {
+      MockedConfluenceClient.prototype.getVersions = jest.fn().mockRejectedValue(new NotFoundError('HTTP 404: Page not found', { status: 404 }));
+
+      await expect(historyTool.handler({ pageId: '999' })).rejects.toMatchObject({
+        message: 'Failed to get page history: HTTP 404: Page not found',
+        details: { code: 'not_found' }
+      });
+    });
+  });
+
+  describe('Diff Versions Tool', () => {
+    it('should have correct tool metadata', () => {
+      expect(diffTool.name).toBe('confluence_diff_versions');
+    });
+
+    it('should diff two versions of a page', async () => {
+      MockedConfluenceClient.prototype.getContent = jest.fn()
+        .mockResolvedValueOnce(pageVersion(2, ['Intro', 'Old text']))
+        .mockResolvedValueOnce(pageVersion(5, ['Intro', 'New text']));
+
+      const result = await diffTool.handler({ pageId: '123456', fromVersion: 2 });
+
+      expect(MockedConfluenceClient.prototype.getContent).toHaveBeenNthCalledWith(1, '123456', ['body.atlas_doc_format', 'version'], 2);
+      expect(MockedConfluenceClient.prototype.getContent).toHaveBeenNthCalledWith(2, '123456', ['body.atlas_doc_format', 'version'], undefined);
+      expect(result.content[0].text).toContain('from version 2 to version 5: 1 line added, 1 removed');
+      expect(result.content[0].text).toContain('--- version 2\n+++ version 5');
+      expect(result.content[0].text).toContain('-Old text\n+New text');
+    });
+
+    it('should report versions without differences', async () => {
+      MockedConfluenceClient.prototype.getContent = jest.fn()
+        .mockResolvedValueOnce(pageVersion(2, ['Same']))
+        .mockResolvedValueOnce(pageVersion(3, ['Same']));
+
+      const result = await diffTool.handler({ pageId: '123456', fromVersion: 2, toVersion: 3 });
+
+      expect(result.content[0].text).toBe('No differences between version 2 and version 3 of page "Test Page" (ID: 123456).');
+    });
+
+    it('should diff a local file against the current remote version', async () => {
+      mockedReadFile.mockResolvedValue('---\npageId: "123456"\n---\n\nIntro\n\nLocal text' as any);
+      MockedFileManager.extractPageIdFromFilename = jest.fn().mockReturnValue('123456');
+      MockedFileManager.getMetadataPath = jest.fn().mockReturnValue('/path/to/123456-test-page.meta.json');
+      MockedFileManager.readMetadata = jest.fn().mockResolvedValue({ pageId: '123456', title: 'Test Page', spaceKey: 'TEST', version: 4 });
+      MockedFileManager.getDisplayPath = jest.fn().mockReturnValue('confluence-downloads/123456-test-page.md');
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue(pageVersion(5, ['Intro', 'Remote text']));
+
+      const result = await diffTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(MockedConfluenceClient.prototype.getContent).toHaveBeenCalledWith('123456', ['body.atlas_doc_format', 'version'], undefined);
+      expect(result.content[0].text).toContain('Local changes in confluence-downloads/123456-test-page.md against version 5');
+      expect(result.content[0].text).toContain('--- remote (version 5)\n+++ local (confluence-downloads/123456-test-page.md)');
+      expect(result.content[0].text).toContain('-Remote text\n+Local text');
+    });
+
+    it('should validate the parameter combinations', async () => {
+      await expect(diffTool.handler({})).rejects.toThrow('pageId or filePath is required');
+      await expect(diffTool.handler({ pageId: '123456' })).rejects.toThrow('fromVersion is required');
+      await expect(diffTool.handler({ filePath: '/path/to/file.md', toVersion: 2 })).rejects.toThrow(ToolError);
+      await expect(diffTool.handler({ pageId: '123456', fromVersion: 0 })).rejects.toThrow('Invalid parameters');
+    });
+
+    it('should report missing files', async () => {
+      (mockedFs.pathExists as jest.Mock).mockResolvedValue(false);
+
+      await expect(diffTool.handler({ filePath: '/path/to/missing.md' })).rejects.toThrow('File not found: /path/to/missing.md');
+    });
+  });
+
+  describe('Restore Version Tool', () => {
+    function mockManagedFile(originalText: string[]) {
+      mockedReadFile.mockResolvedValue('---\npageId: "123456"\n---\n\nLocal edits' as any);
+      MockedFileManager.extractPageIdFromFilename = jest.fn().mockReturnValue('123456');
+      MockedFileManager.getMetadataPath = jest.fn().mockReturnValue('/path/to/123456-test-page.meta.json');
+      MockedFileManager.readMetadata = jest.fn().mockResolvedValue({
+        pageId: '123456',
+        title: 'Test Page',
+        spaceKey: 'TEST',
+        originalADF: pageVersion(4, originalText).body.atlas_doc_format.value,
+        version: 4
+      });
+    }
+
+    it('should have correct tool metadata', () => {
+      expect(restoreTool.name).toBe('confluence_restore_version');
+    });
+
+    it('should preview restoring a version without changing the page', async () => {
+      MockedConfluenceClient.prototype.getContent = jest.fn()
+        .mockResolvedValueOnce(pageVersion(7, ['Broken text']))
+        .mockResolvedValueOnce(pageVersion(5, ['Good text']));
+      MockedConfluenceClient.prototype.restoreVersion = jest.fn();
+
+      const result = await restoreTool.handler({ pageId: '123456', version: 5, dryRun: true });
+
+      expect(MockedConfluenceClient.prototype.getContent).toHaveBeenNthCalledWith(2, '123456', ['body.atlas_doc_format', 'version'], 5);
+      expect(MockedConfluenceClient.prototype.restoreVersion).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('Dry run: restoring page "Test Page" (ID: 123456) to version 5 would change the current version 7');
+      expect(result.content[0].text).toContain('--- current (version 7)\n+++ version 5');
+      expect(result.content[0].text).toContain('-Broken text\n+Good text');
+    });
+
+    it('should restore a version', async () => {
+      MockedConfluenceClient.prototype.getContent = jest.fn()
+        .mockResolvedValueOnce(pageVersion(7, ['Broken text']))
+        .mockResolvedValueOnce(pageVersion(5, ['Good text']));
+      MockedConfluenceClient.prototype.restoreVersion = jest.fn().mockResolvedValue({ number: 8, when: '2023-01-08T00:00:00Z' });
+
+      const result = await restoreTool.handler({ pageId: '123456', version: 5 });
+
+      expect(MockedConfluenceClient.prototype.restoreVersion).toHaveBeenCalledWith('123456', 5, 'Restored version 5');
+      expect(result.content[0].text).toContain('Restored page "Test Page" (ID: 123456) to version 5 as new version 8');
+    });
+
+    it('should only restore earlier versions', async () => {
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue(pageVersion(7, ['Text']));
+
+      await expect(restoreTool.handler({ pageId: '123456', version: 7 })).rejects.toThrow('version 7 is not an earlier version of page 123456, whose current version is 7');
+    });
+
+    it('should restore the content a file was downloaded with', async () => {
+      mockManagedFile(['Downloaded text']);
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue(pageVersion(6, ['Bulk upload text']));
+      MockedConfluenceClient.prototype.updateContent = jest.fn().mockResolvedValue({
+        ...pageVersion(7, ['Downloaded text']),
+        version: { number: 7, when: '2023-01-07T00:00:00Z' }
+      });
+
+      const result = await restoreTool.handler({ filePath: '/path/to/123456-test-page.md', message: 'Undo bulk upload' });
+
+      expect(MockedConfluenceClient.prototype.updateContent).toHaveBeenCalledWith('123456', {
+        type: 'page',
+        title: 'Test Page',
+        version: { number: 7, message: 'Undo bulk upload' },
+        body: { atlas_doc_format: { value: pageVersion(4, ['Downloaded text']).body.atlas_doc_format.value, representation: 'atlas_doc_format' } }
+      });
+      expect(mockedFs.outputFile).toHaveBeenCalledWith('/path/to/123456-test-page.meta.json', expect.stringContaining('"version": 7'), 'utf-8');
+      expect(result.content[0].text).toContain('Restored page "Test Page" (ID: 123456) to the content of version 4 as new version 7');
+      expect(result.content[0].text).toContain('-Bulk upload text\n+Downloaded text');
+    });
+
+    it('should preview restoring the content a file was downloaded with', async () => {
+      mockManagedFile(['Downloaded text']);
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue(pageVersion(6, ['Bulk upload text']));
+      MockedConfluenceClient.prototype.updateContent = jest.fn();
+
+      const result = await restoreTool.handler({ filePath: '/path/to/123456-test-page.md', dryRun: true });
+
+      expect(MockedConfluenceClient.prototype.updateContent).not.toHaveBeenCalled();
+      expect(mockedFs.outputFile).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('Dry run: restoring page "Test Page" (ID: 123456) to the content of version 4');
+    });
+
+    it('should not restore unchanged content', async () => {
+      mockManagedFile(['Same text']);
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue(pageVersion(6, ['Same text']));
+      MockedConfluenceClient.prototype.updateContent = jest.fn();
+
+      const result = await restoreTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(MockedConfluenceClient.prototype.updateContent).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('Nothing to restore');
+    });
+
+    it('should validate the parameter combinations', async () => {
+      await expect(restoreTool.handler({ pageId: '123456' })).rejects.toThrow('either version or filePath is required');
+      await expect(restoreTool.handler({ version: 3, filePath: '/path/to/file.md' })).rejects.toThrow('either version or filePath is required');
+      await expect(restoreTool.handler({ version: 3 })).rejects.toThrow('pageId is required to restore a version');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { createMergePageTool } from '../../tools/merge-page.js';
+import { authManager } from '../../auth/manager.js';
+import { ConfluenceClient } from '../../client/confluence.js';
+import { FileManager } from '../../filemanager/index.js';
+import { ThreeWayMerge } from '../../converter/three-way-merge.js';
+import { ToolError } from '../../types/index.js';
+import * as fs from 'fs-extra';
+import { readFile } from 'fs/promises';
+
+// Mock dependencies
+jest.mock('../../auth/manager.js');
+jest.mock('../../client/confluence.js');
+jest.mock('../../filemanager/index.js');
+jest.mock('../../converter/three-way-merge.js');
+jest.mock('fs/promises', () => ({
+  readFile: jest.fn()
+}));
+jest.mock('fs-extra', () => ({
+  pathExists: jest.fn(),
+  outputFile: jest.fn()
+}));
+
+describe('Merge Page Tool', () => {
+  let mergeTool: ReturnType<typeof createMergePageTool>;
+  const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
+  const MockedConfluenceClient = ConfluenceClient as jest.MockedClass<typeof ConfluenceClient>;
+  const MockedFileManager = FileManager as jest.MockedClass<typeof FileManager>;
+  const MockedThreeWayMerge = ThreeWayMerge as jest.MockedClass<typeof ThreeWayMerge>;
+  const mockedFs = fs as jest.Mocked<typeof fs>;
+  const mockedReadFile = readFile as jest.MockedFunction<typeof readFile>;
+
+  const baseADF = {
+    version: 1,
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Base' }] }]
+  };
+
+  const remoteADF = {
+    version: 1,
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Remote' }] }]
+  };
+
+  const remotePage = {
+    id: '123456',
+    title: 'Test Page',
+    space: { key: 'TEST', name: 'Test Space' },
+    version: { number: 4, when: '2023-01-02T00:00:00Z' },
+    _links: { webui: '/wiki/spaces/TEST/pages/123456/Test+Page' },
+    body: {
+      atlas_doc_format: {
+        value: JSON.stringify(remoteADF),
+        representation: 'atlas_doc_format'
+      }
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mergeTool = createMergePageTool();
+
+    mockedAuthManager.isAuthenticated.mockReturnValue(true);
+    (mockedFs.pathExists as jest.Mock).mockResolvedValue(true);
+    (mockedFs.outputFile as jest.Mock).mockResolvedValue(undefined);
+    mockedReadFile.mockResolvedValue('Local' as any);
+
+    MockedFileManager.extractPageIdFromFilename = jest.fn().mockReturnValue('123456');
+    MockedFileManager.getMetadataPath = jest.fn().mockImplementation((path: string) => path.replace(/\.md$/, '.meta.json'));
+    MockedFileManager.readMetadata = jest.fn().mockResolvedValue({
+      pageId: '123456',
+      title: 'Test Page',
+      spaceKey: 'TEST',
+      originalADF: JSON.stringify(baseADF),
+      version: 2
+    });
+    MockedFileManager.getDisplayPath = jest.fn().mockReturnValue('confluence-downloads/123456-test-page.md');
+    MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue(remotePage);
+    MockedThreeWayMerge.merge = jest.fn().mockReturnValue({
+      markdown: 'Merged',
+      conflicts: 0,
+      localChanges: 1,
+      remoteChanges: 1
+    });
+  });
+
+  describe('tool configuration', () => {
+    it('should have correct tool metadata', () => {
+      expect(mergeTool.name).toBe('confluence_merge_page');
+      expect(mergeTool.title).toBe('Merge Local and Remote Page Changes');
+    });
+  });
+
+  describe('handler', () => {
+    it('should merge base, local and remote content', async () => {
+      const result = await mergeTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(MockedConfluenceClient.prototype.getContent).toHaveBeenCalledWith('123456', ['body.atlas_doc_format', 'space', 'version']);
+      expect(MockedThreeWayMerge.merge).toHaveBeenCalledWith('Base', 'Local', 'Remote', {
+        local: 'local',
+        remote: 'remote (version 4)'
+      });
+      expect(mockedFs.outputFile).toHaveBeenCalledWith(
+        '/path/to/123456-test-page.meta.json',
+        expect.stringContaining('"version": 4'),
+        'utf-8'
+      );
+      expect(result.content[0].text).toContain('No conflicts');
+    });
+
+    it('should report conflicts', async () => {
+      MockedThreeWayMerge.merge = jest.fn().mockReturnValue({
+        markdown: '<<<<<<< local\nA\n=======\nB\n>>>>>>> remote',
+        conflicts: 1,
+        localChanges: 0,
+        remoteChanges: 0
+      });
+
+      const result = await mergeTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(result.content[0].text).toContain('Conflicts: 1');
+      expect(result.content[0].text).toContain('Resolve the conflict markers');
+    });
+
+    it('should write to a separate output path', async () => {
+      await mergeTool.handler({ filePath: '/path/to/123456-test-page.md', outputPath: '/path/to/merged.md' });
+
+      expect(mockedFs.outputFile).toHaveBeenCalledWith('/path/to/merged.md', expect.stringContaining('Merged'), 'utf-8');
+    });
+
+    it('should fail without a merge base', async () => {
+      MockedFileManager.readMetadata = jest.fn().mockResolvedValue(null);
+
+      await expect(mergeTool.handler({ filePath: '/path/to/123456-test-page.md' })).rejects.toThrow(ToolError);
+      await expect(mergeTool.handler({ filePath: '/path/to/123456-test-page.md' })).rejects.toThrow('No original ADF found');
+    });
+
+    it('should throw error when not authenticated', async () => {
+      mockedAuthManager.isAuthenticated.mockReturnValue(false);
+
+      await expect(mergeTool.handler({ filePath: '/path/to/123456-test-page.md' })).rejects.toThrow('Not authenticated');
+    });
+  });
+});
@@ -4,7 +4,8 @@ import {
   createOAuthStatusTool, 
   createOAuthClearTool,
   getOAuthConfluenceClient,
-  isOAuthAuthenticated
+  isOAuthAuthenticated,
+  restoreOAuthSession
 } from '../../tools/oauth.js';
 
 // Mock dependencies
@@ -16,6 +17,7 @@ jest.mock('child_process');
 import { OAuthClient } from '../../auth/oauth-client.js';
 import { OAuthConfluenceClient } from '../../client/oauth-confluence.js';
 import { exec } from 'child_process';
+import { tokenStorage } from '../../auth/token-storage.js';
 
 const mockOAuthClient = OAuthClient as jest.MockedClass<typeof OAuthClient>;
 const mockOAuthConfluenceClient = OAuthConfluenceClient as jest.MockedClass<typeof OAuthConfluenceClient>;
@@ -46,6 +48,7 @@ describe('OAuth Tools', () => {
 
       mockOAuthClient.mockImplementation(() => ({
         startCallbackServer: mockStartCallbackServer,
+        stopCallbackServer: jest.fn(),
         generateAuthUrl: mockGenerateAuthUrl
       } as any));
 
@@ -83,6 +86,7 @@ describe('OAuth Tools', () => {
 
       mockOAuthClient.mockImplementation(() => ({
         startCallbackServer: mockStartCallbackServer,
+        stopCallbackServer: jest.fn(),
         generateAuthUrl: mockGenerateAuthUrl
       } as any));
 
@@ -423,4 +427,168 @@ describe('OAuth Tools', () => {
       expect(isOAuthAuthenticated()).toBe(false);
     });
   });
+
+  describe('restoreOAuthSession', () => {
+    const mockedTokenStorage = tokenStorage as jest.Mocked<typeof tokenStorage>;
+
+    beforeEach(() => {
+      mockedTokenStorage.getProfile.mockReturnValue('default');
+      mockedTokenStorage.getStorageInfo.mockReturnValue({ method: 'keychain', location: 'macOS Keychain (mcp-confluence-adf)', encrypted: true });
+    });
+
+    it('should restore the stored session and report it in the status', async () => {
+      const restoredClient = {
+        isAuthenticated: jest.fn().mockReturnValue(true),
+        getTokenExpiresAt: jest.fn().mockReturnValue(Date.UTC(2030, 0, 1)),
+        getScopeReport: jest.fn().mockReturnValue({
+          requested: ['read:page:confluence', 'write:page:confluence', 'offline_access'],
+          granted: ['read:page:confluence', 'offline_access'],
+          missing: ['write:page:confluence'],
+          unrequested: []
+        }),
+        stopCallbackServer: jest.fn()
+      };
+      mockOAuthClient.restore = jest.fn().mockResolvedValue(restoredClient);
+      mockOAuthConfluenceClient.mockImplementation(() => ({
+        testConnection: jest.fn().mockResolvedValue({ success: true }),
+        getOAuthClient: () => ({ getCloudId: () => 'restored-cloud-id' })
+      } as any));
+
+      expect(await restoreOAuthSession()).toBe(true);
+      expect(isOAuthAuthenticated()).toBe(true);
+      expect(getOAuthConfluenceClient()).not.toBeNull();
+
+      const result = await createOAuthStatusTool().handler({});
+      expect(result.content[0].text).toContain('OAuth Authentication Active');
+      expect(result.content[0].text).toContain('**Cloud ID:** restored-cloud-id');
+      expect(result.content[0].text).toContain('**Session:** Restored from stored tokens');
+      expect(result.content[0].text).toContain('**Access Token Expires:** 2030-01-01T00:00:00.000Z');
+      expect(result.content[0].text).toContain('**Mode:** Read and write');
+      expect(result.content[0].text).toContain('**Granted Scopes:** read:page:confluence, offline_access');
+      expect(result.content[0].text).toContain('**Requested but Not Granted:** write:page:confluence');
+    });
+
+    it('should report a stored session that could not be restored', async () => {
+      mockOAuthClient.restore = jest.fn().mockRejectedValue(new Error('Token refresh failed: 400 invalid_grant'));
+
+      expect(await restoreOAuthSession()).toBe(false);
+      expect(isOAuthAuthenticated()).toBe(false);
+
+      const result = await createOAuthStatusTool().handler({});
+      expect(result.content[0].text).toContain('Stored OAuth Session Not Restored');
+      expect(result.content[0].text).toContain('Token refresh failed: 400 invalid_grant');
+    });
+
+    it('should report a token file that could not be decrypted', async () => {
+      mockOAuthClient.restore = jest.fn().mockResolvedValue(null);
+      mockedTokenStorage.getStorageInfo.mockReturnValue({
+        method: 'file',
+        location: '/home/user/.mcp/confluence-adf/oauth-tokens.json',
+        encrypted: true,
+        keySource: 'passphrase',
+        error: 'Token file is encrypted with a passphrase. Set CONFLUENCE_TOKEN_PASSPHRASE to read it.'
+      });
+
+      expect(await restoreOAuthSession()).toBe(false);
+
+      const result = await createOAuthStatusTool().handler({});
+      expect(result.content[0].text).toContain('Stored OAuth Session Not Restored');
+      expect(result.content[0].text).toContain('Set CONFLUENCE_TOKEN_PASSPHRASE to read it.');
+    });
+
+    it('should leave OAuth uninitialized when no session is stored', async () => {
+      mockOAuthClient.restore = jest.fn().mockResolvedValue(null);
+
+      expect(await restoreOAuthSession()).toBe(false);
+
+      const result = await createOAuthStatusTool().handler({});
+      expect(result.content[0].text).toContain('OAuth Not Initialized');
+    });
+  });
+
+  describe('manual mode', () => {
+    const mockedTokenStorage = tokenStorage as jest.Mocked<typeof tokenStorage>;
+    let manualClient: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      manualClient = {
+        generateAuthUrl: jest.fn().mockReturnValue('https://auth.atlassian.com/authorize?manual'),
+        startCallbackServer: jest.fn(),
+        stopCallbackServer: jest.fn(),
+        completeWithRedirect: jest.fn().mockResolvedValue(undefined),
+        waitForAuthCompletion: jest.fn(),
+        isAuthenticated: jest.fn().mockReturnValue(false),
+        getSites: jest.fn().mockReturnValue([]),
+        getCloudId: jest.fn().mockReturnValue('manual-cloud-id'),
+        getScopeReport: jest.fn().mockReturnValue(null)
+      };
+      mockOAuthClient.mockImplementation(() => manualClient as any);
+      mockOAuthConfluenceClient.mockImplementation(() => ({
+        testConnection: jest.fn().mockResolvedValue({ success: true }),
+        getOAuthClient: () => manualClient
+      } as any));
+      mockedTokenStorage.getProfile.mockReturnValue('default');
+    });
+
+    it('should not start a callback server', async () => {
+      const result = await createOAuthInitTool().handler({
+        clientId: 'test-client-id',
+        clientSecret: 'test-secret',
+        redirectUri: 'https://example.com/oauth/callback',
+        manual: true
+      });
+
+      expect(mockOAuthClient).toHaveBeenCalledWith({ clientId: 'test-client-id', clientSecret: 'test-secret', redirectUri: 'https://example.com/oauth/callback' });
+      expect(manualClient.startCallbackServer).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('https://auth.atlassian.com/authorize?manual');
+      expect(result.content[0].text).toContain("'callbackUrl'");
+    });
+
+    it('should require the registered redirect URI', async () => {
+      await expect(createOAuthInitTool().handler({ clientId: 'id', clientSecret: 'secret', manual: true }))
+        .rejects.toThrow('redirectUri is required in manual mode');
+    });
+
+    it('should finish the flow with the pasted redirect URL', async () => {
+      await createOAuthInitTool().handler({ clientId: 'id', clientSecret: 'secret', redirectUri: 'https://example.com/oauth/callback', manual: true });
+
+      const result = await createOAuthCompleteTool().handler({ callbackUrl: 'https://example.com/oauth/callback?code=abc&state=xyz' });
+
+      expect(manualClient.completeWithRedirect).toHaveBeenCalledWith('https://example.com/oauth/callback?code=abc&state=xyz');
+      expect(manualClient.waitForAuthCompletion).not.toHaveBeenCalled();
+      expect(mockExec).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('OAuth Authentication Successful');
+    });
+
+    it('should report the granted scopes after signing in', async () => {
+      manualClient.getScopeReport.mockReturnValue({
+        requested: ['read:page:confluence', 'write:page:confluence', 'offline_access'],
+        granted: ['read:page:confluence', 'offline_access'],
+        missing: ['write:page:confluence'],
+        unrequested: []
+      });
+      await createOAuthInitTool().handler({ clientId: 'id', clientSecret: 'secret', redirectUri: 'https://example.com/oauth/callback', manual: true });
+
+      const result = await createOAuthCompleteTool().handler({ callbackUrl: 'https://example.com/oauth/callback?code=abc&state=xyz' });
+
+      expect(result.content[0].text).toContain('**Granted Scopes:** read:page:confluence, offline_access');
+      expect(result.content[0].text).toContain('**Requested but Not Granted:** write:page:confluence');
+      expect(result.content[0].text).not.toContain('read/write permissions granted');
+    });
+
+    it('should report a rejected redirect URL', async () => {
+      await createOAuthInitTool().handler({ clientId: 'id', clientSecret: 'secret', redirectUri: 'https://example.com/oauth/callback', manual: true });
+      manualClient.completeWithRedirect.mockRejectedValue(new Error('Invalid state parameter'));
+
+      await expect(createOAuthCompleteTool().handler({ callbackUrl: 'https://example.com/oauth/callback?code=abc&state=forged' }))
+        .rejects.toThrow('OAuth authentication failed: Invalid state parameter');
+    });
+
+    it('should ask for the redirect URL instead of waiting for a callback', async () => {
+      await createOAuthInitTool().handler({ clientId: 'id', clientSecret: 'secret', redirectUri: 'https://example.com/oauth/callback', manual: true });
+
+      await expect(createOAuthCompleteTool().handler({})).rejects.toThrow("This OAuth flow uses manual mode. Pass the URL the browser was redirected to as 'callbackUrl'.");
+      expect(manualClient.waitForAuthCompletion).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { createManageProfilesTool } from '../../tools/profiles.js';
+import { authManager } from '../../auth/manager.js';
+import { tokenStorage } from '../../auth/token-storage.js';
+import { restoreOAuthSession } from '../../tools/oauth.js';
+
+// Mock dependencies
+jest.mock('../../auth/manager.js');
+jest.mock('../../tools/oauth.js');
+jest.mock('../../auth/token-storage.js', () => ({
+  DEFAULT_PROFILE: 'default',
+  PROFILE_NAME_PATTERN: /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/,
+  tokenStorage: {
+    getProfile: jest.fn(),
+    setProfile: jest.fn(),
+    createProfile: jest.fn(),
+    listProfiles: jest.fn(),
+    deleteProfile: jest.fn()
+  }
+}));
+
+describe('Manage Profiles Tool', () => {
+  const profilesTool = createManageProfilesTool();
+  const mockedTokenStorage = tokenStorage as jest.Mocked<typeof tokenStorage>;
+  const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
+  const mockedRestoreOAuthSession = restoreOAuthSession as jest.MockedFunction<typeof restoreOAuthSession>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedTokenStorage.getProfile.mockReturnValue('default');
+    mockedTokenStorage.listProfiles.mockResolvedValue(['default', 'docs-bot']);
+    mockedTokenStorage.deleteProfile.mockResolvedValue();
+    mockedTokenStorage.createProfile.mockResolvedValue();
+    mockedRestoreOAuthSession.mockResolvedValue(false);
+    mockedAuthManager.getBaseUrl.mockReturnValue('https://docs.atlassian.net');
+  });
+
+  it('should have correct tool metadata', () => {
+    expect(profilesTool.name).toBe('confluence_manage_profiles');
+    expect(profilesTool.title).toBe('Manage Authentication Profiles');
+  });
+
+  it('should list profiles and mark the active one', async () => {
+    const result = await profilesTool.handler({});
+
+    expect(result.content[0].text).toContain('Authentication Profiles (2)');
+    expect(result.content[0].text).toContain('- ✅ **default** *(active)*');
+    expect(result.content[0].text).toContain('- **docs-bot**\n');
+  });
+
+  it('should create a profile and make it active', async () => {
+    const result = await profilesTool.handler({ action: 'create', name: 'personal' });
+
+    expect(mockedTokenStorage.createProfile).toHaveBeenCalledWith('personal');
+    expect(mockedTokenStorage.setProfile).toHaveBeenCalledWith('personal');
+    expect(mockedRestoreOAuthSession).toHaveBeenCalled();
+    expect(mockedAuthManager.clear).toHaveBeenCalled();
+    expect(result.content[0].text).toContain('Profile Created');
+    expect(result.content[0].text).toContain("Sign in with 'confluence_oauth_init'");
+  });
+
+  it('should not create a profile twice', async () => {
+    await expect(profilesTool.handler({ action: 'create', name: 'docs-bot' })).rejects.toThrow('Profile "docs-bot" already exists');
+    expect(mockedTokenStorage.createProfile).not.toHaveBeenCalled();
+    expect(mockedTokenStorage.setProfile).not.toHaveBeenCalled();
+  });
+
+  it('should select an existing profile and restore its stored session', async () => {
+    mockedRestoreOAuthSession.mockResolvedValue(true);
+
+    const result = await profilesTool.handler({ action: 'select', name: 'docs-bot' });
+
+    expect(mockedTokenStorage.setProfile).toHaveBeenCalledWith('docs-bot');
+    expect(mockedRestoreOAuthSession).toHaveBeenCalled();
+    expect(result.content[0].text).toContain('**Profile:** docs-bot');
+    expect(result.content[0].text).toContain('Restored the stored OAuth session for https://docs.atlassian.net');
+  });
+
+  it('should report unknown profiles', async () => {
+    await expect(profilesTool.handler({ action: 'select', name: 'staging' })).rejects.toThrow('Unknown profile "staging". Available profiles: default, docs-bot');
+  });
+
+  it('should delete the active profile and switch back to the default one', async () => {
+    mockedTokenStorage.getProfile.mockReturnValue('docs-bot');
+
+    const result = await profilesTool.handler({ action: 'delete', name: 'docs-bot' });
+
+    expect(mockedTokenStorage.deleteProfile).toHaveBeenCalledWith('docs-bot');
+    expect(mockedTokenStorage.setProfile).toHaveBeenCalledWith('default');
+    expect(result.content[0].text).toContain('Switched back to the default profile');
+  });
+
+  it('should not delete the default profile', async () => {
+    await expect(profilesTool.handler({ action: 'delete', name: 'default' })).rejects.toThrow('The default profile cannot be deleted');
+    expect(mockedTokenStorage.deleteProfile).not.toHaveBeenCalled();
+  });
+
+  it('should require a name for create, select and delete', async () => {
+    await expect(profilesTool.handler({ action: 'select' })).rejects.toThrow('name is required to select a profile');
+  });
+
+  it('should reject invalid profile names', async () => {
+    await expect(profilesTool.handler({ action: 'create', name: '../secrets' })).rejects.toThrow('Invalid parameters');
+  });
+});
@@ -16,22 +16,33 @@ describe('Search Tools', () => {
   const mockSearchResults = {
     results: [
       {
-        id: '123456',
-        type: 'page',
+        content: {
+          id: '123456',
+          type: 'page',
+          title: 'Test Page about APIs',
+          space: { key: 'TEST', name: 'Test Space' },
+          _links: { webui: '/wiki/spaces/TEST/pages/123456/Test+Page+about+APIs' }
+        },
         title: 'Test Page about APIs',
-        space: { key: 'TEST', name: 'Test Space' },
-        version: { number: 1, when: '2023-01-01T00:00:00Z' },
-        _links: { webui: '/wiki/spaces/TEST/pages/123456/Test+Page+about+APIs' }
+        excerpt: 'How to call the @@@hl@@@API@@@endhl@@@\nfrom a script',
+        url: '/spaces/TEST/pages/123456/Test+Page+about+APIs',
+        lastModified: '2023-01-01T00:00:00.000Z'
       },
       {
-        id: '789012',
-        type: 'blogpost',
+        content: {
+          id: '789012',
+          type: 'blogpost',
+          title: 'API Integration Guide',
+          space: { key: 'DOCS', name: 'Documentation' },
+          _links: { webui: '/wiki/spaces/DOCS/pages/789012/API+Integration+Guide' }
+        },
         title: 'API Integration Guide',
-        space: { key: 'DOCS', name: 'Documentation' },
-        version: { number: 2, when: '2023-01-02T00:00:00Z' },
-        _links: { webui: '/wiki/spaces/DOCS/pages/789012/API+Integration+Guide' }
+        excerpt: '',
+        url: '/spaces/DOCS/pages/789012/API+Integration+Guide',
+        lastModified: '2023-01-02T00:00:00.000Z'
       }
-    ]
+    ],
+    totalSize: 2
   };
 
   beforeEach(() => {
@@ -42,7 +53,7 @@ describe('Search Tools', () => {
     // Default mock implementations
     mockedAuthManager.isAuthenticated.mockReturnValue(true);
     mockedAuthManager.getBaseUrl.mockReturnValue('https://test.atlassian.net');
-    MockedConfluenceClient.prototype.searchContent = jest.fn().mockResolvedValue(mockSearchResults);
+    MockedConfluenceClient.prototype.search = jest.fn().mockResolvedValue(mockSearchResults);
   });
 
   describe('tool registration', () => {
@@ -57,24 +68,23 @@ describe('Search Tools', () => {
       it('should have correct tool metadata', () => {
         expect(searchTool.name).toBe('confluence_search');
         expect(searchTool.title).toBe('Search Confluence Content');
-        expect(searchTool.description).toBe('Search for Confluence pages and content using text queries.');
+        expect(searchTool.description).toContain('raw CQL and structured filters');
       });
 
-      it('should have correct input schema', () => {
-        expect(searchTool.inputSchema).toEqual({
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "Search query to find content"
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of results to return (1-100, default: 25)"
-            }
-          },
-          required: ["query"]
-        });
+      it('should expose query, CQL, filter and pagination parameters', () => {
+        expect(Object.keys(searchTool.inputSchema)).toEqual([
+          'query',
+          'cql',
+          'spaceKeys',
+          'types',
+          'labels',
+          'contributor',
+          'modifiedAfter',
+          'modifiedBefore',
+          'ancestorId',
+          'limit',
+          'cursor'
+        ]);
       });
     });
 
@@ -86,7 +96,10 @@ describe('Search Tools', () => {
 
         const result = await searchTool.handler(params);
 
-        expect(MockedConfluenceClient.prototype.searchContent).toHaveBeenCalledWith('API integration', 25);
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenCalledWith(
+          '(title ~ "API integration" OR text ~ "API integration")',
+          { limit: 25 }
+        );
         expect(result).toEqual({
           content: [{
             type: "text",
@@ -95,11 +108,14 @@ describe('Search Tools', () => {
 - **Test Page about APIs** (ID: 123456)
   Space: Test Space (TEST)
   Type: page
+  Last Modified: 2023-01-01T00:00:00.000Z
   URL: https://test.atlassian.net/wiki/spaces/TEST/pages/123456/Test+Page+about+APIs
+  Excerpt: How to call the **API** from a script
 
 - **API Integration Guide** (ID: 789012)
   Space: Documentation (DOCS)
   Type: blogpost
+  Last Modified: 2023-01-02T00:00:00.000Z
   URL: https://test.atlassian.net/wiki/spaces/DOCS/pages/789012/API+Integration+Guide`
           }]
         });
@@ -113,11 +129,55 @@ describe('Search Tools', () => {
 
         await searchTool.handler(params);
 
-        expect(MockedConfluenceClient.prototype.searchContent).toHaveBeenCalledWith('API integration', 50);
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenCalledWith(expect.any(String), { limit: 50 });
+      });
+
+      it('should combine raw CQL with structured filters', async () => {
+        const params = {
+          cql: 'creator = currentUser()',
+          spaceKeys: ['TEST', 'DOCS'],
+          types: ['page'],
+          labels: ['runbook'],
+          contributor: 'currentUser()',
+          modifiedAfter: '2023-01-01',
+          modifiedBefore: '2023-12-31',
+          ancestorId: '42'
+        };
+
+        const result = await searchTool.handler(params);
+
+        const expectedCql = '(creator = currentUser()) AND space in ("TEST", "DOCS") AND type = "page" AND label = "runbook" AND contributor = currentUser() AND lastmodified >= "2023-01-01" AND lastmodified <= "2023-12-31" AND ancestor = "42"';
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenCalledWith(expectedCql, { limit: 25 });
+        expect(result.content[0].text).toContain(`Found 2 results for CQL: ${expectedCql}`);
+      });
+
+      it('should follow cursors to collect more than 100 results', async () => {
+        const pageOf = (count: number, offset: number) => Array.from({ length: count }, (_, i) => ({
+          content: { id: String(offset + i), type: 'page', title: `Page ${offset + i}` },
+          title: `Page ${offset + i}`,
+          url: `/pages/${offset + i}`
+        }));
+
+        MockedConfluenceClient.prototype.search = jest.fn()
+          .mockResolvedValueOnce({ results: pageOf(100, 0), totalSize: 300, nextCursor: 'cursor-1' })
+          .mockResolvedValueOnce({ results: pageOf(50, 100), totalSize: 300, nextCursor: 'cursor-2' });
+
+        const result = await searchTool.handler({ query: 'page', limit: 150 });
+
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenNthCalledWith(1, expect.any(String), { limit: 100 });
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenNthCalledWith(2, expect.any(String), { limit: 50, cursor: 'cursor-1' });
+        expect(result.content[0].text).toContain('Found 150 of 300 results');
+        expect(result.content[0].text).toContain('Continue with cursor: cursor-2');
+      });
+
+      it('should resume from a cursor', async () => {
+        await searchTool.handler({ query: 'page', cursor: 'cursor-1' });
+
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenCalledWith(expect.any(String), { limit: 25, cursor: 'cursor-1' });
       });
 
       it('should handle empty search results', async () => {
-        MockedConfluenceClient.prototype.searchContent = jest.fn().mockResolvedValue({ results: [] });
+        MockedConfluenceClient.prototype.search = jest.fn().mockResolvedValue({ results: [] });
 
         const params = {
           query: 'nonexistent content'
@@ -137,7 +197,7 @@ describe('Search Tools', () => {
         const singleResult = {
           results: [mockSearchResults.results[0]]
         };
-        MockedConfluenceClient.prototype.searchContent = jest.fn().mockResolvedValue(singleResult);
+        MockedConfluenceClient.prototype.search = jest.fn().mockResolvedValue(singleResult);
 
         const params = {
           query: 'specific page'
@@ -157,18 +217,10 @@ describe('Search Tools', () => {
 
         await searchTool.handler(params);
 
-        expect(MockedConfluenceClient.prototype.searchContent).toHaveBeenCalledWith('API & integration (with examples)', 25);
-      });
-
-      it('should handle very long queries', async () => {
-        const longQuery = 'a'.repeat(1000);
-        const params = {
-          query: longQuery
-        };
-
-        await searchTool.handler(params);
-
-        expect(MockedConfluenceClient.prototype.searchContent).toHaveBeenCalledWith(longQuery, 25);
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenCalledWith(
+          '(title ~ "API & integration (with examples)" OR text ~ "API & integration (with examples)")',
+          { limit: 25 }
+        );
       });
 
       it('should throw error when not authenticated', async () => {
@@ -191,13 +243,17 @@ describe('Search Tools', () => {
         await expect(searchTool.handler(params)).rejects.toThrow('Invalid parameters');
       });
 
-      it('should handle missing query parameter', async () => {
+      it('should require a query, CQL or filter', async () => {
         const params = {};
 
         await expect(searchTool.handler(params)).rejects.toThrow(ToolError);
         await expect(searchTool.handler(params)).rejects.toThrow('Invalid parameters');
       });
 
+      it('should validate date filters', async () => {
+        await expect(searchTool.handler({ modifiedAfter: 'last week' })).rejects.toThrow('Invalid parameters');
+      });
+
       it('should validate limit parameter range - minimum', async () => {
         const params = {
           query: 'test',
@@ -211,7 +267,7 @@ describe('Search Tools', () => {
       it('should validate limit parameter range - maximum', async () => {
         const params = {
           query: 'test',
-          limit: 150
+          limit: 1500
         };
 
         await expect(searchTool.handler(params)).rejects.toThrow(ToolError);
@@ -219,7 +275,7 @@ describe('Search Tools', () => {
       });
 
       it('should handle API errors during search', async () => {
-        MockedConfluenceClient.prototype.searchContent = jest.fn().mockRejectedValue(new Error('Search service unavailable'));
+        MockedConfluenceClient.prototype.search = jest.fn().mockRejectedValue(new Error('Search service unavailable'));
 
         const params = {
           query: 'test'
@@ -229,19 +285,8 @@ describe('Search Tools', () => {
         await expect(searchTool.handler(params)).rejects.toThrow('Failed to search content: Search service unavailable');
       });
 
-      it('should handle network errors gracefully', async () => {
-        MockedConfluenceClient.prototype.searchContent = jest.fn().mockRejectedValue(new Error('Network timeout'));
-
-        const params = {
-          query: 'test'
-        };
-
-        await expect(searchTool.handler(params)).rejects.toThrow(ToolError);
-        await expect(searchTool.handler(params)).rejects.toThrow('Failed to search content: Network timeout');
-      });
-
       it('should handle unknown errors gracefully', async () => {
-        MockedConfluenceClient.prototype.searchContent = jest.fn().mockRejectedValue('Unknown search error');
+        MockedConfluenceClient.prototype.search = jest.fn().mockRejectedValue('Unknown search error');
 
         const params = {
           query: 'test'
@@ -251,16 +296,18 @@ describe('Search Tools', () => {
         await expect(searchTool.handler(params)).rejects.toThrow('Failed to search content: Unknown error');
       });
 
-      it('should handle CQL injection attempts safely', async () => {
-        const maliciousQuery = 'test"; DROP TABLE pages; --';
+      it('should escape quotes to prevent CQL injection', async () => {
+        const maliciousQuery = 'test" OR space = "SECRET';
         const params = {
           query: maliciousQuery
         };
 
         await searchTool.handler(params);
 
-        // The search should still work (Confluence API handles CQL safely)
-        expect(MockedConfluenceClient.prototype.searchContent).toHaveBeenCalledWith(maliciousQuery, 25);
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenCalledWith(
+          '(title ~ "test\\" OR space = \\"SECRET" OR text ~ "test\\" OR space = \\"SECRET")',
+          { limit: 25 }
+        );
       });
 
       it('should handle Unicode characters in query', async () => {
@@ -271,19 +318,11 @@ describe('Search Tools', () => {
 
         await searchTool.handler(params);
 
-        expect(MockedConfluenceClient.prototype.searchContent).toHaveBeenCalledWith(unicodeQuery, 25);
-      });
-
-      it('should format URLs correctly with base URL', async () => {
-        const params = {
-          query: 'test'
-        };
-
-        const result = await searchTool.handler(params);
-
-        expect(result.content[0].text).toContain('https://test.atlassian.net/wiki/spaces/TEST/pages/123456/Test+Page+about+APIs');
-        expect(result.content[0].text).toContain('https://test.atlassian.net/wiki/spaces/DOCS/pages/789012/API+Integration+Guide');
+        expect(MockedConfluenceClient.prototype.search).toHaveBeenCalledWith(
+          `(title ~ "${unicodeQuery}" OR text ~ "${unicodeQuery}")`,
+          { limit: 25 }
+        );
       });
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,117 @@
+import { createListSitesTool, createSelectSiteTool, withSiteOverride } from '../../tools/sites.js';
+import { authManager } from '../../auth/manager.js';
+import { ToolHandler } from '../../types/index.js';
+
+// Mock dependencies
+jest.mock('../../auth/manager.js');
+
+describe('Site Tools', () => {
+  const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
+  const production = { id: 'cloud-prod', url: 'https://prod.atlassian.net', name: 'prod', scopes: [], avatarUrl: '' };
+  const sandbox = { id: 'cloud-sandbox', url: 'https://sandbox.atlassian.net', name: 'sandbox', scopes: [], avatarUrl: '' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAuthManager.getMethod.mockReturnValue('oauth');
+    mockedAuthManager.isAuthenticated.mockReturnValue(true);
+    mockedAuthManager.getCloudId.mockReturnValue('cloud-prod');
+    mockedAuthManager.getSites.mockResolvedValue([production, sandbox]);
+    mockedAuthManager.selectSite.mockResolvedValue(sandbox);
+    mockedAuthManager.resolveSite.mockResolvedValue(sandbox);
+    mockedAuthManager.withSite.mockImplementation((_site, run) => run());
+  });
+
+  describe('confluence_list_sites', () => {
+    const listTool = createListSitesTool();
+
+    it('should have correct tool metadata', () => {
+      expect(listTool.name).toBe('confluence_list_sites');
+      expect(listTool.title).toBe('List Confluence Sites');
+    });
+
+    it('should list the sites and mark the active one', async () => {
+      const result = await listTool.handler({});
+
+      expect(result.content[0].text).toContain('Confluence Sites (2)');
+      expect(result.content[0].text).toContain('- ✅ **prod** - https://prod.atlassian.net (cloud ID: cloud-prod) *(active)*');
+      expect(result.content[0].text).toContain('- **sandbox** - https://sandbox.atlassian.net (cloud ID: cloud-sandbox)\n');
+    });
+
+    it('should require an OAuth session', async () => {
+      mockedAuthManager.getMethod.mockReturnValue('pat');
+      mockedAuthManager.getBaseUrl.mockReturnValue('https://confluence.example.com');
+
+      await expect(listTool.handler({})).rejects.toThrow('Site selection is only available with OAuth authentication');
+    });
+
+    it('should require authentication', async () => {
+      mockedAuthManager.isAuthenticated.mockReturnValue(false);
+
+      await expect(listTool.handler({})).rejects.toThrow('Not authenticated');
+    });
+  });
+
+  describe('confluence_select_site', () => {
+    const selectTool = createSelectSiteTool();
+
+    it('should switch the active site', async () => {
+      const result = await selectTool.handler({ site: 'sandbox' });
+
+      expect(mockedAuthManager.getSites).toHaveBeenCalled();
+      expect(mockedAuthManager.selectSite).toHaveBeenCalledWith('sandbox');
+      expect(result.content[0].text).toContain('sandbox (https://sandbox.atlassian.net)');
+    });
+
+    it('should report unknown sites', async () => {
+      mockedAuthManager.selectSite.mockRejectedValue(new Error('Unknown site "staging". Available sites: prod (https://prod.atlassian.net)'));
+
+      await expect(selectTool.handler({ site: 'staging' })).rejects.toThrow('Failed to select site: Unknown site "staging"');
+    });
+
+    it('should reject invalid parameters', async () => {
+      await expect(selectTool.handler({ site: '' })).rejects.toThrow('Invalid parameters');
+    });
+  });
+
+  describe('withSiteOverride', () => {
+    const tool: ToolHandler = {
+      name: 'confluence_test',
+      title: 'Test',
+      description: 'Test tool',
+      inputSchema: { pageId: {} },
+      handler: jest.fn().mockResolvedValue({ content: [{ type: 'text', text: 'done' }] })
+    };
+
+    it('should add a site parameter', () => {
+      const wrapped = withSiteOverride(tool);
+
+      expect(wrapped.name).toBe('confluence_test');
+      expect(wrapped.inputSchema).toHaveProperty('pageId');
+      expect(wrapped.inputSchema).toHaveProperty('site');
+    });
+
+    it('should call the tool directly without a site', async () => {
+      await withSiteOverride(tool).handler({ pageId: '123' });
+
+      expect(tool.handler).toHaveBeenCalledWith({ pageId: '123' }, undefined);
+      expect(mockedAuthManager.withSite).not.toHaveBeenCalled();
+    });
+
+    it('should run the call against the requested site', async () => {
+      const context = { _meta: { progressToken: 'token' } };
+
+      await withSiteOverride(tool).handler({ pageId: '123', site: 'sandbox' }, context);
+
+      expect(mockedAuthManager.resolveSite).toHaveBeenCalledWith('sandbox');
+      expect(mockedAuthManager.withSite).toHaveBeenCalledWith(sandbox, expect.any(Function));
+      expect(tool.handler).toHaveBeenCalledWith({ pageId: '123' }, context);
+    });
+
+    it('should report unknown sites', async () => {
+      mockedAuthManager.resolveSite.mockRejectedValue(new Error('Unknown site "staging". Available sites: prod (https://prod.atlassian.net)'));
+
+      await expect(withSiteOverride(tool).handler({ pageId: '123', site: 'staging' })).rejects.toThrow('Invalid site: Unknown site "staging"');
+      expect(tool.handler).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { createSyncDirectoryTool } from '../../tools/sync-directory.js';
+import { createPageFromFile, updatePageFromFile } from '../../tools/upload-page.js';
+import { authManager } from '../../auth/manager.js';
+import { FileManager } from '../../filemanager/index.js';
+import { ADFConverter } from '../../converter/index.js';
+import { ToolError } from '../../types/index.js';
+import * as fs from 'fs-extra';
+import { mkdtemp } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+// Mock dependencies
+jest.mock('../../auth/manager.js');
+jest.mock('../../client/confluence.js');
+jest.mock('../../tools/upload-page.js', () => ({
+  ...jest.requireActual('../../tools/upload-page.js'),
+  createPageFromFile: jest.fn(),
+  updatePageFromFile: jest.fn()
+}));
+
+describe('Sync Directory Tool', () => {
+  let syncTool: ReturnType<typeof createSyncDirectoryTool>;
+  let directory: string;
+  const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
+  const mockedCreatePageFromFile = createPageFromFile as jest.MockedFunction<typeof createPageFromFile>;
+  const mockedUpdatePageFromFile = updatePageFromFile as jest.MockedFunction<typeof updatePageFromFile>;
+
+  const page = (id: string, title: string) => ({
+    id,
+    type: 'page',
+    status: 'current',
+    title,
+    space: { key: 'DEV', name: 'Development' },
+    version: { number: 2, when: '2023-01-02T00:00:00Z' },
+    _links: { webui: `/spaces/DEV/pages/${id}` }
+  });
+
+  // Write a managed file as confluence_download_page would
+  const writeManagedFile = async (path: string, pageId: string, title: string, markdown: string, options: { withHash?: boolean } = {}) => {
+    const adf = ADFConverter.markdownToADF(markdown).adf;
+    await fs.outputFile(join(directory, path), markdown);
+    await fs.outputFile(join(directory, path.replace(/\.md$/, '.meta.json')), JSON.stringify({
+      pageId,
+      title,
+      spaceKey: 'DEV',
+      originalADF: JSON.stringify(adf),
+      version: 1,
+      ...(options.withHash !== false && { contentHash: FileManager.contentHash(markdown) })
+    }));
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    syncTool = createSyncDirectoryTool();
+    directory = await mkdtemp(join(tmpdir(), 'sync-directory-'));
+
+    mockedAuthManager.isAuthenticated.mockReturnValue(true);
+    jest.spyOn(FileManager, 'getDisplayPath').mockImplementation(path => path);
+    mockedUpdatePageFromFile.mockImplementation(async (_client, pageId, filePath) => ({
+      page: page(pageId, `Page ${pageId}`),
+      filePath,
+      summary: ''
+    }));
+    let nextId = 900;
+    mockedCreatePageFromFile.mockImplementation(async (_client, filePath, markdown, { targetDirectory }) => {
+      const id = String(nextId++);
+      const newFilePath = join(targetDirectory as string, `${id}-new.md`);
+      await fs.move(filePath, newFilePath);
+      return { page: page(id, markdown.split('\n')[0].replace(/^# /, '')), filePath: newFilePath, summary: '' };
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  describe('tool configuration', () => {
+    it('should have correct tool metadata', () => {
+      expect(syncTool.name).toBe('confluence_sync_directory');
+      expect(syncTool.title).toBe('Sync Directory to Confluence');
+    });
+
+    it('should have correct input schema', () => {
+      expect(syncTool.inputSchema).toHaveProperty('directory');
+      expect(syncTool.inputSchema).toHaveProperty('spaceKey');
+      expect(syncTool.inputSchema).toHaveProperty('parentPageId');
+      expect(syncTool.inputSchema).toHaveProperty('dryRun');
+    });
+  });
+
+  describe('handler', () => {
+    it('should list what would be created, updated and skipped in a dry run', async () => {
+      await writeManagedFile('1-root.md', '1', 'Root', '# Root\n\nIntro');
+      await writeManagedFile('1-root/2-child.md', '2', 'Child', '# Child\n\nOld text');
+      await fs.outputFile(join(directory, '1-root/2-child.md'), '# Child\n\nNew text');
+      await fs.outputFile(join(directory, '1-root/new-page.md'), '# New Page\n\nHello');
+      await fs.outputFile(join(directory, '1-root/new-page/nested.md'), '# Nested\n\nHello');
+      mockedAuthManager.isAuthenticated.mockReturnValue(false);
+
+      const result = await syncTool.handler({ directory, dryRun: true });
+
+      expect(result.content[0].text).toBe([
+        `Dry run for ${directory}: 2 pages to create, 1 to update, 1 skipped`,
+        '',
+        'Would create:',
+        '- 1-root/new-page.md: "New Page" in space DEV under page 1',
+        '- 1-root/new-page/nested.md: "Nested" in space DEV under new page "New Page"',
+        '',
+        'Would update:',
+        '- 1-root/2-child.md: "Child" (ID: 2)',
+        '',
+        'Skipped:',
+        '- 1-root.md: unchanged since download (ID: 1)'
+      ].join('\n'));
+      expect(mockedUpdatePageFromFile).not.toHaveBeenCalled();
+      expect(mockedCreatePageFromFile).not.toHaveBeenCalled();
+    });
+
+    it('should update changed files and create new pages under their folder page', async () => {
+      await writeManagedFile('1-root.md', '1', 'Root', '# Root\n\nIntro');
+      await fs.outputFile(join(directory, '1-root.md'), '# Root\n\nEdited intro');
+      await fs.outputFile(join(directory, '1-root/new-page.md'), '# New Page\n\nHello');
+      await fs.outputFile(join(directory, '1-root/new-page/nested.md'), '# Nested\n\nHello');
+
+      const result = await syncTool.handler({ directory, mode: 'replace' });
+
+      expect(mockedUpdatePageFromFile).toHaveBeenCalledWith(
+        expect.any(Object), '1', join(directory, '1-root.md'), '# Root\n\nEdited intro', { mode: 'replace', force: false }
+      );
+      expect(mockedCreatePageFromFile).toHaveBeenNthCalledWith(1,
+        expect.any(Object), join(directory, '1-root/new-page.md'), '# New Page\n\nHello',
+        { spaceKey: 'DEV', parentPageId: '1', targetDirectory: join(directory, '1-root') }
+      );
+      expect(mockedCreatePageFromFile).toHaveBeenNthCalledWith(2,
+        expect.any(Object), join(directory, '1-root/new-page/nested.md'), '# Nested\n\nHello',
+        { spaceKey: 'DEV', parentPageId: '900', targetDirectory: join(directory, '1-root/new-page') }
+      );
+      expect(result.content[0].text).toContain('Synced');
+      expect(result.content[0].text).toContain('2 pages created, 1 updated, 0 skipped, 0 failed');
+
+      // The child folder follows the renamed page file
+      expect(await fs.pathExists(join(directory, '1-root/900-new/901-new.md'))).toBe(true);
+      expect(await fs.pathExists(join(directory, '1-root/new-page'))).toBe(false);
+    });
+
+    it('should detect changes of files downloaded without a content hash', async () => {
+      await writeManagedFile('1-same.md', '1', 'Same', '# Same\n\nText', { withHash: false });
+      await writeManagedFile('2-edited.md', '2', 'Edited', '# Edited\n\nText', { withHash: false });
+      await fs.outputFile(join(directory, '2-edited.md'), '# Edited\n\nChanged text');
+
+      const result = await syncTool.handler({ directory, dryRun: true });
+
+      expect(result.content[0].text).toContain('- 2-edited.md: "Edited" (ID: 2)');
+      expect(result.content[0].text).toContain('- 1-same.md: unchanged since download (ID: 1)');
+    });
+
+    it('should treat changed local images as changes', async () => {
+      await writeManagedFile('1-page.md', '1', 'Page', '# Page\n\n![Diagram](assets/1/diagram.png)');
+      await fs.outputFile(join(directory, 'assets/1/diagram.png'), 'new image data');
+
+      const result = await syncTool.handler({ directory, dryRun: true });
+
+      expect(result.content[0].text).toContain('Would update:\n- 1-page.md: "Page" (ID: 1)');
+    });
+
+    it('should use the space and parent of a downloaded page folder', async () => {
+      await writeManagedFile('5-parent.md', '5', 'Parent', '# Parent');
+      await fs.outputFile(join(directory, '5-parent/new.md'), '# New');
+
+      const result = await syncTool.handler({ directory: join(directory, '5-parent'), dryRun: true });
+
+      expect(result.content[0].text).toContain('- new.md: "New" in space DEV under page 5');
+    });
+
+    it('should skip new pages without a space key and their children', async () => {
+      await fs.outputFile(join(directory, 'orphan.md'), '# Orphan');
+      await fs.outputFile(join(directory, 'orphan/child.md'), '# Child');
+
+      const result = await syncTool.handler({ directory });
+
+      expect(mockedCreatePageFromFile).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('- orphan.md: no space key for new page, pass spaceKey');
+      expect(result.content[0].text).toContain('- orphan/child.md: parent page "Orphan" was not created');
+    });
+
+    it('should create top-level pages with the given space and parent', async () => {
+      await fs.outputFile(join(directory, 'top.md'), '# Top');
+
+      await syncTool.handler({ directory, spaceKey: 'DOCS', parentPageId: '42' });
+
+      expect(mockedCreatePageFromFile).toHaveBeenCalledWith(
+        expect.any(Object), join(directory, 'top.md'), '# Top', { spaceKey: 'DOCS', parentPageId: '42', targetDirectory: directory }
+      );
+    });
+
+    it('should skip files with conflict markers, missing metadata and assets', async () => {
+      await writeManagedFile('1-conflict.md', '1', 'Conflict', '# Conflict');
+      await fs.outputFile(join(directory, '1-conflict.md'), '<<<<<<< local\nA\n=======\nB\n>>>>>>> remote');
+      await fs.outputFile(join(directory, '2-untracked.md'), '# Untracked');
+      await fs.outputFile(join(directory, 'assets/1/notes.md'), '# Not a page');
+
+      const result = await syncTool.handler({ directory, dryRun: true });
+
+      expect(result.content[0].text).toContain('- 1-conflict.md: unresolved merge conflict markers');
+      expect(result.content[0].text).toContain('- 2-untracked.md: no metadata file, upload it with confluence_upload_page');
+      expect(result.content[0].text).not.toContain('notes.md');
+    });
+
+    it('should report failed uploads and keep going', async () => {
+      await writeManagedFile('1-a.md', '1', 'A', '# A');
+      await writeManagedFile('2-b.md', '2', 'B', '# B');
+      await fs.outputFile(join(directory, '1-a.md'), '# A edited');
+      await fs.outputFile(join(directory, '2-b.md'), '# B edited');
+      mockedUpdatePageFromFile.mockRejectedValueOnce(new ToolError('Version conflict: page 1 was changed in Confluence since download.'));
+
+      const result = await syncTool.handler({ directory });
+
+      expect(mockedUpdatePageFromFile).toHaveBeenCalledTimes(2);
+      expect(result.content[0].text).toContain('Failed:\n- 1-a.md: Version conflict: page 1 was changed in Confluence since download.');
+      expect(result.content[0].text).toContain('Updated:\n- 2-b.md: "Page 2" (ID: 2)');
+      expect(result.isError).toBeUndefined();
+    });
+
+    it('should send progress notifications when a progress token is given', async () => {
+      await writeManagedFile('1-a.md', '1', 'A', '# A');
+      await writeManagedFile('2-b.md', '2', 'B', '# B');
+      const sendNotification = jest.fn().mockResolvedValue(undefined);
+
+      await syncTool.handler({ directory, dryRun: true }, { _meta: { progressToken: 7 }, sendNotification });
+
+      expect(sendNotification).toHaveBeenLastCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 7, progress: 2, total: 2, message: 'Processed 2-b.md' }
+      });
+    });
+
+    it('should require authentication unless it is a dry run', async () => {
+      mockedAuthManager.isAuthenticated.mockReturnValue(false);
+
+      await expect(syncTool.handler({ directory }))
+        .rejects.toThrow('Not authenticated. Please authenticate first using confluence_authenticate.');
+    });
+
+    it('should throw error for a missing directory', async () => {
+      await expect(syncTool.handler({ directory: join(directory, 'missing'), dryRun: true }))
+        .rejects.toThrow(`Directory not found: ${join(directory, 'missing')}`);
+    });
+  });
+});
@@ -1,30 +1,43 @@
 import { createUploadPageTool } from '../../tools/upload-page.js';
+import { StorageConverter } from '../../converter/storage.js';
 import { authManager } from '../../auth/manager.js';
 import { ConfluenceClient } from '../../client/confluence.js';
 import { FileManager } from '../../filemanager/index.js';
+import { AssetManager } from '../../filemanager/assets.js';
 import { ADFConverter } from '../../converter/index.js';
+import { ADFPatcher } from '../../converter/adf-patcher.js';
 import { ToolError } from '../../types/index.js';
 import * as fs from 'fs-extra';
+import { readFile } from 'fs/promises';
 
 // Mock dependencies
 jest.mock('../../auth/manager.js');
 jest.mock('../../client/confluence.js');
 jest.mock('../../filemanager/index.js');
+jest.mock('../../filemanager/assets.js');
 jest.mock('../../converter/index.js');
+jest.mock('../../converter/adf-patcher.js');
 jest.mock('fs-extra', () => ({
   pathExists: jest.fn(),
   readFile: jest.fn(),
   writeFile: jest.fn(),
+  outputFile: jest.fn(),
   move: jest.fn()
 }));
+jest.mock('fs/promises', () => ({
+  readFile: jest.fn()
+}));
 
 describe('Upload Page Tool', () => {
   let uploadTool: ReturnType<typeof createUploadPageTool>;
   const mockedAuthManager = authManager as jest.Mocked<typeof authManager>;
   const MockedConfluenceClient = ConfluenceClient as jest.MockedClass<typeof ConfluenceClient>;
   const MockedFileManager = FileManager as jest.MockedClass<typeof FileManager>;
+  const MockedAssetManager = AssetManager as jest.MockedClass<typeof AssetManager>;
   const MockedADFConverter = ADFConverter as jest.MockedClass<typeof ADFConverter>;
+  const MockedADFPatcher = ADFPatcher as jest.MockedClass<typeof ADFPatcher>;
   const mockedFs = fs as jest.Mocked<typeof fs>;
+  const mockedReadFile = readFile as unknown as jest.MockedFunction<(path: string, encoding: BufferEncoding) => Promise<string>>;
 
   const mockMarkdownContent = `---
 pageId: "123456"
@@ -71,7 +84,7 @@ Hello world`;
     mockedAuthManager.isAuthenticated.mockReturnValue(true);
     mockedAuthManager.getBaseUrl.mockReturnValue('https://test.atlassian.net');
     (mockedFs.pathExists as jest.Mock).mockResolvedValue(true);
-    (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(mockMarkdownContent);
+    mockedReadFile.mockResolvedValue(mockMarkdownContent);
     (mockedFs.writeFile as unknown as jest.Mock).mockResolvedValue(undefined);
     (mockedFs.move as jest.Mock).mockResolvedValue(undefined);
     
@@ -90,6 +103,11 @@ Hello world`;
       metadataPath: '/path/to/789012-new-test-page.meta.json'
     });
     MockedFileManager.getDisplayPath = jest.fn().mockReturnValue('confluence-downloads/789012-new-test-page.md');
+    MockedFileManager.getMetadataPath = jest.fn().mockImplementation((path: string) => path.replace(/\.md$/, '.meta.json'));
+    MockedFileManager.readMetadata = jest.fn().mockResolvedValue(null);
+    MockedAssetManager.findLocalImages = jest.fn().mockResolvedValue([]);
+    MockedAssetManager.uploadLocalImages = jest.fn().mockResolvedValue({ attachments: [], uploaded: 0 });
+    MockedAssetManager.updateMediaReferences = jest.fn().mockImplementation((adf) => adf);
 
     MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue({
       version: { number: 1 }
@@ -102,7 +120,7 @@ Hello world`;
     it('should have correct tool metadata', () => {
       expect(uploadTool.name).toBe('confluence_upload_page');
       expect(uploadTool.title).toBe('Upload Page to Confluence');
-      expect(uploadTool.description).toBe('Upload a Markdown file to Confluence, converting to ADF format. Updates existing page if file contains page ID, creates new page otherwise.');
+      expect(uploadTool.description).toBe('Upload a Markdown file to Confluence, converting to ADF or storage format. Updates existing page if file contains page ID, creates new page otherwise. New or changed local images are uploaded as page attachments.');
     });
 
     it('should have correct input schema', () => {
@@ -161,7 +179,7 @@ Hello world`;
 
 Hello world`;
 
-      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(markdownWithoutMetadata);
+      mockedReadFile.mockResolvedValue(markdownWithoutMetadata);
       MockedADFConverter.markdownToADF = jest.fn().mockReturnValue({
         adf: mockADF,
         metadata: undefined
@@ -189,7 +207,7 @@ Hello world`;
     it('should use "Untitled" when no title found', async () => {
       const markdownWithoutTitle = `Hello world without title`;
 
-      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(markdownWithoutTitle);
+      mockedReadFile.mockResolvedValue(markdownWithoutTitle);
       MockedADFConverter.markdownToADF = jest.fn().mockReturnValue({
         adf: mockADF,
         metadata: undefined
@@ -249,6 +267,259 @@ Hello world`;
     });
   });
 
+  describe('handler - version conflicts', () => {
+    beforeEach(() => {
+      MockedADFPatcher.patch = jest.fn().mockReturnValue({
+        adf: mockADF,
+        stats: { preserved: 1, changed: 0, removed: 0 }
+      });
+      MockedFileManager.readMetadata = jest.fn().mockResolvedValue({
+        pageId: '123456',
+        title: 'Test Page',
+        spaceKey: 'TEST',
+        originalADF: JSON.stringify(mockADF),
+        version: 3
+      });
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue({
+        version: {
+          number: 5,
+          when: '2023-01-02T00:00:00Z',
+          by: { displayName: 'Jane Doe' }
+        }
+      });
+    });
+
+    it('should refuse to upload when the remote version moved on', async () => {
+      const params = { filePath: '/path/to/123456-test-page.md' };
+
+      await expect(uploadTool.handler(params)).rejects.toThrow(ToolError);
+      await expect(uploadTool.handler(params)).rejects.toThrow('Remote version 5 was saved by Jane Doe at 2023-01-02T00:00:00Z, local file is based on version 3');
+      expect(MockedConfluenceClient.prototype.updateContent).not.toHaveBeenCalled();
+    });
+
+    it('should overwrite when force is set', async () => {
+      await uploadTool.handler({ filePath: '/path/to/123456-test-page.md', force: true });
+
+      expect(MockedConfluenceClient.prototype.updateContent).toHaveBeenCalledWith('123456', expect.objectContaining({
+        version: { number: 6 }
+      }));
+    });
+
+    it('should record the new version in metadata', async () => {
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue({
+        version: { number: 3, when: '2023-01-01T00:00:00Z' }
+      });
+
+      await uploadTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(mockedFs.outputFile).toHaveBeenCalledWith(
+        '/path/to/123456-test-page.meta.json',
+        expect.stringContaining('"version": 2'),
+        'utf-8'
+      );
+    });
+  });
+
+  describe('handler - patch mode', () => {
+    const originalADF = {
+      version: 1,
+      type: "doc" as const,
+      content: [
+        { type: "extension", attrs: { extensionKey: "toc" } },
+        { type: "paragraph", content: [{ type: "text", text: "Hello" }] }
+      ]
+    };
+
+    const patchedADF = {
+      ...originalADF,
+      content: [originalADF.content[0], mockADF.content[0]]
+    };
+
+    beforeEach(() => {
+      MockedADFConverter.markdownToADF = jest.fn().mockReturnValue({
+        adf: mockADF,
+        metadata: {
+          pageId: '123456',
+          title: 'Test Page',
+          spaceKey: 'TEST',
+          originalADF: JSON.stringify(originalADF)
+        }
+      });
+      (mockedFs.pathExists as unknown as jest.Mock).mockImplementation((path) =>
+        Promise.resolve(!path.toString().endsWith('.meta.json'))
+      );
+      MockedADFPatcher.patch = jest.fn().mockReturnValue({
+        adf: patchedADF,
+        stats: { preserved: 1, changed: 1, removed: 0 }
+      });
+    });
+
+    it('should patch changed blocks into the original ADF', async () => {
+      const result = await uploadTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(MockedADFPatcher.patch).toHaveBeenCalledWith(originalADF, mockMarkdownContent, { attachments: [] });
+      expect(MockedConfluenceClient.prototype.updateContent).toHaveBeenCalledWith('123456', expect.objectContaining({
+        body: {
+          atlas_doc_format: {
+            value: JSON.stringify(patchedADF),
+            representation: 'atlas_doc_format'
+          }
+        }
+      }));
+      expect(result.content[0].text).toContain('1 block preserved, 1 block rewritten, 0 blocks removed');
+    });
+
+    it('should send storage format when the file was downloaded as storage format', async () => {
+      (MockedADFConverter.markdownToADF as jest.Mock).mockReturnValue({
+        adf: mockADF,
+        metadata: { pageId: '123456', title: 'Test Page', spaceKey: 'TEST', originalADF: JSON.stringify(originalADF), format: 'storage' }
+      });
+
+      await uploadTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(MockedConfluenceClient.prototype.updateContent).toHaveBeenCalledWith('123456', expect.objectContaining({
+        body: {
+          storage: {
+            value: StorageConverter.adfToStorage(patchedADF),
+            representation: 'storage'
+          }
+        }
+      }));
+    });
+
+    it('should use the format given as a parameter', async () => {
+      await uploadTool.handler({ filePath: '/path/to/123456-test-page.md', format: 'storage' });
+
+      const body = (MockedConfluenceClient.prototype.updateContent as jest.Mock).mock.calls[0][1].body;
+      expect(body.storage.representation).toBe('storage');
+    });
+
+    it('should rebuild the page when mode is replace', async () => {
+      await uploadTool.handler({ filePath: '/path/to/123456-test-page.md', mode: 'replace' });
+
+      expect(MockedADFPatcher.patch).not.toHaveBeenCalled();
+      expect(MockedConfluenceClient.prototype.updateContent).toHaveBeenCalledWith('123456', expect.objectContaining({
+        body: {
+          atlas_doc_format: {
+            value: JSON.stringify(mockADF),
+            representation: 'atlas_doc_format'
+          }
+        }
+      }));
+    });
+  });
+
+  describe('handler - images', () => {
+    const knownAttachment = {
+      id: 'att1',
+      fileName: 'diagram.png',
+      path: 'assets/123456/diagram.png',
+      fileId: 'file-1',
+      collection: 'contentId-123456',
+      hash: 'old-hash'
+    };
+    const updatedAttachment = { ...knownAttachment, fileId: 'file-2', hash: 'new-hash' };
+    const originalADF = {
+      version: 1,
+      type: "doc" as const,
+      content: [{ type: "mediaSingle", content: [{ type: "media", attrs: { id: 'file-1', type: 'file', collection: 'contentId-123456' } }] }]
+    };
+
+    beforeEach(() => {
+      MockedFileManager.readMetadata = jest.fn().mockResolvedValue({
+        pageId: '123456',
+        originalADF: JSON.stringify(originalADF),
+        version: 1,
+        attachments: [knownAttachment]
+      });
+      MockedAssetManager.uploadLocalImages = jest.fn().mockResolvedValue({ attachments: [updatedAttachment], uploaded: 1 });
+      MockedADFPatcher.patch = jest.fn().mockReturnValue({
+        adf: originalADF,
+        stats: { preserved: 1, changed: 0, removed: 0 }
+      });
+    });
+
+    it('should upload changed images and point the page at the new versions', async () => {
+      const result = await uploadTool.handler({ filePath: '/path/to/123456-test-page.md' });
+
+      expect(MockedAssetManager.uploadLocalImages).toHaveBeenCalledWith(
+        expect.any(MockedConfluenceClient),
+        '123456',
+        '/path/to/123456-test-page.md',
+        mockMarkdownContent,
+        [knownAttachment]
+      );
+      expect(MockedADFPatcher.patch).toHaveBeenCalledWith(originalADF, mockMarkdownContent, {
+        attachments: [knownAttachment, updatedAttachment]
+      });
+      expect(MockedAssetManager.updateMediaReferences).toHaveBeenCalledWith(originalADF, [knownAttachment], [updatedAttachment]);
+      expect(mockedFs.outputFile).toHaveBeenCalledWith(
+        '/path/to/123456-test-page.meta.json',
+        expect.stringContaining('"fileId": "file-2"'),
+        'utf-8'
+      );
+      expect(result.content[0].text).toContain('Uploaded 1 images as attachments');
+    });
+
+    it('should convert images with the uploaded attachments in replace mode', async () => {
+      await uploadTool.handler({ filePath: '/path/to/123456-test-page.md', mode: 'replace' });
+
+      expect(MockedADFConverter.markdownToADF).toHaveBeenCalledWith(mockMarkdownContent, { attachments: [updatedAttachment] });
+      expect(MockedADFPatcher.patch).not.toHaveBeenCalled();
+    });
+
+    it('should not upload images when the page has a version conflict', async () => {
+      MockedConfluenceClient.prototype.getContent = jest.fn().mockResolvedValue({ version: { number: 3, when: '2023-01-02T00:00:00Z' } });
+
+      const error = await uploadTool.handler({ filePath: '/path/to/123456-test-page.md' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ToolError);
+      expect(error.message).toContain('Version conflict');
+      expect(error.details).toEqual({
+        code: 'version_conflict',
+        hint: 'Run confluence_merge_page to merge both sets of changes, or re-run with force: true to overwrite.'
+      });
+      expect(MockedAssetManager.uploadLocalImages).not.toHaveBeenCalled();
+    });
+
+    it('should not upload images when the page cannot be converted', async () => {
+      MockedADFPatcher.patch = jest.fn().mockImplementation(() => {
+        throw new Error('Unsupported node');
+      });
+
+      await expect(uploadTool.handler({ filePath: '/path/to/123456-test-page.md' })).rejects.toThrow('Unsupported node');
+      expect(MockedAssetManager.uploadLocalImages).not.toHaveBeenCalled();
+      expect(MockedConfluenceClient.prototype.updateContent).not.toHaveBeenCalled();
+    });
+
+    it('should attach images to new pages in a second revision', async () => {
+      MockedFileManager.extractPageIdFromFilename = jest.fn().mockReturnValue(null);
+      MockedADFConverter.markdownToADF = jest.fn().mockReturnValue({ adf: mockADF, metadata: undefined });
+      MockedAssetManager.findLocalImages = jest.fn().mockResolvedValue(['images/new.png']);
+      const newAttachment = { ...knownAttachment, path: 'images/new.png', fileId: 'file-3' };
+      MockedAssetManager.uploadLocalImages = jest.fn().mockResolvedValue({ attachments: [newAttachment], uploaded: 1 });
+      MockedConfluenceClient.prototype.updateContent = jest.fn().mockResolvedValue({ ...mockCreatedPage, version: { number: 2, when: '2023-01-01T00:01:00Z' } });
+
+      await uploadTool.handler({ filePath: '/path/to/new-page.md', spaceKey: 'TEST' });
+
+      expect(MockedAssetManager.uploadLocalImages).toHaveBeenCalledWith(
+        expect.any(MockedConfluenceClient),
+        '789012',
+        '/path/to/new-page.md',
+        expect.any(String),
+        []
+      );
+      expect(MockedConfluenceClient.prototype.updateContent).toHaveBeenCalledWith('789012', expect.objectContaining({
+        version: { number: 2 }
+      }));
+      expect(mockedFs.outputFile).toHaveBeenCalledWith(
+        '/path/to/789012-new-test-page.meta.json',
+        expect.stringContaining('"version": 2'),
+        'utf-8'
+      );
+    });
+  });
+
   describe('handler - create new page', () => {
     beforeEach(() => {
       MockedFileManager.extractPageIdFromFilename = jest.fn().mockReturnValue(null);
@@ -263,7 +534,7 @@ Hello world`;
 
 Hello new world`;
       
-      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(markdownContent);
+      mockedReadFile.mockResolvedValue(markdownContent);
 
       const params = {
         filePath: '/path/to/new-page.md',
@@ -297,7 +568,7 @@ Hello new world`;
 
 Hello child world`;
       
-      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(markdownContent);
+      mockedReadFile.mockResolvedValue(markdownContent);
 
       const params = {
         filePath: '/path/to/new-page.md',
@@ -337,7 +608,7 @@ Hello child world`;
 
 Hello new world`;
       
-      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(markdownContent);
+      mockedReadFile.mockResolvedValue(markdownContent);
 
       const params = {
         filePath: '/path/to/new-page.md',
@@ -353,7 +624,7 @@ Hello new world`;
 
 Hello new world`;
       
-      (mockedFs.readFile as unknown as jest.Mock).mockResolvedValue(markdownContent);
+      mockedReadFile.mockResolvedValue(markdownContent);
 
       const params = {
         filePath: '/path/to/new-page.md',
@@ -390,6 +661,7 @@ Hello new world`;
 
       await expect(uploadTool.handler(params)).rejects.toThrow(ToolError);
       await expect(uploadTool.handler(params)).rejects.toThrow('Not authenticated. Please authenticate first using confluence_authenticate.');
+      await expect(uploadTool.handler(params)).rejects.toMatchObject({ details: { code: 'not_authenticated' } });
     });
 
     it('should throw error when file does not exist', async () => {
@@ -420,7 +692,7 @@ Hello new world`;
     });
 
     it('should handle file read errors', async () => {
-      (mockedFs.readFile as unknown as jest.Mock).mockRejectedValue(new Error('Permission denied'));
+      mockedReadFile.mockRejectedValue(new Error('Permission denied'));
 
       const params = {
         filePath: '/path/to/test.md'
@@ -431,7 +703,7 @@ Hello new world`;
     });
 
     it('should handle unknown errors gracefully', async () => {
-      (mockedFs.readFile as unknown as jest.Mock).mockRejectedValue('Unknown error');
+      mockedReadFile.mockRejectedValue('Unknown error');
 
       const params = {
         filePath: '/path/to/test.md'
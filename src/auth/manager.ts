@@ -1,91 +1,91 @@
-import { isOAuthAuthenticated, getOAuthConfluenceClient } from "../tools/oauth.js";
+import { AsyncLocalStorage } from "async_hooks";
+import { OAuthStrategy, createStrategyFromEnvironment } from "./strategies.js";
+import { AuthStrategy, AuthMethod, Deployment, AtlassianResource } from "../types/index.js";
 
 export class AuthManager {
-  
-  isAuthenticated(): boolean {
-    return isOAuthAuthenticated();
+  private readonly oauthStrategy = new OAuthStrategy();
+  private strategy: AuthStrategy = this.oauthStrategy;
+  // Site chosen for the tool call in progress, overriding the active site
+  private readonly siteOverride = new AsyncLocalStorage<AtlassianResource>();
+
+  // Switch to another authentication strategy; clients pick it up on their next request
+  setStrategy(strategy: AuthStrategy): void {
+    this.strategy = strategy;
   }
 
-  getAuthHeaders(): Record<string, string> {
-    if (!isOAuthAuthenticated()) {
-      throw new Error('Not authenticated - OAuth required');
-    }
+  getStrategy(): AuthStrategy {
+    return this.strategy;
+  }
 
-    const oauthConfluenceClient = getOAuthConfluenceClient();
-    if (!oauthConfluenceClient) {
-      throw new Error('OAuth client not available');
-    }
+  getMethod(): AuthMethod {
+    return this.strategy.method;
+  }
 
-    try {
-      const oauthClient = oauthConfluenceClient.getOAuthClient();
-      if (!oauthClient) {
-        throw new Error('OAuth client not available');
-      }
-      return oauthClient.getAuthHeaders();
-    } catch (error) {
-      throw new Error(`Failed to get OAuth headers: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  getDeployment(): Deployment {
+    return this.strategy.deployment;
   }
 
-  getCloudId(): string {
-    if (!isOAuthAuthenticated()) {
-      throw new Error('Not authenticated - OAuth required');
+  // Use API token or personal access token credentials from the environment when present
+  configureFromEnvironment(env: NodeJS.ProcessEnv = process.env): boolean {
+    const strategy = createStrategyFromEnvironment(env);
+    if (!strategy) {
+      return false;
     }
 
-    const oauthConfluenceClient = getOAuthConfluenceClient();
-    if (!oauthConfluenceClient) {
-      throw new Error('OAuth client not available');
-    }
+    this.strategy = strategy;
+    return true;
+  }
 
-    try {
-      const oauthClient = oauthConfluenceClient.getOAuthClient();
-      if (!oauthClient) {
-        throw new Error('OAuth client not available');
-      }
-      return oauthClient.getCloudId();
-    } catch (error) {
-      throw new Error(`Failed to get cloud ID: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  isAuthenticated(): boolean {
+    return this.strategy.isAuthenticated();
   }
 
-  getConfluenceClient() {
-    if (!isOAuthAuthenticated()) {
-      throw new Error('Not authenticated - OAuth required');
-    }
+  getAuthHeaders(): Record<string, string> {
+    return this.strategy.getAuthHeaders();
+  }
 
-    const oauthConfluenceClient = getOAuthConfluenceClient();
-    if (!oauthConfluenceClient) {
-      throw new Error('OAuth client not available');
-    }
+  getCloudId(): string {
+    return this.siteOverride.getStore()?.id ?? this.requireOAuth().getCloudId();
+  }
 
-    return oauthConfluenceClient;
+  getConfluenceClient() {
+    return this.requireOAuth().getConfluenceClient();
   }
 
   getBaseUrl(): string {
-    if (!isOAuthAuthenticated()) {
-      throw new Error('Not authenticated - OAuth required');
-    }
+    return this.siteOverride.getStore()?.url ?? this.strategy.getBaseUrl();
+  }
 
-    const oauthConfluenceClient = getOAuthConfluenceClient();
-    if (!oauthConfluenceClient) {
-      throw new Error('OAuth client not available');
-    }
+  getSites(): Promise<AtlassianResource[]> {
+    return this.requireOAuth().getSites();
+  }
 
-    try {
-      const oauthClient = oauthConfluenceClient.getOAuthClient();
-      if (!oauthClient) {
-        throw new Error('OAuth client not available');
-      }
-      return oauthClient.getDomainUrl();
-    } catch (error) {
-      throw new Error(`Failed to get domain URL: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  selectSite(site: string): Promise<AtlassianResource> {
+    return this.requireOAuth().selectSite(site);
+  }
+
+  resolveSite(site: string): Promise<AtlassianResource> {
+    return this.requireOAuth().resolveSite(site);
+  }
+
+  // Run a tool call against another site of the OAuth grant without changing the active site
+  withSite<T>(site: AtlassianResource, run: () => Promise<T>): Promise<T> {
+    return this.siteOverride.run(site, run);
   }
 
   clear(): void {
     // OAuth clearing is handled by OAuth tools
+    this.strategy = this.oauthStrategy;
+  }
+
+  // Cloud ID and the OAuth client only exist for OAuth sessions
+  private requireOAuth(): OAuthStrategy {
+    if (this.strategy !== this.oauthStrategy) {
+      throw new Error(`Not available with ${this.strategy.method} authentication - OAuth required`);
+    }
+    return this.oauthStrategy;
   }
 }
 
 // Global instance
-export const authManager = new AuthManager();
\ No newline at end of file
+export const authManager = new AuthManager();
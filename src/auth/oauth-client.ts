@@ -3,17 +3,51 @@ import express from 'express';
 import cors from 'cors';
 import { Server } from 'http';
 import { OAuthCredentials, OAuthTokens, OAuthState, AtlassianResource } from '../types/index.js';
-import { tokenStorage } from './token-storage.js';
+import { tokenStorage, StoredOAuthData, TOKEN_REFRESH_MARGIN } from './token-storage.js';
+import { getRequestedScopes, compareScopes, ScopeReport } from './scopes.js';
+import { AuthExpiredError } from '../client/errors.js';
+
+// Authorization codes pasted by hand are accepted this long after the authorization URL was generated
+const MANUAL_AUTHORIZATION_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * Read the code, state and error from the URL the browser was redirected to,
+ * its query string, or a bare authorization code
+ */
+export function parseAuthorizationResponse(input: string): { code?: string; state?: string; error?: string } {
+  const trimmed = input.trim();
+  if (!trimmed.includes('=')) {
+    return trimmed ? { code: trimmed } : {};
+  }
+
+  const query = trimmed.includes('?') ? trimmed.slice(trimmed.indexOf('?') + 1) : trimmed;
+  const params = new URLSearchParams(query.split('#')[0]);
+  const code = params.get('code');
+  const state = params.get('state');
+  const error = params.get('error_description') || params.get('error');
+
+  return {
+    ...(code && { code }),
+    ...(state && { state }),
+    ...(error && { error })
+  };
+}
 
 export class OAuthClient {
   private credentials: OAuthCredentials;
   private tokens: OAuthTokens | null = null;
   private cloudId: string | null = null;
   private domainUrl: string | null = null;
+  private sites: AtlassianResource[] = [];
   private oauthState: OAuthState | null = null;
   private callbackServer: Server | null = null;
   private authCompletionResolver: ((value: { success: boolean; error?: string }) => void) | null = null;
   private isLoaded: boolean = false;
+  private loading: Promise<void> | null = null;
+  private loadError: string | null = null;
+  private refreshing: Promise<void> | null = null;
+  // Scopes of the last authorization request
+  private requestedScopes: string[] | null = null;
 
   constructor(credentials: OAuthCredentials) {
     this.credentials = credentials;
@@ -21,6 +55,27 @@ export class OAuthClient {
     this.loadTokens();
   }
 
+  /**
+   * Rebuild the client from the session stored for the active profile,
+   * refreshing an expired access token. Returns null when no usable session
+   * with client credentials is stored.
+   */
+  static async restore(): Promise<OAuthClient | null> {
+    const storedData = await tokenStorage.retrieve();
+    if (!storedData?.credentials || !storedData.tokens) {
+      return null;
+    }
+
+    const client = new OAuthClient(storedData.credentials);
+    await client.loadTokens();
+
+    if (client.loadError) {
+      throw new Error(client.loadError);
+    }
+    // Expired tokens without a refresh token are dropped while loading
+    return client.isAuthenticated() ? client : null;
+  }
+
   /**
    * Generate PKCE code verifier and challenge
    */
@@ -55,19 +110,8 @@ export class OAuthClient {
       timestamp: Date.now()
     };
 
-    const scopes = [
-      'read:confluence-content.all',
-      'write:confluence-content',
-      'read:content:confluence',
-      'write:content:confluence',
-      'read:space:confluence',
-      'read:page:confluence',
-      'write:page:confluence',
-      'read:confluence-content.summary',
-      'read:confluence-space.summary',
-      'search:confluence',
-      'offline_access'
-    ].join(' ');
+    this.requestedScopes = getRequestedScopes(this.credentials.scopes);
+    const scopes = this.requestedScopes.join(' ');
 
     const params = new URLSearchParams({
       audience: 'api.atlassian.com',
@@ -125,8 +169,8 @@ export class OAuthClient {
           // Exchange code for tokens
           await this.exchangeCodeForTokens(code as string);
           
-          // Get cloud ID
-          await this.fetchCloudId();
+          // Get the Confluence sites of the grant
+          await this.fetchSites();
 
           res.send(`
             <html>
@@ -171,6 +215,38 @@ export class OAuthClient {
     });
   }
 
+  /**
+   * Complete the flow with the redirect URL (or the bare code) pasted by the
+   * user, for environments where the browser cannot reach the callback server
+   */
+  async completeWithRedirect(redirect: string): Promise<void> {
+    const { code, state, error } = parseAuthorizationResponse(redirect);
+
+    if (error) {
+      throw new Error(`OAuth error: ${error}`);
+    }
+
+    if (!code) {
+      throw new Error('Missing authorization code');
+    }
+
+    if (!this.oauthState) {
+      throw new Error('No pending authorization request');
+    }
+
+    // A bare code carries no state; the PKCE verifier still ties it to this request
+    if (state !== undefined && state !== this.oauthState.state) {
+      throw new Error('Invalid state parameter');
+    }
+
+    if (Date.now() - this.oauthState.timestamp > MANUAL_AUTHORIZATION_TIMEOUT) {
+      throw new Error('Authorization request expired');
+    }
+
+    await this.exchangeCodeForTokens(code);
+    await this.fetchSites();
+  }
+
   /**
    * Stop callback server
    */
@@ -207,14 +283,33 @@ export class OAuthClient {
       throw new Error(`Token exchange failed: ${response.status} ${error}`);
     }
 
-    this.tokens = await response.json();
+    this.setTokens(await response.json());
     await this.saveTokens();
   }
 
+  // Record when the new access token expires. Rotating refresh tokens come
+  // with every refresh; otherwise the current refresh token stays valid.
+  private setTokens(tokens: OAuthTokens): void {
+    const refreshToken = tokens.refresh_token || this.tokens?.refresh_token;
+    this.tokens = {
+      ...tokens,
+      ...(refreshToken && { refresh_token: refreshToken }),
+      expiresAt: Date.now() + tokens.expires_in * 1000
+    };
+  }
+
+  // Use tokens from storage with their expiry
+  private useStoredTokens(storedData: StoredOAuthData): void {
+    const expiresAt = tokenStorage.getExpiresAt(storedData);
+    this.tokens = storedData.tokens && { ...storedData.tokens, ...(expiresAt !== null && { expiresAt }) };
+  }
+
   /**
-   * Get accessible Atlassian resources and extract cloud ID and domain URL
+   * Get the Confluence sites among the accessible Atlassian resources. The
+   * previously selected site stays active while the grant covers it,
+   * otherwise the first site is selected.
    */
-  private async fetchCloudId(): Promise<void> {
+  async fetchSites(): Promise<AtlassianResource[]> {
     if (!this.tokens) {
       throw new Error('No OAuth tokens available');
     }
@@ -229,28 +324,77 @@ export class OAuthClient {
 
     const resources: AtlassianResource[] = await response.json();
     
-    // Find the first resource with Confluence scopes
-    const confluenceResource = resources.find(resource => 
+    // Keep the resources with Confluence scopes
+    const sites = resources.filter(resource => 
       resource.scopes.some(scope => scope.includes('confluence'))
     );
 
-    if (!confluenceResource) {
+    if (sites.length === 0) {
       throw new Error('No Confluence resources found');
     }
 
-    this.cloudId = confluenceResource.id;
-    this.domainUrl = confluenceResource.url;
+    const selected = sites.find(site => site.id === this.cloudId) || sites[0];
+    this.sites = sites;
+    this.cloudId = selected.id;
+    this.domainUrl = selected.url;
     await this.saveTokens();
+    return sites;
+  }
+
+  /**
+   * Get the Confluence sites the grant covers, as of the last fetch
+   */
+  getSites(): AtlassianResource[] {
+    return this.sites;
   }
 
   /**
-   * Refresh access token using refresh token
+   * Find a site by cloud ID, URL, host name or name
    */
-  async refreshAccessToken(): Promise<void> {
+  findSite(site: string): AtlassianResource {
+    const wanted = site.trim().toLowerCase().replace(/\/+$/, '');
+    const match = this.sites.find(candidate =>
+      candidate.id.toLowerCase() === wanted ||
+      candidate.name.toLowerCase() === wanted ||
+      candidate.url.toLowerCase().replace(/\/+$/, '') === wanted ||
+      new URL(candidate.url).host.toLowerCase() === wanted
+    );
+
+    if (!match) {
+      const available = this.sites.map(candidate => `${candidate.name} (${candidate.url})`).join(', ');
+      throw new Error(`Unknown site "${site}". Available sites: ${available || 'none'}`);
+    }
+    return match;
+  }
+
+  /**
+   * Make a site the active one and persist the choice
+   */
+  async selectSite(site: string): Promise<AtlassianResource> {
+    const selected = this.findSite(site);
+    this.cloudId = selected.id;
+    this.domainUrl = selected.url;
+    await this.saveTokens();
+    return selected;
+  }
+
+  /**
+   * Refresh access token using refresh token. Concurrent callers share one
+   * refresh, since a rotated refresh token can only be used once.
+   */
+  refreshAccessToken(): Promise<void> {
+    this.refreshing = this.refreshing || this.requestTokenRefresh().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async requestTokenRefresh(): Promise<void> {
     if (!this.tokens || !this.tokens.refresh_token) {
       throw new Error('No refresh token available');
     }
 
+    const refreshToken = this.tokens.refresh_token;
     const response = await fetch('https://auth.atlassian.com/oauth/token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -258,21 +402,40 @@ export class OAuthClient {
         grant_type: 'refresh_token',
         client_id: this.credentials.clientId,
         client_secret: this.credentials.clientSecret,
-        refresh_token: this.tokens.refresh_token
+        refresh_token: refreshToken
       })
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Token refresh failed: ${response.status} ${error}`);
+      if (await this.adoptRotatedTokens(refreshToken)) {
+        return;
+      }
+      // The refresh token was revoked or expired, so only signing in again helps
+      const message = `Token refresh failed: ${response.status} ${error}`;
+      throw response.status === 400 || response.status === 401
+        ? new AuthExpiredError(message, { status: response.status })
+        : new Error(message);
     }
 
-    this.tokens = await response.json();
+    this.setTokens(await response.json());
     await this.saveTokens();
   }
 
+  // Another server sharing the token storage may have rotated the refresh
+  // token already; use its tokens instead of failing
+  private async adoptRotatedTokens(rejectedRefreshToken: string): Promise<boolean> {
+    const storedData = await tokenStorage.retrieve();
+    if (!storedData?.tokens?.refresh_token || storedData.tokens.refresh_token === rejectedRefreshToken) {
+      return false;
+    }
+
+    this.useStoredTokens(storedData);
+    return true;
+  }
+
   /**
-   * Ensure we have a valid access token
+   * Ensure we have a valid access token, refreshing it shortly before it expires
    */
   async ensureValidToken(): Promise<void> {
     // Ensure tokens are loaded first
@@ -282,14 +445,46 @@ export class OAuthClient {
       throw new Error('No OAuth tokens available');
     }
 
-    // Simple expiry check (tokens typically expire in 3600 seconds)
-    // In production, you'd want more sophisticated token management
-    const tokenAge = Date.now() - (this.oauthState?.timestamp || 0);
-    const tokenExpired = tokenAge > (this.tokens.expires_in - 300) * 1000; // Refresh 5 minutes early
+    const expiresAt = this.tokens.expiresAt;
+    if (expiresAt !== undefined && Date.now() > expiresAt - TOKEN_REFRESH_MARGIN && this.tokens.refresh_token) {
+      await this.refreshAccessToken();
+    }
+  }
 
-    if (tokenExpired && this.tokens.refresh_token) {
+  /**
+   * Refresh the access token after a request sent with the given headers was
+   * rejected with 401. Resolves whether the request can be retried.
+   */
+  async renewAccessToken(rejectedHeaders: Record<string, string>): Promise<boolean> {
+    if (!this.tokens?.refresh_token) {
+      return false;
+    }
+
+    // Another request may have refreshed the token since
+    if (rejectedHeaders['Authorization'] === `Bearer ${this.tokens.access_token}`) {
       await this.refreshAccessToken();
     }
+    return true;
+  }
+
+  /**
+   * Get when the access token expires, if known
+   */
+  getTokenExpiresAt(): number | null {
+    return this.tokens?.expiresAt ?? null;
+  }
+
+  /**
+   * Compare the requested scopes with those granted to the access token.
+   * Returns null without tokens or for sessions stored before the requested
+   * scopes were recorded.
+   */
+  getScopeReport(): ScopeReport | null {
+    if (!this.tokens || !this.requestedScopes) {
+      return null;
+    }
+
+    return compareScopes(this.requestedScopes, this.tokens.scope);
   }
 
   /**
@@ -363,6 +558,7 @@ export class OAuthClient {
     this.tokens = null;
     this.cloudId = null;
     this.domainUrl = null;
+    this.sites = [];
     this.oauthState = null;
     this.stopCallbackServer();
     this.authCompletionResolver = null;
@@ -374,18 +570,29 @@ export class OAuthClient {
   /**
    * Load tokens from persistent storage
    */
-  private async loadTokens(): Promise<void> {
-    if (this.isLoaded) return;
-    
+  private loadTokens(): Promise<void> {
+    if (this.isLoaded) return Promise.resolve();
+
+    // Concurrent callers share one load so expired tokens are refreshed once
+    this.loading = this.loading || this.readStoredTokens();
+    return this.loading;
+  }
+
+  // Loading finishes after the constructor returns, so an authorization
+  // request may have started meanwhile. Its state, PKCE verifier and scopes
+  // are kept rather than replaced with those stored for the previous session.
+  private async readStoredTokens(): Promise<void> {
     try {
       const storedData = await tokenStorage.retrieve();
       if (storedData) {
         // Check if token needs refresh
         if (tokenStorage.isTokenExpired(storedData)) {
           if (storedData.tokens?.refresh_token) {
-            this.tokens = storedData.tokens;
+            this.useStoredTokens(storedData);
             this.cloudId = storedData.cloudId;
             this.domainUrl = storedData.domainUrl;
+            this.sites = storedData.sites || [];
+            this.requestedScopes = this.requestedScopes ?? storedData.requestedScopes ?? null;
             await this.refreshAccessToken();
           } else {
             // Token expired and no refresh token, clear storage
@@ -393,13 +600,15 @@ export class OAuthClient {
           }
         } else {
           // Token is still valid
-          this.tokens = storedData.tokens;
+          this.useStoredTokens(storedData);
           this.cloudId = storedData.cloudId;
           this.domainUrl = storedData.domainUrl;
-          this.oauthState = storedData.oauthState;
+          this.sites = storedData.sites || [];
+          this.requestedScopes = this.requestedScopes ?? storedData.requestedScopes ?? null;
         }
       }
     } catch (error) {
+      this.loadError = error instanceof Error ? error.message : String(error);
       console.error('Failed to load stored tokens:', error);
     } finally {
       this.isLoaded = true;
@@ -412,9 +621,12 @@ export class OAuthClient {
   private async saveTokens(): Promise<void> {
     try {
       await tokenStorage.store({
+        credentials: this.credentials,
         tokens: this.tokens,
         cloudId: this.cloudId,
         domainUrl: this.domainUrl,
+        sites: this.sites,
+        ...(this.requestedScopes && { requestedScopes: this.requestedScopes }),
         oauthState: this.oauthState,
         lastUpdated: Date.now()
       });
@@ -431,6 +643,7 @@ export class OAuthClient {
       tokens: this.tokens,
       cloudId: this.cloudId,
       domainUrl: this.domainUrl,
+      ...(this.sites.length > 0 && { sites: this.sites }),
       oauthState: this.oauthState
     });
   }
@@ -444,6 +657,7 @@ export class OAuthClient {
       this.tokens = parsed.tokens;
       this.cloudId = parsed.cloudId;
       this.domainUrl = parsed.domainUrl;
+      this.sites = parsed.sites || [];
       this.oauthState = parsed.oauthState;
       this.isLoaded = true; // Mark as loaded for testing
     } catch (error) {
@@ -0,0 +1,83 @@
+// Scopes requested by default, in the order they appear on the consent screen
+const DEFAULT_SCOPES = [
+  'read:confluence-content.all',
+  'write:confluence-content',
+  'read:content:confluence',
+  'write:content:confluence',
+  'read:space:confluence',
+  'read:page:confluence',
+  'write:page:confluence',
+  'read:confluence-content.summary',
+  'read:confluence-space.summary',
+  'search:confluence',
+  'offline_access'
+];
+
+// Needed for refresh tokens, so it is always requested
+export const OFFLINE_ACCESS_SCOPE = 'offline_access';
+
+export interface ScopeReport {
+  requested: string[];
+  granted: string[];
+  // Requested but not granted, e.g. because the app does not have them
+  missing: string[];
+  // Granted without being requested
+  unrequested: string[];
+}
+
+/**
+ * Whether the scope lets the token change content or settings
+ */
+export function isWriteScope(scope: string): boolean {
+  return /^(write|delete|manage):/.test(scope);
+}
+
+/**
+ * Read CONFLUENCE_READ_ONLY. Unknown values are rejected rather than
+ * silently enabling write access.
+ */
+export function isReadOnlyMode(env: NodeJS.ProcessEnv = process.env): boolean {
+  const setting = env.CONFLUENCE_READ_ONLY?.trim().toLowerCase();
+  if (!setting || setting === 'false' || setting === '0') {
+    return false;
+  }
+  if (setting === 'true' || setting === '1') {
+    return true;
+  }
+  throw new Error(`Invalid CONFLUENCE_READ_ONLY "${env.CONFLUENCE_READ_ONLY}", expected "true" or "false"`);
+}
+
+/**
+ * Resolve the scopes to request: the given scopes, CONFLUENCE_OAUTH_SCOPES
+ * (separated by spaces or commas) or the defaults. Read-only mode drops the
+ * default write scopes and rejects configured ones.
+ */
+export function getRequestedScopes(scopes?: string[], env: NodeJS.ProcessEnv = process.env): string[] {
+  const configured = scopes ?? env.CONFLUENCE_OAUTH_SCOPES?.split(/[\s,]+/).filter(Boolean);
+  const readOnly = isReadOnlyMode(env);
+
+  if (!configured?.length) {
+    return readOnly ? DEFAULT_SCOPES.filter(scope => !isWriteScope(scope)) : [...DEFAULT_SCOPES];
+  }
+
+  const writeScopes = configured.filter(isWriteScope);
+  if (readOnly && writeScopes.length > 0) {
+    throw new Error(`Write scopes cannot be requested in read-only mode: ${writeScopes.join(', ')}`);
+  }
+
+  return [...new Set([...configured, OFFLINE_ACCESS_SCOPE])];
+}
+
+/**
+ * Compare the requested scopes with the scope string of a token response
+ */
+export function compareScopes(requested: string[], grantedScope: string): ScopeReport {
+  const granted = grantedScope.split(' ').filter(Boolean);
+
+  return {
+    requested,
+    granted,
+    missing: requested.filter(scope => !granted.includes(scope)),
+    unrequested: granted.filter(scope => !requested.includes(scope))
+  };
+}
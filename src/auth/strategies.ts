@@ -0,0 +1,182 @@
+import { isOAuthAuthenticated, getOAuthConfluenceClient } from "../tools/oauth.js";
+import { AuthStrategy, ApiTokenCredentials, PersonalAccessTokenCredentials, Deployment, AtlassianResource } from "../types/index.js";
+
+/**
+ * Normalize a site URL. Cloud URLs drop the /wiki suffix the clients append;
+ * Data Center URLs keep their context path.
+ */
+export function normalizeBaseUrl(baseUrl: string, deployment: Deployment = 'cloud'): string {
+  const url = baseUrl.trim().replace(/\/+$/, '');
+  return deployment === 'cloud' ? url.replace(/\/wiki$/, '') : url;
+}
+
+/**
+ * OAuth 2.0 (3LO) session established with the confluence_oauth_* tools
+ */
+export class OAuthStrategy implements AuthStrategy {
+  readonly method = 'oauth' as const;
+  readonly deployment = 'cloud' as const;
+
+  isAuthenticated(): boolean {
+    return isOAuthAuthenticated();
+  }
+
+  getAuthHeaders(): Record<string, string> {
+    const oauthClient = this.getOAuthClient();
+    try {
+      return oauthClient.getAuthHeaders();
+    } catch (error) {
+      throw new Error(`Failed to get OAuth headers: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  getBaseUrl(): string {
+    const oauthClient = this.getOAuthClient();
+    try {
+      return oauthClient.getDomainUrl();
+    } catch (error) {
+      throw new Error(`Failed to get domain URL: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  getCloudId(): string {
+    const oauthClient = this.getOAuthClient();
+    try {
+      return oauthClient.getCloudId();
+    } catch (error) {
+      throw new Error(`Failed to get cloud ID: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Refresh the list of Confluence sites the grant covers
+  async getSites(): Promise<AtlassianResource[]> {
+    return this.getOAuthClient().fetchSites();
+  }
+
+  // Find a site of the grant, fetching the site list when it was never loaded
+  async resolveSite(site: string): Promise<AtlassianResource> {
+    const oauthClient = this.getOAuthClient();
+    if (oauthClient.getSites().length === 0) {
+      await oauthClient.fetchSites();
+    }
+    return oauthClient.findSite(site);
+  }
+
+  async selectSite(site: string): Promise<AtlassianResource> {
+    return this.getOAuthClient().selectSite(site);
+  }
+
+  getConfluenceClient() {
+    if (!isOAuthAuthenticated()) {
+      throw new Error('Not authenticated - OAuth required');
+    }
+
+    const oauthConfluenceClient = getOAuthConfluenceClient();
+    if (!oauthConfluenceClient) {
+      throw new Error('OAuth client not available');
+    }
+
+    return oauthConfluenceClient;
+  }
+
+  private getOAuthClient() {
+    const oauthClient = this.getConfluenceClient().getOAuthClient();
+    if (!oauthClient) {
+      throw new Error('OAuth client not available');
+    }
+    return oauthClient;
+  }
+}
+
+/**
+ * Email + API token sent as basic auth, for Confluence Cloud sites. On Data
+ * Center the same strategy sends a username and password.
+ */
+export class ApiTokenStrategy implements AuthStrategy {
+  readonly method = 'api_token' as const;
+  readonly deployment: Deployment;
+  private readonly credentials: ApiTokenCredentials;
+
+  constructor(credentials: ApiTokenCredentials) {
+    this.deployment = credentials.deployment || 'cloud';
+    this.credentials = { ...credentials, baseUrl: normalizeBaseUrl(credentials.baseUrl, this.deployment) };
+  }
+
+  isAuthenticated(): boolean {
+    return true;
+  }
+
+  getAuthHeaders(): Record<string, string> {
+    const encoded = Buffer.from(`${this.credentials.email}:${this.credentials.apiToken}`).toString('base64');
+    return {
+      'Authorization': `Basic ${encoded}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    };
+  }
+
+  getBaseUrl(): string {
+    return this.credentials.baseUrl;
+  }
+
+  getEmail(): string {
+    return this.credentials.email;
+  }
+}
+
+/**
+ * Personal access token sent as a bearer token, for Confluence Data Center and Server
+ */
+export class PersonalAccessTokenStrategy implements AuthStrategy {
+  readonly method = 'pat' as const;
+  readonly deployment: Deployment;
+  private readonly credentials: PersonalAccessTokenCredentials;
+
+  constructor(credentials: PersonalAccessTokenCredentials) {
+    this.deployment = credentials.deployment || 'datacenter';
+    this.credentials = { ...credentials, baseUrl: normalizeBaseUrl(credentials.baseUrl, this.deployment) };
+  }
+
+  isAuthenticated(): boolean {
+    return true;
+  }
+
+  getAuthHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.credentials.token}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    };
+  }
+
+  getBaseUrl(): string {
+    return this.credentials.baseUrl;
+  }
+}
+
+/**
+ * Build a token strategy from CONFLUENCE_* environment variables, or return
+ * null when they do not configure one
+ */
+export function createStrategyFromEnvironment(env: NodeJS.ProcessEnv = process.env): AuthStrategy | null {
+  const baseUrl = env.CONFLUENCE_BASE_URL;
+  if (!baseUrl) {
+    return null;
+  }
+
+  const deploymentSetting = env.CONFLUENCE_DEPLOYMENT;
+  if (deploymentSetting && deploymentSetting !== 'cloud' && deploymentSetting !== 'datacenter') {
+    throw new Error(`Invalid CONFLUENCE_DEPLOYMENT "${deploymentSetting}", expected "cloud" or "datacenter"`);
+  }
+  const deployment = deploymentSetting as Deployment | undefined;
+
+  if (env.CONFLUENCE_EMAIL && env.CONFLUENCE_API_TOKEN) {
+    return new ApiTokenStrategy({ baseUrl, email: env.CONFLUENCE_EMAIL, apiToken: env.CONFLUENCE_API_TOKEN, ...(deployment && { deployment }) });
+  }
+
+  if (env.CONFLUENCE_PAT) {
+    return new PersonalAccessTokenStrategy({ baseUrl, token: env.CONFLUENCE_PAT, ...(deployment && { deployment }) });
+  }
+
+  return null;
+}
@@ -1,25 +1,76 @@
 import * as keytar from 'keytar';
+import crypto from 'crypto';
+import { promisify } from 'util';
 import { existsSync, mkdirSync } from 'fs';
-import { writeFile, readFile } from 'fs/promises';
+import { writeFile, readFile, readdir, stat, unlink, chmod } from 'fs/promises';
 import { join } from 'path';
-import { homedir } from 'os';
-import { OAuthTokens, OAuthState } from '../types/index.js';
+import { homedir, hostname, userInfo } from 'os';
+import { OAuthCredentials, OAuthTokens, OAuthState, AtlassianResource } from '../types/index.js';
 
 const SERVICE_NAME = 'mcp-confluence-adf';
 const KEYCHAIN_ACCOUNT = 'oauth-tokens';
 const FALLBACK_DIR = join(homedir(), '.mcp', 'confluence-adf');
 const FALLBACK_FILE = join(FALLBACK_DIR, 'oauth-tokens.json');
+// Random key that earlier versions kept next to the token files
+const LEGACY_KEY_FILE = join(FALLBACK_DIR, 'encryption.key');
+const MACHINE_ID_FILES = ['/etc/machine-id', '/var/lib/dbus/machine-id'];
+
+// Token files are encrypted with AES-256-GCM. The key is derived from
+// CONFLUENCE_TOKEN_PASSPHRASE, or from the machine ID and the user account.
+const ENCRYPTED_FILE_FORMAT = 'mcp-confluence-adf/encrypted-tokens';
+const ENCRYPTED_FILE_VERSION = 1;
+const PASSPHRASE_ENV = 'CONFLUENCE_TOKEN_PASSPHRASE';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// The default profile keeps the original keychain account and file
+export const DEFAULT_PROFILE = 'default';
+export const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+// Access tokens are refreshed this long before they expire
+export const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000;
 
 export interface StoredOAuthData {
+  // OAuth app of the session, so it can be restored when the server starts
+  credentials?: OAuthCredentials;
   tokens: OAuthTokens | null;
   cloudId: string | null;
   domainUrl: string | null;
+  // Confluence sites of the grant; cloudId and domainUrl hold the selected one
+  sites?: AtlassianResource[];
+  // Scopes of the authorization request, to compare with the granted ones
+  requestedScopes?: string[];
   oauthState: OAuthState | null;
   lastUpdated: number;
 }
 
+// 'machine-key' files were encrypted with the legacy key file and are only read
+export type KeySource = 'passphrase' | 'machine' | 'machine-key';
+
+// Layout of an encrypted token file; the header fields are authenticated with the data
+interface EncryptedFile {
+  format: typeof ENCRYPTED_FILE_FORMAT;
+  version: number;
+  keySource: KeySource;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface StorageInfo {
+  method: string;
+  location: string;
+  encrypted: boolean;
+  keySource?: KeySource;
+  // Why the token file could not be read, e.g. a failed integrity check
+  error?: string;
+}
+
 export class TokenStorage {
   private useKeychain: boolean = true;
+  private profile: string = DEFAULT_PROFILE;
+  private fileError: string | null = null;
 
   constructor() {
     // Test if keychain is available
@@ -46,8 +97,105 @@ export class TokenStorage {
     }
   }
 
+  private keychainAccount(profile: string = this.profile): string {
+    return profile === DEFAULT_PROFILE ? KEYCHAIN_ACCOUNT : `${KEYCHAIN_ACCOUNT}:${profile}`;
+  }
+
+  private fallbackFile(profile: string = this.profile): string {
+    return profile === DEFAULT_PROFILE ? FALLBACK_FILE : join(FALLBACK_DIR, `oauth-tokens.${profile}.json`);
+  }
+
+  /**
+   * Name of the profile that store, retrieve and clear work on
+   */
+  getProfile(): string {
+    return this.profile;
+  }
+
+  /**
+   * Switch to another profile. Its stored data is read on the next retrieve.
+   */
+  setProfile(profile: string): void {
+    if (!PROFILE_NAME_PATTERN.test(profile)) {
+      throw new Error(`Invalid profile name "${profile}": use up to 64 letters, digits, '-' or '_'`);
+    }
+    this.profile = profile;
+  }
+
+  /**
+   * Create a profile without a session and switch to it. An empty record is
+   * stored, so the profile is listed before anyone signs in with it.
+   */
+  async createProfile(profile: string): Promise<void> {
+    this.setProfile(profile);
+    await this.store({
+      tokens: null,
+      cloudId: null,
+      domainUrl: null,
+      oauthState: null,
+      lastUpdated: Date.now()
+    });
+  }
+
   /**
-   * Store OAuth data securely
+   * List profiles with stored data, plus the default and active profiles
+   */
+  async listProfiles(): Promise<string[]> {
+    const profiles = new Set([DEFAULT_PROFILE, this.profile]);
+
+    if (this.useKeychain) {
+      try {
+        const credentials = await keytar.findCredentials(SERVICE_NAME);
+        for (const { account } of credentials) {
+          if (account.startsWith(`${KEYCHAIN_ACCOUNT}:`)) {
+            profiles.add(account.slice(KEYCHAIN_ACCOUNT.length + 1));
+          }
+        }
+      } catch (error) {
+        console.warn('Failed to list keychain profiles:', error);
+      }
+    }
+
+    if (existsSync(FALLBACK_DIR)) {
+      for (const fileName of await readdir(FALLBACK_DIR)) {
+        const match = fileName.match(/^oauth-tokens\.(.+)\.json$/);
+        // Cleared profiles leave an empty file behind
+        if (match && PROFILE_NAME_PATTERN.test(match[1]) && (await stat(join(FALLBACK_DIR, fileName))).size > 0) {
+          profiles.add(match[1]);
+        }
+      }
+    }
+
+    return [...profiles].sort((a, b) => a === DEFAULT_PROFILE ? -1 : b === DEFAULT_PROFILE ? 1 : a.localeCompare(b));
+  }
+
+  /**
+   * Delete a profile and its stored data. Deleting the active profile
+   * switches back to the default one.
+   */
+  async deleteProfile(profile: string): Promise<void> {
+    if (profile === DEFAULT_PROFILE) {
+      throw new Error('The default profile cannot be deleted');
+    }
+
+    try {
+      await keytar.deletePassword(SERVICE_NAME, this.keychainAccount(profile));
+    } catch (error) {
+      // Ignore errors when the keychain is not available
+    }
+
+    const file = this.fallbackFile(profile);
+    if (existsSync(file)) {
+      await unlink(file);
+    }
+
+    if (profile === this.profile) {
+      this.profile = DEFAULT_PROFILE;
+    }
+  }
+
+  /**
+   * Store OAuth data of the active profile securely
    */
   async store(data: StoredOAuthData): Promise<void> {
     const serializedData = JSON.stringify({
@@ -57,7 +205,7 @@ export class TokenStorage {
 
     if (this.useKeychain) {
       try {
-        await keytar.setPassword(SERVICE_NAME, KEYCHAIN_ACCOUNT, serializedData);
+        await keytar.setPassword(SERVICE_NAME, this.keychainAccount(), serializedData);
         return;
       } catch (error) {
         console.warn('Failed to store in keychain, falling back to file storage:', error);
@@ -67,31 +215,42 @@ export class TokenStorage {
     }
 
     // Fallback to encrypted file storage
-    await writeFile(FALLBACK_FILE, serializedData, { mode: 0o600 });
+    await this.writeEncryptedFile(serializedData);
   }
 
   /**
-   * Retrieve OAuth data securely
+   * Retrieve OAuth data of the active profile securely
    */
   async retrieve(): Promise<StoredOAuthData | null> {
     let serializedData: string | null = null;
+    this.fileError = null;
 
     if (this.useKeychain) {
       try {
-        serializedData = await keytar.getPassword(SERVICE_NAME, KEYCHAIN_ACCOUNT);
+        serializedData = await keytar.getPassword(SERVICE_NAME, this.keychainAccount());
       } catch (error) {
         console.warn('Failed to retrieve from keychain, falling back to file storage:', error);
         this.useKeychain = false;
       }
     }
 
-    if (!serializedData && existsSync(FALLBACK_FILE)) {
+    if (!serializedData && existsSync(this.fallbackFile())) {
+      let fileContents: string;
       try {
-        serializedData = await readFile(FALLBACK_FILE, 'utf8');
+        fileContents = await readFile(this.fallbackFile(), 'utf8');
       } catch (error) {
         console.error('Failed to read token file:', error);
         return null;
       }
+
+      try {
+        serializedData = await this.readEncryptedFile(fileContents);
+      } catch (error) {
+        // Keep the file: a wrong passphrase must not destroy the stored session
+        this.fileError = error instanceof Error ? error.message : String(error);
+        console.error('Failed to decrypt token file:', this.fileError);
+        return null;
+      }
     }
 
     if (!serializedData) {
@@ -117,54 +276,214 @@ export class TokenStorage {
   }
 
   /**
-   * Clear stored OAuth data
+   * Decrypt the contents of a token file. Plaintext files written by earlier
+   * versions and files encrypted with another key source are re-encrypted
+   * with the current one.
+   */
+  private async readEncryptedFile(fileContents: string): Promise<string | null> {
+    if (!fileContents) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fileContents);
+    } catch {
+      // Left to the validation in retrieve
+      return fileContents;
+    }
+
+    if (!this.isEncryptedFile(parsed)) {
+      await this.migratePlaintextFile(fileContents);
+      return fileContents;
+    }
+
+    if (parsed.version !== ENCRYPTED_FILE_VERSION) {
+      throw new Error(`Unsupported token file version ${parsed.version}`);
+    }
+
+    const key = await this.getEncryptionKey(parsed.keySource, Buffer.from(parsed.salt, 'base64'));
+    let serializedData: string;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(parsed.iv, 'base64'));
+      decipher.setAAD(this.encryptedFileHeader(parsed));
+      decipher.setAuthTag(Buffer.from(parsed.tag, 'base64'));
+      serializedData = Buffer.concat([decipher.update(Buffer.from(parsed.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error(parsed.keySource === 'passphrase'
+        ? `Token file failed its integrity check. It was modified, or ${PASSPHRASE_ENV} differs from the passphrase it was encrypted with.`
+        : parsed.keySource === 'machine'
+          ? 'Token file failed its integrity check. It was modified, or it was encrypted on another machine or by another user account.'
+          : `Token file failed its integrity check. It was modified, or ${LEGACY_KEY_FILE} changed.`);
+    }
+
+    if (parsed.keySource !== this.currentKeySource()) {
+      await this.writeEncryptedFile(serializedData);
+    }
+
+    return serializedData;
+  }
+
+  private async migratePlaintextFile(serializedData: string): Promise<void> {
+    try {
+      await this.writeEncryptedFile(serializedData);
+      console.warn('Encrypted plaintext OAuth token file:', this.fallbackFile());
+    } catch (error) {
+      console.warn('Failed to encrypt plaintext OAuth token file:', error);
+    }
+  }
+
+  private async writeEncryptedFile(serializedData: string): Promise<void> {
+    const keySource = this.currentKeySource();
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await this.getEncryptionKey(keySource, salt);
+
+    const header = { format: ENCRYPTED_FILE_FORMAT, version: ENCRYPTED_FILE_VERSION, keySource, salt: salt.toString('base64') } as const;
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(this.encryptedFileHeader(header));
+    const data = Buffer.concat([cipher.update(serializedData, 'utf8'), cipher.final()]);
+
+    const file: EncryptedFile = {
+      ...header,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    await writeFile(this.fallbackFile(), JSON.stringify(file), { mode: 0o600 });
+    // The mode only applies to new files; plaintext files from earlier versions may be readable by others
+    await chmod(this.fallbackFile(), 0o600);
+    this.fileError = null;
+  }
+
+  private encryptedFileHeader(file: Pick<EncryptedFile, 'format' | 'version' | 'keySource' | 'salt'>): Buffer {
+    return Buffer.from(JSON.stringify([file.format, file.version, file.keySource, file.salt]), 'utf8');
+  }
+
+  private currentKeySource(): KeySource {
+    return process.env[PASSPHRASE_ENV] ? 'passphrase' : 'machine';
+  }
+
+  private async getEncryptionKey(keySource: KeySource, salt: Buffer): Promise<Buffer> {
+    if (keySource === 'passphrase') {
+      const passphrase = process.env[PASSPHRASE_ENV];
+      if (!passphrase) {
+        throw new Error(`Token file is encrypted with a passphrase. Set ${PASSPHRASE_ENV} to read it.`);
+      }
+      return scrypt(passphrase, salt, 32);
+    }
+
+    if (keySource === 'machine') {
+      return scrypt(await this.getMachineSecret(), salt, 32);
+    }
+
+    return this.getLegacyKey();
+  }
+
+  /**
+   * Secret bound to this machine and user account, so a copied token file
+   * cannot be decrypted elsewhere. It is not secret from other programs
+   * running as the same user.
+   */
+  private async getMachineSecret(): Promise<string> {
+    let machineId = hostname();
+    for (const file of MACHINE_ID_FILES) {
+      if (existsSync(file)) {
+        machineId = (await readFile(file, 'utf8')).trim() || machineId;
+        break;
+      }
+    }
+
+    const user = userInfo();
+    return [SERVICE_NAME, machineId, user.uid, user.username].join(':');
+  }
+
+  private async getLegacyKey(): Promise<Buffer> {
+    if (!existsSync(LEGACY_KEY_FILE)) {
+      throw new Error(`Token file is encrypted with the key in ${LEGACY_KEY_FILE}, which is missing.`);
+    }
+
+    const key = Buffer.from((await readFile(LEGACY_KEY_FILE, 'utf8')).trim(), 'base64');
+    if (key.length !== 32) {
+      throw new Error(`Invalid encryption key in ${LEGACY_KEY_FILE}`);
+    }
+    return key;
+  }
+
+  private isEncryptedFile(data: any): data is EncryptedFile {
+    return (
+      typeof data === 'object' &&
+      data !== null &&
+      data.format === ENCRYPTED_FILE_FORMAT &&
+      ['passphrase', 'machine', 'machine-key'].includes(data.keySource) &&
+      ['salt', 'iv', 'tag', 'data'].every(field => typeof data[field] === 'string')
+    );
+  }
+
+  /**
+   * Clear stored OAuth data of the active profile
    */
   async clear(): Promise<void> {
     if (this.useKeychain) {
       try {
-        await keytar.deletePassword(SERVICE_NAME, KEYCHAIN_ACCOUNT);
+        await keytar.deletePassword(SERVICE_NAME, this.keychainAccount());
       } catch (error) {
         // Ignore errors when clearing
       }
     }
 
-    if (existsSync(FALLBACK_FILE)) {
+    if (existsSync(this.fallbackFile())) {
       try {
-        await writeFile(FALLBACK_FILE, '', { mode: 0o600 });
+        await writeFile(this.fallbackFile(), '', { mode: 0o600 });
       } catch (error) {
         // Ignore errors when clearing
       }
     }
   }
 
+  /**
+   * Get when the stored access token expires. Tokens stored before expiresAt
+   * was recorded count from their last save.
+   */
+  getExpiresAt(data: StoredOAuthData): number | null {
+    if (!data.tokens) {
+      return null;
+    }
+
+    return data.tokens.expiresAt ?? data.lastUpdated + data.tokens.expires_in * 1000;
+  }
+
   /**
    * Check if token is expired and needs refresh
    */
   isTokenExpired(data: StoredOAuthData): boolean {
-    if (!data.tokens || !data.lastUpdated) {
+    const expiresAt = this.getExpiresAt(data);
+    if (expiresAt === null || !data.lastUpdated) {
       return true;
     }
 
-    const tokenAge = Date.now() - data.lastUpdated;
-    const expiryTime = (data.tokens.expires_in - 300) * 1000; // Refresh 5 minutes early
-    
-    return tokenAge > expiryTime;
+    return Date.now() > expiresAt - TOKEN_REFRESH_MARGIN;
   }
 
   /**
    * Get storage location info for debugging
    */
-  getStorageInfo(): { method: string; location: string } {
+  getStorageInfo(): StorageInfo {
     if (this.useKeychain) {
       return {
         method: 'keychain',
-        location: `macOS Keychain (${SERVICE_NAME})`
+        location: `macOS Keychain (${SERVICE_NAME})`,
+        encrypted: true
       };
     }
 
     return {
       method: 'file',
-      location: FALLBACK_FILE
+      location: this.fallbackFile(),
+      encrypted: true,
+      keySource: this.currentKeySource(),
+      ...(this.fileError && { error: this.fileError })
     };
   }
 
@@ -172,9 +491,12 @@ export class TokenStorage {
     return (
       typeof data === 'object' &&
       data !== null &&
+      (data.credentials === undefined || (typeof data.credentials === 'object' && typeof data.credentials.clientId === 'string')) &&
       (data.tokens === null || (typeof data.tokens === 'object' && typeof data.tokens.access_token === 'string')) &&
       (data.cloudId === null || typeof data.cloudId === 'string') &&
       (data.domainUrl === null || typeof data.domainUrl === 'string') &&
+      (data.sites === undefined || Array.isArray(data.sites)) &&
+      (data.requestedScopes === undefined || Array.isArray(data.requestedScopes)) &&
       (data.oauthState === null || typeof data.oauthState === 'object') &&
       typeof data.lastUpdated === 'number'
     );
@@ -1,13 +1,43 @@
-import { authManager } from "../auth/manager.js";
-import { ConfluenceContent, ConfluenceSpace } from "../types/index.js";
+import { ConfluenceContent, ContentBody, ConfluenceSpace, ConfluenceSearchPage, ConfluenceAttachment, ConfluencePageList, ConfluenceVersion, ConfluenceVersionList } from "../types/index.js";
+import { escapeCqlString, extractNextCursor } from "./cql.js";
+import { NotFoundError, errorFromResponse } from "./errors.js";
+import { ConfluenceTransport, SessionTransport, TransportOptions } from "./transport.js";
+import { StorageConverter } from "../converter/storage.js";
 
+// Page as returned by the v2 API
+interface V2Page {
+  id: string;
+  title: string;
+  spaceId: string;
+  body?: ConfluenceContent['body'];
+  version: {
+    number: number;
+    createdAt: string;
+    message?: string;
+    authorId?: string;
+  };
+  _links?: {
+    webui?: string;
+  };
+}
+
+/**
+ * Confluence client for every authentication method. Page writes and space
+ * listings use the v2 API on Cloud; everything else, and all of Data Center,
+ * uses the v1 API. Results are returned in the v1 shapes.
+ */
 export class ConfluenceClient {
+  private transport: ConfluenceTransport;
+  // Spaces by ID, since the v2 API addresses spaces by ID rather than key
+  private spaces = new Map<string, ConfluenceSpace>();
+
+  constructor(transport: ConfluenceTransport = new SessionTransport()) {
+    this.transport = transport;
+  }
+
   async testConnection(): Promise<{ success: boolean; error?: string }> {
     try {
-      // Use Confluence-specific API endpoint
-      const response = await fetch(`${authManager.getBaseUrl()}/wiki/rest/api/user/current`, {
-        headers: authManager.getAuthHeaders()
-      });
+      const response = await this.request(this.isDataCenter() ? '/rest/api/user/current' : '/api/v2/spaces?limit=1');
 
       if (!response.ok) {
         return { 
@@ -25,116 +55,398 @@ export class ConfluenceClient {
     }
   }
 
-  async getContent(pageId: string, expand: string[] = []): Promise<ConfluenceContent> {
+  async getContent(pageId: string, expand: string[] = [], version?: number): Promise<ConfluenceContent> {
     const params = new URLSearchParams();
+    if (version !== undefined) {
+      params.set('status', 'historical');
+      params.set('version', version.toString());
+    }
     if (expand.length > 0) {
-      params.set('expand', expand.join(','));
+      params.set('expand', this.isDataCenter() ? expand.map(field => field === 'body.atlas_doc_format' ? 'body.storage' : field).join(',') : expand.join(','));
     }
 
-    const url = `${authManager.getBaseUrl()}/wiki/rest/api/content/${pageId}${params.toString() ? '?' + params.toString() : ''}`;
-    
-    const response = await fetch(url, {
-      headers: authManager.getAuthHeaders()
-    });
+    const response = await this.request(`/rest/api/content/${pageId}${params.toString() ? '?' + params.toString() : ''}`);
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      throw await errorFromResponse(response);
     }
 
-    return response.json();
+    return this.fromStorageBody(await response.json());
   }
 
   async createContent(content: {
     type: string;
     title: string;
     space: { key: string };
-    body: {
-      atlas_doc_format: {
-        value: string;
-        representation: string;
-      };
-    };
+    body: ContentBody;
     ancestors?: Array<{ id: string }>;
   }): Promise<ConfluenceContent> {
-    const response = await fetch(`${authManager.getBaseUrl()}/wiki/rest/api/content`, {
+    if (this.isDataCenter()) {
+      const response = await this.request('/rest/api/content', {
+        method: 'POST',
+        body: JSON.stringify(this.toStorageBody(content))
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response);
+      }
+
+      return this.fromStorageBody(await response.json());
+    }
+
+    const space = await this.getSpaceByKey(content.space.key);
+    const parentId = content.ancestors?.[content.ancestors.length - 1]?.id;
+    const response = await this.request('/api/v2/pages', {
       method: 'POST',
-      headers: authManager.getAuthHeaders(),
-      body: JSON.stringify(content)
+      body: JSON.stringify({
+        spaceId: space.id,
+        status: 'current',
+        title: content.title,
+        ...(parentId && { parentId }),
+        body: this.toV2Body(content.body)
+      })
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      throw await errorFromResponse(response);
     }
 
-    return response.json();
+    return this.fromV2Page(await response.json());
   }
 
   async updateContent(pageId: string, content: {
     type: string;
     title: string;
-    version: { number: number };
-    body: {
-      atlas_doc_format: {
-        value: string;
-        representation: string;
-      };
-    };
+    version: { number: number; message?: string };
+    body: ContentBody;
   }): Promise<ConfluenceContent> {
-    const response = await fetch(`${authManager.getBaseUrl()}/wiki/rest/api/content/${pageId}`, {
+    if (this.isDataCenter()) {
+      const response = await this.request(`/rest/api/content/${pageId}`, {
+        method: 'PUT',
+        body: JSON.stringify(this.toStorageBody(content))
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response);
+      }
+
+      return this.fromStorageBody(await response.json());
+    }
+
+    const response = await this.request(`/api/v2/pages/${pageId}`, {
       method: 'PUT',
-      headers: authManager.getAuthHeaders(),
-      body: JSON.stringify(content)
+      body: JSON.stringify({
+        id: pageId,
+        status: 'current',
+        title: content.title,
+        body: this.toV2Body(content.body),
+        version: content.version
+      })
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      throw await errorFromResponse(response);
     }
 
-    return response.json();
+    return this.fromV2Page(await response.json());
   }
 
   async deleteContent(pageId: string): Promise<void> {
-    const response = await fetch(`${authManager.getBaseUrl()}/wiki/rest/api/content/${pageId}`, {
-      method: 'DELETE',
-      headers: authManager.getAuthHeaders()
+    const response = await this.request(this.isDataCenter() ? `/rest/api/content/${pageId}` : `/api/v2/pages/${pageId}`, {
+      method: 'DELETE'
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      throw await errorFromResponse(response);
     }
   }
 
-  async getSpaces(limit: number = 25): Promise<{ results: ConfluenceSpace[] }> {
+  async getChildPages(pageId: string, start: number = 0, limit: number = 50): Promise<ConfluencePageList> {
     const params = new URLSearchParams({
+      start: start.toString(),
       limit: limit.toString()
     });
 
-    const response = await fetch(`${authManager.getBaseUrl()}/wiki/rest/api/space?${params}`, {
-      headers: authManager.getAuthHeaders()
+    const response = await this.request(`/rest/api/content/${pageId}/child/page?${params}`);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return response.json();
+  }
+
+  async getSpaceRootPages(spaceKey: string, start: number = 0, limit: number = 50): Promise<ConfluencePageList> {
+    const params = new URLSearchParams({
+      depth: 'root',
+      start: start.toString(),
+      limit: limit.toString()
     });
 
+    const response = await this.request(`/rest/api/space/${encodeURIComponent(spaceKey)}/content/page?${params}`);
+
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      throw await errorFromResponse(response);
     }
 
     return response.json();
   }
 
+  async getVersions(pageId: string, start: number = 0, limit: number = 25): Promise<ConfluenceVersionList> {
+    const params = new URLSearchParams({
+      start: start.toString(),
+      limit: limit.toString()
+    });
+
+    const response = await this.request(`/rest/api/content/${pageId}/version?${params}`);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return response.json();
+  }
+
+  // Restoring adds a new version with the content and title of the given one
+  async restoreVersion(pageId: string, versionNumber: number, message: string = ''): Promise<ConfluenceVersion> {
+    const response = await this.request(`/rest/api/content/${pageId}/version`, {
+      method: 'POST',
+      body: JSON.stringify({
+        operationKey: 'restore',
+        params: { versionNumber, message, restoreTitle: true }
+      })
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return response.json();
+  }
+
+  async getSpaces(limit: number = 25): Promise<{ results: ConfluenceSpace[] }> {
+    const params = new URLSearchParams({
+      limit: limit.toString()
+    });
+
+    if (this.isDataCenter()) {
+      const response = await this.request(`/rest/api/space?${params}`);
+
+      if (!response.ok) {
+        throw await errorFromResponse(response);
+      }
+
+      return response.json();
+    }
+
+    params.set('description-format', 'plain');
+    return { results: await this.listSpaces(params) };
+  }
+
   async searchContent(query: string, limit: number = 25): Promise<{ results: ConfluenceContent[] }> {
-    const cqlQuery = `title ~ "${query}" OR text ~ "${query}"`;
+    const escaped = escapeCqlString(query);
+    const cqlQuery = `title ~ "${escaped}" OR text ~ "${escaped}"`;
     const params = new URLSearchParams({
       cql: cqlQuery,
       limit: limit.toString()
     });
 
-    const response = await fetch(`${authManager.getBaseUrl()}/wiki/rest/api/content/search?${params}`, {
-      headers: authManager.getAuthHeaders()
-    });
+    // The v2 API has no CQL search
+    const response = await this.request(`/rest/api/content/search?${params}`);
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      throw await errorFromResponse(response);
     }
 
     return response.json();
   }
+
+  async search(cql: string, options: { limit?: number; cursor?: string } = {}): Promise<ConfluenceSearchPage> {
+    const params = new URLSearchParams({
+      cql,
+      limit: (options.limit ?? 25).toString(),
+      excerpt: 'highlight',
+      expand: 'content.space'
+    });
+    if (options.cursor) {
+      params.set('cursor', options.cursor);
+    }
+
+    const response = await this.request(`/rest/api/search?${params}`);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    const data = await response.json();
+    const nextCursor = extractNextCursor(data._links);
+
+    return {
+      results: data.results || [],
+      ...(typeof data.totalSize === 'number' && { totalSize: data.totalSize }),
+      ...(nextCursor && { nextCursor })
+    };
+  }
+
+  async getAttachments(pageId: string, limit: number = 100): Promise<{ results: ConfluenceAttachment[] }> {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+      expand: 'version'
+    });
+
+    // Follow the next links, so pages with more attachments than fit in one response are listed in full
+    const results: ConfluenceAttachment[] = [];
+    let path: string | undefined = `/rest/api/content/${pageId}/child/attachment?${params}`;
+    while (path) {
+      const response = await this.request(path);
+
+      if (!response.ok) {
+        throw await errorFromResponse(response);
+      }
+
+      const data = await response.json();
+      results.push(...(data.results || []).map((attachment: ConfluenceAttachment) => this.withFileId(attachment)));
+      path = data._links?.next;
+    }
+
+    return { results };
+  }
+
+  async downloadAttachment(downloadPath: string): Promise<Buffer> {
+    // Download links are relative to the site's context path
+    const response = await this.request(downloadPath, {}, { binary: true });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async uploadAttachment(pageId: string, fileName: string, data: Buffer, mediaType?: string): Promise<ConfluenceAttachment> {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(data)], mediaType ? { type: mediaType } : {}), fileName);
+    form.append('minorEdit', 'true');
+
+    // PUT creates the attachment or adds a new version of an existing one with the same name
+    const response = await this.request(`/rest/api/content/${pageId}/child/attachment`, {
+      method: 'PUT',
+      body: form
+    }, { binary: true, headers: { 'X-Atlassian-Token': 'no-check' } });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    const result = await response.json();
+    return this.withFileId(result.results?.[0] ?? result);
+  }
+
+  private request(path: string, init?: Omit<RequestInit, 'headers'>, options?: TransportOptions): Promise<Response> {
+    return this.transport.request(path, init, options);
+  }
+
+  private isDataCenter(): boolean {
+    return this.transport.getDeployment() === 'datacenter';
+  }
+
+  private async listSpaces(params: URLSearchParams): Promise<ConfluenceSpace[]> {
+    const response = await this.request(`/api/v2/spaces?${params}`);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    const spaces: ConfluenceSpace[] = (await response.json()).results || [];
+    for (const space of spaces) {
+      this.spaces.set(space.id, space);
+    }
+    return spaces;
+  }
+
+  // Resolve the space key of a page write to the space ID the v2 API expects
+  private async getSpaceByKey(key: string): Promise<ConfluenceSpace> {
+    const cached = [...this.spaces.values()].find(space => space.key === key);
+    if (cached) {
+      return cached;
+    }
+
+    const [space] = await this.listSpaces(new URLSearchParams({ keys: key }));
+    if (!space) {
+      throw new NotFoundError(`Space "${key}" not found`);
+    }
+    return space;
+  }
+
+  private async getSpaceById(id: string): Promise<ConfluenceSpace> {
+    const cached = this.spaces.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const [space] = await this.listSpaces(new URLSearchParams({ ids: id }));
+    if (!space) {
+      throw new NotFoundError(`Space ${id} not found`);
+    }
+    return space;
+  }
+
+  // v2 bodies name their representation instead of nesting under it
+  private toV2Body(body: ContentBody): { representation: string; value: string } {
+    return 'atlas_doc_format' in body
+      ? { representation: 'atlas_doc_format', value: body.atlas_doc_format.value }
+      : { representation: 'storage', value: body.storage.value };
+  }
+
+  // Present v2 pages like v1 content, with the space key and name callers rely on
+  private async fromV2Page(page: V2Page): Promise<ConfluenceContent> {
+    const space = await this.getSpaceById(page.spaceId);
+    // Write responses return an empty body
+    const body = page.body && Object.keys(page.body).length > 0 ? page.body : null;
+
+    return {
+      id: page.id,
+      type: 'page',
+      title: page.title,
+      space: { key: space.key, name: space.name },
+      ...(body && { body }),
+      version: {
+        number: page.version.number,
+        when: page.version.createdAt,
+        ...(page.version.message && { message: page.version.message }),
+        ...(page.version.authorId && { by: { accountId: page.version.authorId } })
+      },
+      _links: { webui: page._links?.webui ?? '' }
+    };
+  }
+
+  // Data Center has no ADF; send the body in storage format instead
+  private toStorageBody(content: { body: ContentBody }): object {
+    if (!this.isDataCenter() || !('atlas_doc_format' in content.body)) {
+      return content;
+    }
+
+    const adf = JSON.parse(content.body.atlas_doc_format.value);
+    return { ...content, body: { storage: { value: StorageConverter.adfToStorage(adf), representation: 'storage' } } };
+  }
+
+  // Present Data Center storage bodies as ADF so callers handle both deployments alike
+  private fromStorageBody(content: ConfluenceContent): ConfluenceContent {
+    const storage = content.body?.storage;
+    if (!this.isDataCenter() || !storage || content.body?.atlas_doc_format) {
+      return content;
+    }
+
+    const adf = StorageConverter.storageToADF(storage.value);
+    return { ...content, body: { ...content.body, atlas_doc_format: { value: JSON.stringify(adf), representation: 'atlas_doc_format' } } };
+  }
+
+  // Data Center pages reference images by file name rather than media file ID
+  private withFileId(attachment: ConfluenceAttachment): ConfluenceAttachment {
+    if (!this.isDataCenter() || attachment.extensions?.fileId) {
+      return attachment;
+    }
+
+    return { ...attachment, extensions: { ...attachment.extensions, fileId: attachment.title } };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { ConfluenceSearchFilters } from "../types/index.js";
+
+/**
+ * Escape a value for use inside a double-quoted CQL string
+ */
+export function escapeCqlString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function quote(value: string): string {
+  return `"${escapeCqlString(value)}"`;
+}
+
+function inClause(field: string, values: string[]): string {
+  return values.length === 1
+    ? `${field} = ${quote(values[0])}`
+    : `${field} in (${values.map(quote).join(', ')})`;
+}
+
+/**
+ * Build a CQL query from free text, structured filters and optional raw CQL.
+ * All clauses are combined with AND.
+ */
+export function buildCql(filters: ConfluenceSearchFilters): string {
+  const clauses: string[] = [];
+
+  if (filters.cql?.trim()) {
+    clauses.push(`(${filters.cql.trim()})`);
+  }
+
+  if (filters.text?.trim()) {
+    const text = quote(filters.text.trim());
+    clauses.push(`(title ~ ${text} OR text ~ ${text})`);
+  }
+
+  if (filters.spaceKeys && filters.spaceKeys.length > 0) {
+    clauses.push(inClause('space', filters.spaceKeys));
+  }
+
+  if (filters.types && filters.types.length > 0) {
+    clauses.push(inClause('type', filters.types));
+  }
+
+  if (filters.labels && filters.labels.length > 0) {
+    clauses.push(inClause('label', filters.labels));
+  }
+
+  if (filters.contributor) {
+    // CQL functions such as currentUser() must not be quoted
+    clauses.push(/^\w+\(\)$/.test(filters.contributor)
+      ? `contributor = ${filters.contributor}`
+      : `contributor = ${quote(filters.contributor)}`);
+  }
+
+  if (filters.modifiedAfter) {
+    clauses.push(`lastmodified >= ${quote(filters.modifiedAfter)}`);
+  }
+
+  if (filters.modifiedBefore) {
+    clauses.push(`lastmodified <= ${quote(filters.modifiedBefore)}`);
+  }
+
+  if (filters.ancestorId) {
+    clauses.push(`ancestor = ${quote(filters.ancestorId)}`);
+  }
+
+  if (clauses.length === 0) {
+    throw new Error('At least one search term, filter or CQL expression is required');
+  }
+
+  return clauses.join(' AND ');
+}
+
+/**
+ * Extract the pagination cursor from a search response's next link
+ */
+export function extractNextCursor(links?: { next?: string }): string | undefined {
+  if (!links?.next) {
+    return undefined;
+  }
+
+  return new URL(links.next, 'https://confluence.invalid').searchParams.get('cursor') || undefined;
+}
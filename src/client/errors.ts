@@ -0,0 +1,156 @@
+import { parseRetryAfter } from "./request-pipeline.js";
+
+export type ConfluenceErrorCode =
+  | 'not_found'
+  | 'permission_denied'
+  | 'version_conflict'
+  | 'rate_limited'
+  | 'auth_expired'
+  | 'validation_failed'
+  | 'http_error';
+
+export interface ConfluenceErrorOptions {
+  status?: number;
+  // Messages from the error body, e.g. one per invalid field
+  messages?: string[];
+}
+
+/**
+ * A request Confluence rejected. Subclasses tell the reasons an agent can act
+ * on apart, and hint at what to do next.
+ */
+export class ConfluenceApiError extends Error {
+  readonly code: ConfluenceErrorCode = 'http_error';
+  readonly status: number | undefined;
+  readonly messages: string[];
+
+  constructor(message: string, { status, messages = [] }: ConfluenceErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.messages = messages;
+  }
+
+  get hint(): string | undefined {
+    return undefined;
+  }
+}
+
+export class NotFoundError extends ConfluenceApiError {
+  override readonly code = 'not_found';
+
+  override get hint(): string {
+    return 'Check the ID or key. Confluence also reports pages the account cannot view as not found.';
+  }
+}
+
+export class PermissionDeniedError extends ConfluenceApiError {
+  override readonly code = 'permission_denied';
+
+  override get hint(): string {
+    return 'The account lacks permission for this operation. Check the space and page restrictions, or the granted scopes with confluence_oauth_status.';
+  }
+}
+
+export class VersionConflictError extends ConfluenceApiError {
+  override readonly code = 'version_conflict';
+
+  override get hint(): string {
+    return 'The page was changed since it was read. Fetch the current version, reapply the changes, then retry.';
+  }
+}
+
+export class RateLimitedError extends ConfluenceApiError {
+  override readonly code = 'rate_limited';
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, options: ConfluenceErrorOptions & { retryAfterMs?: number | null } = {}) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+
+  override get hint(): string {
+    return this.retryAfterMs === null
+      ? 'Confluence is rate limiting requests. Wait before retrying.'
+      : `Confluence is rate limiting requests. Retry after ${Math.ceil(this.retryAfterMs / 1000)} seconds.`;
+  }
+}
+
+export class AuthExpiredError extends ConfluenceApiError {
+  override readonly code = 'auth_expired';
+
+  override get hint(): string {
+    return 'The credentials are no longer valid. Sign in again with confluence_oauth_init, or confluence_authenticate for tokens.';
+  }
+}
+
+export class ValidationFailedError extends ConfluenceApiError {
+  override readonly code = 'validation_failed';
+
+  override get hint(): string {
+    return 'Confluence rejected the request content. Correct the parameters or the page body and retry.';
+  }
+}
+
+// Error messages of the v1 ({ message, data: { errors } }) and v2 ({ errors }) error bodies
+function parseErrorMessages(body: string): string[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return [];
+  }
+
+  const messages: string[] = [];
+  if (Array.isArray(parsed?.errors)) {
+    for (const error of parsed.errors) {
+      const message = error?.detail || error?.title || error?.message;
+      if (typeof message === 'string' && message) {
+        messages.push(message);
+      }
+    }
+  }
+  if (typeof parsed?.message === 'string' && parsed.message) {
+    messages.push(parsed.message);
+  }
+  if (Array.isArray(parsed?.data?.errors)) {
+    for (const error of parsed.data.errors) {
+      const message = error?.message?.translation || error?.message?.key;
+      if (typeof message === 'string' && message) {
+        messages.push(message);
+      }
+    }
+  }
+  return [...new Set(messages)];
+}
+
+/**
+ * Build the error for a failed response, consuming its body. The message
+ * keeps the `HTTP <status>: <details>` form.
+ */
+export async function errorFromResponse(response: Response): Promise<ConfluenceApiError> {
+  const body = await response.text();
+  const messages = parseErrorMessages(body);
+  const message = `HTTP ${response.status}: ${messages.length > 0 ? messages.join('; ') : body}`;
+  const options = { status: response.status, messages };
+
+  switch (response.status) {
+    case 400:
+    case 413:
+    case 422:
+      return new ValidationFailedError(message, options);
+    case 401:
+      return new AuthExpiredError(message, options);
+    case 403:
+      return new PermissionDeniedError(message, options);
+    case 404:
+      return new NotFoundError(message, options);
+    case 409:
+    case 412:
+      return new VersionConflictError(message, options);
+    case 429:
+      return new RateLimitedError(message, { ...options, retryAfterMs: parseRetryAfter(response.headers?.get('Retry-After') ?? null) });
+    default:
+      return new ConfluenceApiError(message, options);
+  }
+}
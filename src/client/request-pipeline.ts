@@ -0,0 +1,239 @@
+export interface PipelineOptions {
+  // Retries after the first attempt
+  maxRetries: number;
+  // Per attempt, until the response body has been read
+  timeoutMs: number;
+  // Requests in flight per site
+  maxConcurrency: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_OPTIONS: PipelineOptions = {
+  maxRetries: 4,
+  timeoutMs: 60_000,
+  maxConcurrency: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+// Repeating these has the same effect as sending them once. PUT is not among them:
+// a repeated page update fails with a version conflict and a repeated attachment
+// upload adds another attachment version.
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'DELETE']);
+
+class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs / 1000}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+class Semaphore {
+  private limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    // Hand the slot straight to the next waiting request
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function readCount(env: NodeJS.ProcessEnv, name: string, min: number): number | undefined {
+  const setting = env[name]?.trim();
+  if (!setting) {
+    return undefined;
+  }
+  const value = Number(setting);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${name} "${env[name]}", expected a whole number of at least ${min}`);
+  }
+  return value;
+}
+
+/**
+ * Read CONFLUENCE_MAX_RETRIES, CONFLUENCE_REQUEST_TIMEOUT (seconds) and
+ * CONFLUENCE_MAX_CONCURRENCY
+ */
+export function getPipelineOptions(env: NodeJS.ProcessEnv = process.env): Partial<PipelineOptions> {
+  const maxRetries = readCount(env, 'CONFLUENCE_MAX_RETRIES', 0);
+  const timeout = readCount(env, 'CONFLUENCE_REQUEST_TIMEOUT', 1);
+  const maxConcurrency = readCount(env, 'CONFLUENCE_MAX_CONCURRENCY', 1);
+
+  return {
+    ...(maxRetries !== undefined && { maxRetries }),
+    ...(timeout !== undefined && { timeoutMs: timeout * 1000 }),
+    ...(maxConcurrency !== undefined && { maxConcurrency })
+  };
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Sends requests with a timeout, which also covers reading the response body,
+ * and a limit on the requests in flight to each site. Rate-limited requests are
+ * retried after the Retry-After delay or an exponential backoff with jitter;
+ * idempotent requests are also retried after server and network errors.
+ */
+export class RequestPipeline {
+  private options: PipelineOptions;
+  private limiters = new Map<string, Semaphore>();
+
+  constructor(options: Partial<PipelineOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async send(site: string, url: string, init: RequestInit = {}): Promise<Response> {
+    const idempotent = IDEMPOTENT_METHODS.has((init.method ?? 'GET').toUpperCase());
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.attempt(site, url, init);
+      } catch (error) {
+        const retryable = error instanceof RequestTimeoutError || error instanceof TypeError;
+        if (!idempotent || !retryable || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        await this.options.sleep(this.backoff(attempt));
+        continue;
+      }
+
+      const delay = this.retryDelay(response, idempotent, attempt);
+      if (delay === null) {
+        return response;
+      }
+      // Release the connection of the discarded response
+      response.body?.cancel().catch(() => undefined);
+      await this.options.sleep(delay);
+    }
+  }
+
+  private async attempt(site: string, url: string, init: RequestInit): Promise<Response> {
+    const limiter = this.getLimiter(site);
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      clearTimeout(timer);
+      throw controller.signal.aborted ? new RequestTimeoutError(this.options.timeoutMs) : error;
+    } finally {
+      limiter.release();
+    }
+
+    if (!response.body) {
+      clearTimeout(timer);
+      return response;
+    }
+    // A response body that is never read should not keep the process running
+    timer.unref();
+    return this.withBodyDeadline(response, response.body, controller.signal, timer);
+  }
+
+  // Keep the timeout running while the body is read, so a server that stalls
+  // after sending the headers cannot hold the tool call indefinitely
+  private withBodyDeadline(response: Response, source: ReadableStream<Uint8Array>, signal: AbortSignal, timer: ReturnType<typeof setTimeout>): Response {
+    const timeoutMs = this.options.timeoutMs;
+    const reader = source.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(stream) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            clearTimeout(timer);
+            stream.close();
+          } else {
+            stream.enqueue(value);
+          }
+        } catch (error) {
+          clearTimeout(timer);
+          stream.error(signal.aborted ? new RequestTimeoutError(timeoutMs) : error);
+        }
+      },
+      cancel(reason) {
+        clearTimeout(timer);
+        return reader.cancel(reason);
+      }
+    });
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  // Milliseconds to wait before retrying the response, or null to return it
+  private retryDelay(response: Response, idempotent: boolean, attempt: number): number | null {
+    // Rate-limited requests were not processed, so any method can be repeated
+    const retryable = response.status === 429 || (idempotent && response.status >= 500);
+    if (!retryable || attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter === null) {
+      return this.backoff(attempt);
+    }
+    // Give up rather than hold the tool call for longer than the longest backoff
+    return retryAfter > this.options.maxDelayMs ? null : retryAfter;
+  }
+
+  // Full jitter: a random delay up to the exponential backoff
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private getLimiter(site: string): Semaphore {
+    let limiter = this.limiters.get(site);
+    if (!limiter) {
+      limiter = new Semaphore(this.options.maxConcurrency);
+      this.limiters.set(site, limiter);
+    }
+    return limiter;
+  }
+}
+
+let sharedPipeline: RequestPipeline | null = null;
+
+// Shared by all clients, so the concurrency limits hold across tool calls. The
+// environment is read on first use rather than at import.
+export function getRequestPipeline(): RequestPipeline {
+  if (!sharedPipeline) {
+    sharedPipeline = new RequestPipeline(getPipelineOptions());
+  }
+  return sharedPipeline;
+}
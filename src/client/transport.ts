@@ -0,0 +1,110 @@
+import { authManager } from "../auth/manager.js";
+import type { OAuthClient } from "../auth/oauth-client.js";
+import { Deployment } from "../types/index.js";
+import { RequestPipeline, getRequestPipeline } from "./request-pipeline.js";
+
+export interface TransportOptions {
+  // Send without the JSON content negotiation headers, e.g. for file transfers
+  binary?: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Sends requests to the Confluence site of an authentication method. Paths
+ * are relative to the Confluence root, e.g. /rest/api/content/123 for the v1
+ * API or /api/v2/pages for the v2 API.
+ */
+export interface ConfluenceTransport {
+  getDeployment(): Deployment;
+  request(path: string, init?: Omit<RequestInit, 'headers'>, options?: TransportOptions): Promise<Response>;
+}
+
+function requestHeaders(authHeaders: Record<string, string>, { binary = false, headers = {} }: TransportOptions): Record<string, string> {
+  const result = { ...authHeaders, ...headers };
+  if (binary) {
+    delete result['Content-Type'];
+    delete result['Accept'];
+  }
+  return result;
+}
+
+/**
+ * Requests to the site URL with API token or personal access token credentials
+ */
+export class SiteTransport implements ConfluenceTransport {
+  private pipeline: RequestPipeline;
+
+  constructor(pipeline: RequestPipeline = getRequestPipeline()) {
+    this.pipeline = pipeline;
+  }
+
+  getDeployment(): Deployment {
+    return authManager.getDeployment();
+  }
+
+  request(path: string, init: Omit<RequestInit, 'headers'> = {}, options: TransportOptions = {}): Promise<Response> {
+    const siteUrl = this.getSiteUrl();
+    return this.pipeline.send(siteUrl, `${siteUrl}${path}`, { ...init, headers: requestHeaders(authManager.getAuthHeaders(), options) });
+  }
+
+  // Cloud sites serve Confluence under /wiki; Data Center base URLs already include the context path
+  private getSiteUrl(): string {
+    const baseUrl = authManager.getBaseUrl();
+    return this.getDeployment() === 'datacenter' ? baseUrl : `${baseUrl}/wiki`;
+  }
+}
+
+/**
+ * Requests through the Atlassian API gateway with an OAuth access token. A
+ * request rejected with 401 is retried once with a refreshed token.
+ */
+export class OAuthTransport implements ConfluenceTransport {
+  private oauthClient: OAuthClient;
+  private getCloudId: () => string;
+  private pipeline: RequestPipeline;
+
+  constructor(oauthClient: OAuthClient, getCloudId: () => string = () => oauthClient.getCloudId(), pipeline: RequestPipeline = getRequestPipeline()) {
+    this.oauthClient = oauthClient;
+    this.getCloudId = getCloudId;
+    this.pipeline = pipeline;
+  }
+
+  getDeployment(): Deployment {
+    return 'cloud';
+  }
+
+  async request(path: string, init: Omit<RequestInit, 'headers'> = {}, options: TransportOptions = {}): Promise<Response> {
+    await this.oauthClient.ensureValidToken();
+
+    const siteUrl = `https://api.atlassian.com/ex/confluence/${this.getCloudId()}/wiki`;
+    const headers = requestHeaders(this.oauthClient.getAuthHeaders(), options);
+    const response = await this.pipeline.send(siteUrl, `${siteUrl}${path}`, { ...init, headers });
+    if (response.status !== 401 || !(await this.oauthClient.renewAccessToken(headers))) {
+      return response;
+    }
+
+    return this.pipeline.send(siteUrl, `${siteUrl}${path}`, { ...init, headers: requestHeaders(this.oauthClient.getAuthHeaders(), options) });
+  }
+}
+
+/**
+ * Transport of the active authentication method. It is chosen on every
+ * request, so clients follow strategy changes and per-call site overrides.
+ */
+export class SessionTransport implements ConfluenceTransport {
+  getDeployment(): Deployment {
+    return this.current().getDeployment();
+  }
+
+  request(path: string, init?: Omit<RequestInit, 'headers'>, options?: TransportOptions): Promise<Response> {
+    return this.current().request(path, init, options);
+  }
+
+  private current(): ConfluenceTransport {
+    if (authManager.getMethod() !== 'oauth') {
+      return new SiteTransport();
+    }
+
+    return new OAuthTransport(authManager.getConfluenceClient().getOAuthClient(), () => authManager.getCloudId());
+  }
+}
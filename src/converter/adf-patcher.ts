@@ -0,0 +1,174 @@
+import { ADFDocument, ADFNode, ConversionOptions } from "../types/index.js";
+import { ADFConverter } from "./index.js";
+import { BlockDiff } from "./block-diff.js";
+
+interface OriginalBlock {
+  node: ADFNode;
+  chunks: string[];
+}
+
+export interface ADFPatchResult {
+  adf: ADFDocument;
+  stats: {
+    preserved: number;
+    changed: number;
+    removed: number;
+  };
+}
+
+export class ADFPatcher {
+  /**
+   * Apply edited Markdown to the original ADF document. Top-level blocks whose
+   * Markdown rendering is unchanged are copied from the original tree as-is;
+   * only inserted or edited blocks are rebuilt with ADFConverter.
+   */
+  static patch(original: ADFDocument, editedMarkdown: string, options: ConversionOptions = {}): ADFPatchResult {
+    const blocks: OriginalBlock[] = original.content.map(node => ({
+      node,
+      chunks: this.renderChunks(node, options)
+    }));
+
+    const originalChunks: Array<{ block: number; text: string }> = [];
+    blocks.forEach((block, index) => {
+      for (const text of block.chunks) {
+        originalChunks.push({ block: index, text });
+      }
+    });
+
+    const editedChunks = ADFConverter.splitMarkdownBlocks(editedMarkdown);
+    const matches = BlockDiff.match(
+      originalChunks.map(chunk => BlockDiff.normalize(chunk.text)),
+      editedChunks.map(chunk => BlockDiff.normalize(chunk))
+    );
+
+    // Map each original chunk to the edited chunk it was matched with
+    const matchedEdited: Array<number | null> = originalChunks.map(() => null);
+    for (const [originalIndex, editedIndex] of matches) {
+      matchedEdited[originalIndex] = editedIndex;
+    }
+
+    // A block is intact when every chunk it renders to was matched, in order
+    // and without gaps, to the edited Markdown
+    const intactStart = new Map<number, number>();
+    const consumed = new Set<number>();
+    let chunkOffset = 0;
+    blocks.forEach((block, index) => {
+      const indices = matchedEdited.slice(chunkOffset, chunkOffset + block.chunks.length);
+      chunkOffset += block.chunks.length;
+
+      if (block.chunks.length === 0 || indices.some(value => value === null)) {
+        return;
+      }
+
+      const start = indices[0] as number;
+      if (indices.every((value, offset) => value === start + offset)) {
+        intactStart.set(start, index);
+        indices.forEach(value => consumed.add(value as number));
+      }
+    });
+
+    // Blocks with no Markdown rendering (macros, extensions) cannot be
+    // edited locally, so they keep their place among the original blocks.
+    // The edited Markdown between two intact blocks replaces the original
+    // blocks between them; an invisible block goes after the replacements of
+    // the blocks that preceded it.
+    const startOf = new Map<number, number>();
+    intactStart.forEach((blockIndex, start) => startOf.set(blockIndex, start));
+
+    const invisibleAt = new Map<number, ADFNode[]>();
+    let removed = 0;
+    let gapFirst = 0;
+    let gapStart = 0;
+    for (let index = 0; index <= blocks.length; index++) {
+      const start = startOf.get(index);
+      if (index < blocks.length && start === undefined) {
+        continue;
+      }
+
+      const gapEnd = start ?? editedChunks.length;
+      const gap = blocks.slice(gapFirst, index);
+      const visible = gap.filter(block => block.chunks.length > 0);
+      const total = visible.reduce((sum, block) => sum + block.chunks.length, 0);
+
+      let before = 0;
+      for (const block of gap) {
+        if (block.chunks.length > 0) {
+          before += block.chunks.length;
+          continue;
+        }
+        const position = before === 0 ? gapStart
+          : before === total ? gapEnd
+          : Math.min(gapStart + before, gapEnd);
+        invisibleAt.set(position, [...(invisibleAt.get(position) || []), block.node]);
+      }
+
+      // Only blocks left without edited Markdown in their place were removed
+      removed += Math.max(0, visible.length - (gapEnd - gapStart));
+
+      if (start !== undefined) {
+        gapFirst = index + 1;
+        gapStart = start + blocks[index].chunks.length;
+      }
+    }
+
+    const content: ADFNode[] = [];
+    let pending: string[] = [];
+    let changed = 0;
+
+    const flush = () => {
+      if (pending.length === 0) return;
+      const { adf } = ADFConverter.markdownToADF(pending.join('\n\n'), options);
+      content.push(...adf.content);
+      changed += adf.content.length;
+      pending = [];
+    };
+
+    let preserved = 0;
+    let j = 0;
+    while (j <= editedChunks.length) {
+      const invisible = invisibleAt.get(j);
+      if (invisible) {
+        flush();
+        content.push(...invisible);
+        preserved += invisible.length;
+      }
+
+      if (j === editedChunks.length) break;
+
+      const blockIndex = intactStart.get(j);
+      if (blockIndex !== undefined) {
+        flush();
+        content.push(blocks[blockIndex].node);
+        preserved++;
+        j += blocks[blockIndex].chunks.length;
+        continue;
+      }
+
+      if (!consumed.has(j)) {
+        pending.push(editedChunks[j]);
+      }
+      j++;
+    }
+    flush();
+
+    return {
+      adf: {
+        ...original,
+        content
+      },
+      stats: {
+        preserved,
+        changed,
+        removed
+      }
+    };
+  }
+
+  /**
+   * Render a single top-level node to the Markdown chunks it produces
+   */
+  private static renderChunks(node: ADFNode, options: ConversionOptions): string[] {
+    const markdown = ADFConverter.adfToMarkdown({ version: 1, type: 'doc', content: [node] }, undefined, options);
+    return markdown ? ADFConverter.splitMarkdownBlocks(markdown) : [];
+  }
+}
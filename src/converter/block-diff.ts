@@ -0,0 +1,112 @@
+export class BlockDiff {
+  /**
+   * Normalize a Markdown block for comparison, ignoring trailing whitespace
+   */
+  static normalize(text: string): string {
+    return text
+      .split('\n')
+      .map(line => line.trimEnd())
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * Longest common subsequence of two string sequences, returned as index pairs.
+   * Blocks shared at the start and end are matched directly, and the rest with
+   * Hirschberg's algorithm, which needs memory linear in the number of blocks.
+   */
+  static match(original: string[], edited: string[]): Array<[number, number]> {
+    let start = 0;
+    while (start < original.length && start < edited.length && original[start] === edited[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < original.length - start &&
+      end < edited.length - start &&
+      original[original.length - 1 - end] === edited[edited.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    // Compare numbers for equal blocks rather than the text itself
+    const ids = new Map<string, number>();
+    const toIds = (blocks: string[]) => Int32Array.from(blocks, block => {
+      let id = ids.get(block);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(block, id);
+      }
+      return id;
+    });
+    const originalIds = toIds(original.slice(start, original.length - end));
+    const editedIds = toIds(edited.slice(start, edited.length - end));
+
+    const pairs: Array<[number, number]> = [];
+    for (let i = 0; i < start; i++) {
+      pairs.push([i, i]);
+    }
+    BlockDiff.matchRange(originalIds, 0, originalIds.length, editedIds, 0, editedIds.length, start, pairs);
+    for (let k = end; k > 0; k--) {
+      pairs.push([original.length - k, edited.length - k]);
+    }
+
+    return pairs;
+  }
+
+  // Split the original range in half and find where the common subsequence crosses it
+  private static matchRange(
+    original: Int32Array, originalStart: number, originalEnd: number,
+    edited: Int32Array, editedStart: number, editedEnd: number,
+    offset: number, pairs: Array<[number, number]>
+  ): void {
+    if (originalStart >= originalEnd || editedStart >= editedEnd) {
+      return;
+    }
+    if (originalEnd - originalStart === 1) {
+      const j = edited.subarray(editedStart, editedEnd).indexOf(original[originalStart]);
+      if (j !== -1) {
+        pairs.push([offset + originalStart, offset + editedStart + j]);
+      }
+      return;
+    }
+
+    const middle = Math.floor((originalStart + originalEnd) / 2);
+    const before = BlockDiff.matchLengths(original, originalStart, middle, edited, editedStart, editedEnd, false);
+    const after = BlockDiff.matchLengths(original, middle, originalEnd, edited, editedStart, editedEnd, true);
+    const length = editedEnd - editedStart;
+
+    let split = 0;
+    for (let k = 1; k <= length; k++) {
+      if (before[k] + after[length - k] > before[split] + after[length - split]) {
+        split = k;
+      }
+    }
+
+    BlockDiff.matchRange(original, originalStart, middle, edited, editedStart, editedStart + split, offset, pairs);
+    BlockDiff.matchRange(original, middle, originalEnd, edited, editedStart + split, editedEnd, offset, pairs);
+  }
+
+  // Common subsequence lengths of the original range with each prefix of the
+  // edited range, or with each suffix when reversed
+  private static matchLengths(
+    original: Int32Array, originalStart: number, originalEnd: number,
+    edited: Int32Array, editedStart: number, editedEnd: number,
+    reverse: boolean
+  ): Int32Array {
+    const length = editedEnd - editedStart;
+    let previous = new Int32Array(length + 1);
+    let current = new Int32Array(length + 1);
+
+    for (let n = 0; n < originalEnd - originalStart; n++) {
+      const block = reverse ? original[originalEnd - 1 - n] : original[originalStart + n];
+      for (let k = 1; k <= length; k++) {
+        const other = reverse ? edited[editedEnd - k] : edited[editedStart + k - 1];
+        current[k] = block === other ? previous[k - 1] + 1 : Math.max(previous[k], current[k - 1]);
+      }
+      [previous, current] = [current, previous];
+    }
+
+    return previous;
+  }
+}
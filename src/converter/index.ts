@@ -1,35 +1,111 @@
-import { ADFDocument, ADFNode } from "../types/index.js";
+import { ADFDocument, ADFNode, ConversionOptions } from "../types/index.js";
 import * as yaml from 'yaml';
+import crypto from 'crypto';
+import { XhtmlParser } from "./xhtml.js";
 
 export class ADFConverter {
-  static adfToMarkdown(adf: ADFDocument, metadata?: Record<string, any>): string {
-    let markdown = '';
+  // Extension type Confluence uses for storage format macros in ADF
+  static readonly MACRO_EXTENSION_TYPE = 'com.atlassian.confluence.macro.core';
+  
+  // Code fence language of storage format blocks kept verbatim in Markdown
+  static readonly STORAGE_FENCE = 'confluence-macro';
+  
+  // Options of the conversion in progress
+  private static options: ConversionOptions = {};
+  
+  static adfToMarkdown(adf: ADFDocument, metadata?: Record<string, any>, options: ConversionOptions = {}): string {
+    return this.withOptions(options, () => {
+      let markdown = '';
+      
+      if (metadata) {
+        markdown += '---\n' + yaml.stringify(metadata) + '---\n\n';
+      }
+      
+      for (const node of adf.content) {
+        markdown += this.nodeToMarkdown(node, 0);
+      }
+      
+      return markdown.trim();
+    });
+  }
+  
+  static withFrontMatter(markdown: string, metadata: Record<string, any>): string {
+    return ('---\n' + yaml.stringify(metadata) + '---\n\n' + markdown).trim();
+  }
+  
+  static markdownToADF(markdown: string, options: ConversionOptions = {}): { adf: ADFDocument; metadata?: Record<string, any> } {
+    const { content, metadata } = this.extractFrontMatter(this.normalizeLineEndings(markdown));
     
-    if (metadata) {
-      markdown += '---\n' + yaml.stringify(metadata) + '---\n\n';
-    }
+    return {
+      adf: {
+        version: 1,
+        type: "doc",
+        content: this.withOptions(options, () => this.parseBlocks(content.split('\n')))
+      },
+      ...(metadata && { metadata })
+    };
+  }
+  
+  /**
+   * Split Markdown (without front matter) into top-level block chunks, using
+   * the same block boundaries as markdownToADF
+   */
+  static splitMarkdownBlocks(markdown: string): string[] {
+    const { content } = this.extractFrontMatter(this.normalizeLineEndings(markdown));
+    const lines = content.split('\n');
+    const blocks: string[] = [];
+    let i = 0;
     
-    for (const node of adf.content) {
-      markdown += this.nodeToMarkdown(node, 0);
+    while (i < lines.length) {
+      const result = this.parseNode(lines, i);
+      if (result.node) {
+        const block = lines.slice(i, result.nextIndex).join('\n').trim();
+        if (block) {
+          blocks.push(block);
+        }
+      }
+      i = Math.max(result.nextIndex, i + 1);
     }
     
-    return markdown.trim();
+    return blocks;
   }
   
-  static markdownToADF(markdown: string): { adf: ADFDocument; metadata?: Record<string, any> } {
-    let content = markdown;
-    let metadata: Record<string, any> | undefined;
-    
-    if (markdown.startsWith('---\n')) {
-      const endIndex = markdown.indexOf('\n---\n', 4);
-      if (endIndex !== -1) {
-        const frontmatter = markdown.substring(4, endIndex);
-        metadata = yaml.parse(frontmatter);
-        content = markdown.substring(endIndex + 5).trim();
+  /**
+   * Extension node that carries a storage format macro verbatim, so macros
+   * without a Markdown equivalent survive round-trips
+   */
+  static storageExtension(storage: string): ADFNode {
+    const element = XhtmlParser.parse(storage).find(node => node.type === 'element');
+    const macroParams: Record<string, { value: string }> = {};
+    if (element?.type === 'element') {
+      for (const child of element.children) {
+        if (child.type === 'element' && child.name === 'ac:parameter' && child.attributes['ac:name']) {
+          macroParams[child.attributes['ac:name']] = { value: XhtmlParser.textContent(child) };
+        }
       }
     }
     
-    const lines = content.split('\n');
+    return {
+      type: 'extension',
+      attrs: {
+        extensionType: this.MACRO_EXTENSION_TYPE,
+        extensionKey: element?.type === 'element' ? element.attributes['ac:name'] || element.name : 'unknown',
+        parameters: { macroParams, storage }
+      }
+    };
+  }
+  
+  private static withOptions<T>(options: ConversionOptions, convert: () => T): T {
+    const previous = this.options;
+    this.options = options;
+    try {
+      return convert();
+    } finally {
+      this.options = previous;
+    }
+  }
+  
+  private static parseBlocks(lines: string[]): ADFNode[] {
     const nodes: ADFNode[] = [];
     let i = 0;
     
@@ -38,17 +114,31 @@ export class ADFConverter {
       if (result.node) {
         nodes.push(result.node);
       }
-      i = result.nextIndex;
+      // Always move on, even if a block parser consumed no lines
+      i = Math.max(result.nextIndex, i + 1);
     }
     
-    return {
-      adf: {
-        version: 1,
-        type: "doc",
-        content: nodes
-      },
-      ...(metadata && { metadata })
-    };
+    return nodes;
+  }
+  
+  // Files written on Windows use CRLF line endings
+  private static normalizeLineEndings(markdown: string): string {
+    return markdown.replace(/\r\n?/g, '\n');
+  }
+  
+  private static extractFrontMatter(markdown: string): { content: string; metadata?: Record<string, any> } {
+    if (markdown.startsWith('---\n')) {
+      const endIndex = markdown.indexOf('\n---\n', 4);
+      if (endIndex !== -1) {
+        const frontmatter = markdown.substring(4, endIndex);
+        return {
+          content: markdown.substring(endIndex + 5).trim(),
+          metadata: yaml.parse(frontmatter)
+        };
+      }
+    }
+    
+    return { content: markdown };
   }
   
   private static nodeToMarkdown(node: ADFNode, depth: number): string {
@@ -89,6 +179,29 @@ export class ADFConverter {
           .trim();
         return indent + '- ' + content + '\n';
         
+      case 'taskList':
+      case 'decisionList':
+        return this.actionListToMarkdown(node, depth) + '\n\n';
+        
+      case 'mediaSingle':
+        const image = this.mediaToMarkdown(node.content?.[0], node.attrs);
+        return image ? image + '\n\n' : '';
+        
+      case 'mediaGroup':
+        // Files of a group are written on consecutive lines
+        const images = (node.content || [])
+          .map(child => this.mediaToMarkdown(child))
+          .filter(Boolean);
+        return images.length > 0 ? images.join('\n') + '\n\n' : '';
+        
+      case 'media':
+      case 'mediaInline':
+        return this.mediaToMarkdown(node);
+        
+      case 'inlineExtension':
+        // Inline storage markup shows its visible text
+        return this.inlineToMarkdown(node.content || []);
+        
       case 'table':
         return this.tableToMarkdown(node) + '\n\n';
         
@@ -98,6 +211,16 @@ export class ADFConverter {
       case 'panel':
         return this.panelToMarkdown(node) + '\n\n';
         
+      case 'extension':
+      case 'bodiedExtension':
+        // Only macros carrying their storage format can be written back
+        if (typeof node.attrs?.parameters?.storage === 'string') {
+          return '```' + this.STORAGE_FENCE + '\n' + node.attrs.parameters.storage + '\n```\n\n';
+        }
+        return (node.content || [])
+          .map(child => this.nodeToMarkdown(child, depth))
+          .join('');
+        
       default:
         if (node.content) {
           return (node.content || [])
@@ -154,17 +277,149 @@ export class ADFConverter {
   private static listToMarkdown(node: ADFNode, depth: number, ordered: boolean): string {
     if (!node.content) return '';
     
+    const start = ordered ? Number(node.attrs?.order) || 1 : 1;
+    const indent = '  '.repeat(depth);
+    
     return node.content.map((item, index) => {
-      const marker = ordered ? `${index + 1}.` : '-';
-      const indent = '  '.repeat(depth);
-      const content = (item.content || [])
-        .map(child => this.nodeToMarkdown(child, depth + 1))
-        .join('')
-        .trim();
+      const marker = ordered ? `${start + index}.` : '-';
+      // Continuation lines are indented to the item's content column
+      const content = this.listItemToMarkdown(item)
+        .split('\n')
+        .map((line, lineIndex) => lineIndex === 0 || line === '' ? line : ' '.repeat(marker.length + 1) + line)
+        .join('\n');
       return indent + marker + ' ' + content;
     }).join('\n');
   }
   
+  private static listItemToMarkdown(item: ADFNode): string {
+    let markdown = '';
+    
+    for (const child of item.content || []) {
+      const block = this.nodeToMarkdown(child, 0).trim();
+      if (!block) continue;
+      
+      if (markdown) {
+        // Nested lists follow their parent line directly, other blocks are separated by a blank line
+        markdown += child.type === 'bulletList' || child.type === 'orderedList' ? '\n' : '\n\n';
+      }
+      markdown += block;
+    }
+    
+    return markdown;
+  }
+  
+  /**
+   * Task items become GitHub-style checkboxes ("- [ ]" / "- [x]") and
+   * decision items use Confluence's "<>" shortcut ("- <> ...")
+   */
+  private static actionListToMarkdown(node: ADFNode, depth: number): string {
+    if (!node.content) return '';
+    
+    const indent = '  '.repeat(depth);
+    
+    return node.content.map(item => {
+      if (item.type === 'taskList' || item.type === 'decisionList') {
+        return this.actionListToMarkdown(item, depth + 1);
+      }
+      
+      const marker = item.type === 'decisionItem'
+        ? '<>'
+        : item.attrs?.state === 'DONE' ? '[x]' : '[ ]';
+      const text = this.inlineToMarkdown(item.content || []);
+      return indent + '- ' + marker + (text ? ' ' + text : '');
+    }).join('\n');
+  }
+  
+  /**
+   * Render a media node as a Markdown image. Files with a local attachment link
+   * to it, other files use an "attachment:<id>" reference and external images
+   * their URL. Layout, width and the collection of unresolved files are kept
+   * in a trailing attribute block, e.g. ![alt](src){layout=wide width=80}.
+   */
+  private static mediaToMarkdown(node?: ADFNode, containerAttrs?: Record<string, any>): string {
+    const attrs = node?.attrs;
+    if (!attrs) return '';
+    
+    const attachment = this.options.attachments?.find(candidate => candidate.fileId === attrs.id);
+    let src: string;
+    const properties: string[] = [];
+    
+    if (attachment) {
+      src = encodeURI(attachment.path);
+    } else if (attrs.type === 'external' && attrs.url) {
+      src = attrs.url;
+    } else if (attrs.id) {
+      src = `attachment:${attrs.id}`;
+      if (attrs.collection) {
+        properties.push(`collection=${attrs.collection}`);
+      }
+    } else {
+      return '';
+    }
+    
+    if (containerAttrs?.layout && containerAttrs.layout !== 'center') {
+      properties.push(`layout=${containerAttrs.layout}`);
+    }
+    if (containerAttrs?.width) {
+      properties.push(`width=${containerAttrs.width}`);
+    }
+    if (containerAttrs?.widthType && containerAttrs.widthType !== 'percentage') {
+      properties.push(`widthType=${containerAttrs.widthType}`);
+    }
+    
+    const attributeBlock = properties.length > 0 ? `{${properties.join(' ')}}` : '';
+    return `![${attrs.alt || ''}](${src})${attributeBlock}`;
+  }
+  
+  /**
+   * Resolve a Markdown image to media node attributes. Images are matched to
+   * attachments by local path or file name; "attachment:<id>" references and
+   * http(s) URLs are kept as they are. Other images are not media.
+   */
+  private static imageToMediaAttrs(alt: string, src: string, properties: Record<string, string>): Record<string, any> | null {
+    let path: string;
+    try {
+      path = decodeURI(src);
+    } catch (error) {
+      path = src;
+    }
+    path = path.replace(/^\.\//, '');
+    
+    const attachment = this.options.attachments?.find(candidate => candidate.path === path)
+      || this.options.attachments?.find(candidate => candidate.fileName === path);
+    const altAttrs = alt ? { alt } : {};
+    
+    if (attachment) {
+      return { id: attachment.fileId, type: 'file', collection: attachment.collection, ...altAttrs };
+    }
+    
+    if (src.startsWith('attachment:')) {
+      return { id: src.substring('attachment:'.length), type: 'file', collection: properties.collection || '', ...altAttrs };
+    }
+    
+    if (/^https?:\/\//i.test(src)) {
+      return { type: 'external', url: src, ...altAttrs };
+    }
+    
+    return null;
+  }
+  
+  private static parseImageLine(line: string): { attrs: Record<string, any>; properties: Record<string, string> } | null {
+    const match = line.trim().match(/^!\[([^\]]*)\]\(([^)\s]+)\)(?:\{([^}]*)\})?$/);
+    if (!match) return null;
+    
+    const properties: Record<string, string> = {};
+    for (const property of (match[3] || '').split(/\s+/)) {
+      const [key, ...value] = property.split('=');
+      if (key && value.length > 0) {
+        properties[key] = value.join('=');
+      }
+    }
+    
+    const attrs = this.imageToMediaAttrs(match[1], match[2], properties);
+    return attrs ? { attrs, properties } : null;
+  }
+  
   private static tableToMarkdown(node: ADFNode): string {
     if (!node.content) return '';
     
@@ -247,6 +502,13 @@ export class ADFConverter {
         i++;
       }
       
+      if (language === this.STORAGE_FENCE) {
+        return {
+          node: this.storageExtension(codeLines.join('\n')),
+          nextIndex: i + 1
+        };
+      }
+      
       return {
         node: {
           type: 'codeBlock',
@@ -290,53 +552,21 @@ export class ADFConverter {
         i++;
       }
       
-      const quoteContent = quoteLines.join('\n');
-      const { adf } = this.markdownToADF(quoteContent);
-      
       return {
         node: {
           type: 'blockquote',
-          content: adf.content
+          content: this.parseBlocks(quoteLines)
         },
         nextIndex: i
       };
     }
     
+    if (this.actionItemPattern.test(line)) {
+      return this.parseActionList(lines, startIndex);
+    }
+    
     if (line.startsWith('- ') || line.startsWith('* ') || /^\d+\. /.test(line)) {
-      const isOrdered = /^\d+\. /.test(line);
-      const items: ADFNode[] = [];
-      let i = startIndex;
-      
-      while (i < lines.length) {
-        const currentLine = lines[i];
-        const isListItem = isOrdered 
-          ? /^\d+\. /.test(currentLine)
-          : (currentLine.startsWith('- ') || currentLine.startsWith('* '));
-        
-        if (!isListItem && currentLine.trim() !== '') break;
-        if (currentLine.trim() === '') {
-          i++;
-          continue;
-        }
-        
-        const text = currentLine.replace(/^(\d+\. |- |\* )/, '');
-        items.push({
-          type: 'listItem',
-          content: [{
-            type: 'paragraph',
-            content: this.parseInlineMarkdown(text)
-          }]
-        });
-        i++;
-      }
-      
-      return {
-        node: {
-          type: isOrdered ? 'orderedList' : 'bulletList',
-          content: items
-        },
-        nextIndex: i
-      };
+      return this.parseList(lines, startIndex);
     }
     
     if (line.startsWith('| ')) {
@@ -379,6 +609,43 @@ export class ADFConverter {
       };
     }
     
+    const image = this.parseImageLine(line);
+    if (image) {
+      // Images on consecutive lines form a media group
+      const group = [image];
+      let i = startIndex + 1;
+      while (i < lines.length) {
+        const next = this.parseImageLine(lines[i]);
+        if (!next || next.attrs.type !== 'file' || image.attrs.type !== 'file') break;
+        group.push(next);
+        i++;
+      }
+      
+      if (group.length > 1) {
+        return {
+          node: {
+            type: 'mediaGroup',
+            content: group.map(item => ({ type: 'media', attrs: item.attrs }))
+          },
+          nextIndex: i
+        };
+      }
+      
+      const { layout, width, widthType } = image.properties;
+      return {
+        node: {
+          type: 'mediaSingle',
+          attrs: {
+            layout: layout || 'center',
+            ...(width && { width: Number(width) }),
+            ...(widthType && { widthType })
+          },
+          content: [{ type: 'media', attrs: image.attrs }]
+        },
+        nextIndex: startIndex + 1
+      };
+    }
+    
     if (line === '---') {
       return {
         node: { type: 'rule' },
@@ -395,6 +662,126 @@ export class ADFConverter {
     };
   }
   
+  /**
+   * Parse a bullet or ordered list starting at startIndex. Lines indented past
+   * the item marker belong to the item and are parsed as nested blocks, so
+   * items can hold further lists, extra paragraphs and code blocks.
+   */
+  private static parseList(lines: string[], startIndex: number): { node: ADFNode; nextIndex: number } {
+    const listItemPattern = /^(\s*)([-*]|\d+\.) (.*)$/;
+    const first = lines[startIndex].trimEnd().match(listItemPattern);
+    const baseIndent = first?.[1].length || 0;
+    const isOrdered = /^\d/.test(first?.[2] || '');
+    const items: ADFNode[] = [];
+    let i = startIndex;
+    
+    while (i < lines.length) {
+      const match = lines[i].trimEnd().match(listItemPattern);
+      if (!match || match[1].length !== baseIndent || /^\d/.test(match[2]) !== isOrdered) break;
+      if (this.actionItemPattern.test(lines[i].trimEnd())) break;
+      
+      const contentIndent = baseIndent + match[2].length + 1;
+      const itemLines: string[] = [];
+      i++;
+      
+      while (i < lines.length) {
+        if (lines[i].trim() === '') {
+          itemLines.push('');
+        } else if (this.indentOf(lines[i]) > baseIndent) {
+          itemLines.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      
+      // Children may be indented less than the content column (e.g. two spaces under "1.")
+      const dedent = Math.min(contentIndent, ...itemLines.filter(l => l.trim() !== '').map(l => this.indentOf(l)));
+      const children = this.parseBlocks(itemLines.map(l => l.substring(Math.min(dedent, this.indentOf(l)))));
+      
+      items.push({
+        type: 'listItem',
+        content: [
+          {
+            type: 'paragraph',
+            content: this.parseInlineMarkdown(match[3].trim())
+          },
+          ...children
+        ]
+      });
+    }
+    
+    const order = isOrdered ? parseInt(first?.[2] || '1', 10) : 1;
+    
+    return {
+      node: {
+        type: isOrdered ? 'orderedList' : 'bulletList',
+        ...(order !== 1 && { attrs: { order } }),
+        content: items
+      },
+      nextIndex: i
+    };
+  }
+  
+  private static readonly actionItemPattern = /^(\s*)[-*] (\[[ xX]\]|<>)(?: (.*))?$/;
+  
+  /**
+   * Parse a task list ("- [ ]" / "- [x]") or decision list ("- <>") starting at
+   * startIndex. Deeper-indented task items become nested task lists.
+   */
+  private static parseActionList(lines: string[], startIndex: number): { node: ADFNode; nextIndex: number } {
+    const first = lines[startIndex].trimEnd().match(this.actionItemPattern);
+    const baseIndent = first?.[1].length || 0;
+    const isDecision = first?.[2] === '<>';
+    const items: ADFNode[] = [];
+    let i = startIndex;
+    
+    while (i < lines.length) {
+      if (lines[i].trim() === '') {
+        // Blank lines only continue the list if another item of the same kind follows
+        let next = i + 1;
+        while (next < lines.length && lines[next].trim() === '') next++;
+        const nextMatch = lines[next]?.trimEnd().match(this.actionItemPattern);
+        if (!nextMatch || nextMatch[1].length < baseIndent || (nextMatch[2] === '<>') !== isDecision) break;
+        i = next;
+        continue;
+      }
+      
+      const match = lines[i].trimEnd().match(this.actionItemPattern);
+      if (!match || match[1].length < baseIndent || (match[2] === '<>') !== isDecision) break;
+      
+      if (match[1].length > baseIndent && !isDecision) {
+        const nested = this.parseActionList(lines, i);
+        items.push(nested.node);
+        i = nested.nextIndex;
+        continue;
+      }
+      
+      items.push({
+        type: isDecision ? 'decisionItem' : 'taskItem',
+        attrs: {
+          localId: crypto.randomUUID(),
+          state: isDecision ? 'DECIDED' : match[2] === '[ ]' ? 'TODO' : 'DONE'
+        },
+        content: match[3]?.trim() ? this.parseInlineMarkdown(match[3].trim()) : []
+      });
+      i++;
+    }
+    
+    return {
+      node: {
+        type: isDecision ? 'decisionList' : 'taskList',
+        attrs: { localId: crypto.randomUUID() },
+        content: items
+      },
+      nextIndex: i
+    };
+  }
+  
+  private static indentOf(line: string): number {
+    return line.match(/^\s*/)?.[0].length || 0;
+  }
+  
   private static parseInlineMarkdown(text: string): ADFNode[] {
     if (!text) return [];
     
@@ -404,7 +791,17 @@ export class ADFConverter {
     while (remaining.length > 0) {
       let match;
       
-      if ((match = remaining.match(/^\*\*([^*]+)\*\*/))) {
+      const inlineMedia = (match = remaining.match(/^!\[([^\]]*)\]\(([^)\s]+)\)/))
+        ? this.imageToMediaAttrs(match[1], match[2], {})
+        : null;
+      
+      if (match && inlineMedia?.type === 'file') {
+        nodes.push({
+          type: 'mediaInline',
+          attrs: inlineMedia
+        });
+        remaining = remaining.substring(match[0].length);
+      } else if ((match = remaining.match(/^\*\*([^*]+)\*\*/))) {
         nodes.push({
           type: 'text',
           text: match[1],
@@ -440,7 +837,7 @@ export class ADFConverter {
         });
         remaining = remaining.substring(match[0].length);
       } else {
-        const nextSpecialChar = remaining.search(/[\*`\[\~]/);
+        const nextSpecialChar = remaining.search(/[\*`\[\~]|!\[/);
         const textLength = nextSpecialChar === -1 ? remaining.length : nextSpecialChar;
         const plainText = remaining.substring(0, textLength || 1);
         
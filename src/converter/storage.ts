@@ -0,0 +1,554 @@
+import crypto from 'crypto';
+import { ADFDocument, ADFNode, ConversionOptions } from "../types/index.js";
+import { ADFConverter } from "./index.js";
+import { XhtmlParser, XhtmlNode, XhtmlElement } from "./xhtml.js";
+
+// Storage macros that render as ADF panels, and the macro each panel type is written back as
+const MACRO_PANEL_TYPES: Record<string, string> = {
+  info: 'info',
+  note: 'warning',
+  warning: 'error',
+  tip: 'success'
+};
+
+const PANEL_MACROS: Record<string, string> = {
+  info: 'info',
+  note: 'info',
+  warning: 'note',
+  error: 'warning',
+  success: 'tip'
+};
+
+const INLINE_MARKS: Record<string, string> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  u: 'underline',
+  s: 'strike',
+  del: 'strike',
+  strike: 'strike',
+  code: 'code'
+};
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'pre', 'hr', 'table',
+  'div', 'section', 'ac:structured-macro', 'ac:task-list', 'ac:layout', 'ac:layout-section', 'ac:layout-cell'
+]);
+
+type Mark = NonNullable<ADFNode['marks']>[number];
+
+/**
+ * Converts between Confluence storage format (XHTML) and ADF, so pages of
+ * deployments without ADF support go through the same Markdown pipeline.
+ * Attachments are referenced by file name, which is used as the media ID.
+ * Macros and inline markup without an ADF equivalent become extension nodes
+ * that carry their original markup, so they survive round-trips unchanged.
+ */
+export class StorageConverter {
+  // Options of the conversion in progress
+  private static options: ConversionOptions = {};
+
+  static storageToMarkdown(storage: string, metadata?: Record<string, any>, options: ConversionOptions = {}): string {
+    return ADFConverter.adfToMarkdown(this.storageToADF(storage), metadata, options);
+  }
+
+  static markdownToStorage(markdown: string, options: ConversionOptions = {}): { storage: string; metadata?: Record<string, any> } {
+    const { adf, metadata } = ADFConverter.markdownToADF(markdown, options);
+    return {
+      storage: this.adfToStorage(adf, options),
+      ...(metadata && { metadata })
+    };
+  }
+
+  static storageToADF(storage: string): ADFDocument {
+    return {
+      version: 1,
+      type: 'doc',
+      content: this.toBlocks(XhtmlParser.parse(storage))
+    };
+  }
+
+  static adfToStorage(adf: ADFDocument, options: ConversionOptions = {}): string {
+    const previous = this.options;
+    this.options = options;
+    try {
+      return adf.content.map(node => this.blockToStorage(node)).join('');
+    } finally {
+      this.options = previous;
+    }
+  }
+
+  // Storage -> ADF
+
+  private static toBlocks(nodes: XhtmlNode[]): ADFNode[] {
+    const blocks: ADFNode[] = [];
+    let inline: XhtmlNode[] = [];
+
+    // Loose inline content between blocks becomes a paragraph
+    const flush = () => {
+      const content = this.trimInline(this.toInline(inline, []));
+      if (content.length > 0) {
+        blocks.push({ type: 'paragraph', content });
+      }
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'element' && (BLOCK_ELEMENTS.has(node.name) || this.isBlockImage(node, nodes))) {
+        flush();
+        blocks.push(...this.elementToBlocks(node));
+      } else {
+        inline.push(node);
+      }
+    }
+    flush();
+
+    return blocks;
+  }
+
+  private static isBlockImage(node: XhtmlElement, siblings: XhtmlNode[]): boolean {
+    return node.name === 'ac:image' && siblings.every(sibling => sibling === node || (sibling.type === 'text' && !sibling.text.trim()));
+  }
+
+  private static elementToBlocks(element: XhtmlElement): ADFNode[] {
+    const name = element.name;
+
+    if (/^h[1-6]$/.test(name)) {
+      return [{ type: 'heading', attrs: { level: Number(name[1]) }, content: this.trimInline(this.toInline(element.children, [])) }];
+    }
+
+    switch (name) {
+      case 'p': {
+        const images = element.children.filter(child => child.type === 'element' || child.text.trim());
+        if (images.length > 0 && images.every(child => child.type === 'element' && child.name === 'ac:image')) {
+          return images.map(image => this.imageToMediaSingle(image as XhtmlElement));
+        }
+        const content = this.trimInline(this.toInline(element.children, []));
+        return [{ type: 'paragraph', ...(content.length > 0 && { content }) }];
+      }
+      case 'ul':
+      case 'ol':
+        return [this.listToADF(element)];
+      case 'blockquote':
+        return [{ type: 'blockquote', content: this.toBlocks(element.children) }];
+      case 'pre':
+        return [this.codeBlock(XhtmlParser.textContent(element))];
+      case 'hr':
+        return [{ type: 'rule' }];
+      case 'table':
+        return [this.tableToADF(element)];
+      case 'ac:structured-macro':
+        return this.macroToADF(element);
+      case 'ac:task-list':
+        return [this.taskListToADF(element)];
+      case 'ac:image':
+        return [this.imageToMediaSingle(element)];
+      default:
+        // Layout and other containers only group their content
+        return this.toBlocks(element.children);
+    }
+  }
+
+  private static listToADF(element: XhtmlElement): ADFNode {
+    const start = Number(element.attributes.start);
+    const items = element.children
+      .filter((child): child is XhtmlElement => child.type === 'element' && child.name === 'li')
+      .map(item => {
+        const content = this.toBlocks(item.children);
+        return { type: 'listItem', content: content.length > 0 ? content : [{ type: 'paragraph' }] };
+      });
+
+    return {
+      type: element.name === 'ol' ? 'orderedList' : 'bulletList',
+      ...(element.name === 'ol' && start > 1 && { attrs: { order: start } }),
+      content: items
+    };
+  }
+
+  private static tableToADF(element: XhtmlElement): ADFNode {
+    const rows: XhtmlElement[] = [];
+    const collectRows = (nodes: XhtmlNode[]) => {
+      for (const node of nodes) {
+        if (node.type !== 'element') continue;
+        if (node.name === 'tr') {
+          rows.push(node);
+        } else if (['thead', 'tbody', 'tfoot'].includes(node.name)) {
+          collectRows(node.children);
+        }
+      }
+    };
+    collectRows(element.children);
+
+    return {
+      type: 'table',
+      content: rows.map(row => ({
+        type: 'tableRow',
+        content: row.children
+          .filter((cell): cell is XhtmlElement => cell.type === 'element' && (cell.name === 'th' || cell.name === 'td'))
+          .map(cell => {
+            const content = this.toBlocks(cell.children);
+            return {
+              type: cell.name === 'th' ? 'tableHeader' : 'tableCell',
+              content: content.length > 0 ? content : [{ type: 'paragraph' }]
+            };
+          })
+      }))
+    };
+  }
+
+  private static macroToADF(element: XhtmlElement): ADFNode[] {
+    const macro = element.attributes['ac:name'];
+    const parameter = (name: string) => element.children.find((child): child is XhtmlElement =>
+      child.type === 'element' && child.name === 'ac:parameter' && child.attributes['ac:name'] === name
+    );
+    const body = XhtmlParser.findChild(element, 'ac:rich-text-body');
+
+    if (macro === 'code' || macro === 'noformat') {
+      const plainText = XhtmlParser.findChild(element, 'ac:plain-text-body');
+      const language = parameter('language');
+      return [this.codeBlock(plainText ? XhtmlParser.textContent(plainText) : '', language ? XhtmlParser.textContent(language).trim() : undefined)];
+    }
+
+    if (MACRO_PANEL_TYPES[macro]) {
+      const content = body ? this.toBlocks(body.children) : [];
+      return [{
+        type: 'panel',
+        attrs: { panelType: MACRO_PANEL_TYPES[macro] },
+        content: content.length > 0 ? content : [{ type: 'paragraph' }]
+      }];
+    }
+
+    // Other macros are kept as they are
+    return [ADFConverter.storageExtension(XhtmlParser.serialize([element]))];
+  }
+
+  private static taskListToADF(element: XhtmlElement): ADFNode {
+    const tasks = element.children.filter((child): child is XhtmlElement => child.type === 'element' && child.name === 'ac:task');
+
+    return {
+      type: 'taskList',
+      attrs: { localId: crypto.randomUUID() },
+      content: tasks.map(task => {
+        const status = XhtmlParser.findChild(task, 'ac:task-status');
+        const body = XhtmlParser.findChild(task, 'ac:task-body');
+        const content = body ? this.trimInline(this.toInline(body.children, [])) : [];
+        return {
+          type: 'taskItem',
+          attrs: {
+            localId: crypto.randomUUID(),
+            state: status && XhtmlParser.textContent(status).trim() === 'complete' ? 'DONE' : 'TODO'
+          },
+          ...(content.length > 0 && { content })
+        };
+      })
+    };
+  }
+
+  private static codeBlock(text: string, language?: string): ADFNode {
+    const code = text.replace(/^\n/, '').replace(/\n$/, '');
+    return {
+      type: 'codeBlock',
+      ...(language && { attrs: { language } }),
+      ...(code && { content: [{ type: 'text', text: code }] })
+    };
+  }
+
+  private static imageToMedia(element: XhtmlElement): ADFNode | null {
+    const attachment = XhtmlParser.findChild(element, 'ri:attachment');
+    const url = XhtmlParser.findChild(element, 'ri:url');
+    const alt = element.attributes['ac:alt'];
+
+    if (attachment?.attributes['ri:filename']) {
+      return {
+        type: 'media',
+        attrs: {
+          type: 'file',
+          id: attachment.attributes['ri:filename'],
+          collection: '',
+          ...(alt && { alt })
+        }
+      };
+    }
+
+    if (url?.attributes['ri:value']) {
+      return { type: 'media', attrs: { type: 'external', url: url.attributes['ri:value'], ...(alt && { alt }) } };
+    }
+
+    return null;
+  }
+
+  private static imageToMediaSingle(element: XhtmlElement): ADFNode {
+    const media = this.imageToMedia(element);
+    const width = Number(element.attributes['ac:width']);
+    return {
+      type: 'mediaSingle',
+      attrs: {
+        layout: element.attributes['ac:align'] === 'left' ? 'align-start' : element.attributes['ac:align'] === 'right' ? 'align-end' : 'center',
+        ...(width > 0 && { width, widthType: 'pixel' })
+      },
+      content: media ? [media] : []
+    };
+  }
+
+  private static toInline(nodes: XhtmlNode[], marks: Mark[]): ADFNode[] {
+    const content: ADFNode[] = [];
+
+    const push = (node: ADFNode) => {
+      const last = content[content.length - 1];
+      if (node.type === 'text' && last?.type === 'text' && JSON.stringify(last.marks || []) === JSON.stringify(node.marks || [])) {
+        last.text = (last.text || '') + (node.text || '');
+      } else {
+        content.push(node);
+      }
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        const text = node.text.replace(/\s+/g, ' ');
+        if (text) {
+          push({ type: 'text', text, ...(marks.length > 0 && { marks }) });
+        }
+        continue;
+      }
+
+      const mark = INLINE_MARKS[node.name];
+      if (mark) {
+        this.toInline(node.children, [...marks, { type: mark }]).forEach(push);
+      } else if (node.name === 'sub' || node.name === 'sup') {
+        this.toInline(node.children, [...marks, { type: 'subsup', attrs: { type: node.name } }]).forEach(push);
+      } else if (node.name === 'a' && node.attributes.href) {
+        this.toInline(node.children, [...marks, { type: 'link', attrs: { href: node.attributes.href } }]).forEach(push);
+      } else if (node.name === 'br') {
+        content.push({ type: 'hardBreak' });
+      } else if (node.name === 'ac:image') {
+        const media = this.imageToMedia(node);
+        if (media) {
+          content.push({ ...media, type: 'mediaInline' });
+        }
+      } else if (node.name.startsWith('ac:') && node.name !== 'ac:parameter') {
+        content.push(this.inlineStorageExtension(node, marks));
+      } else if (node.name === 'time' && node.attributes.datetime) {
+        push({ type: 'text', text: node.attributes.datetime, ...(marks.length > 0 && { marks }) });
+      } else if (node.name !== 'ac:parameter') {
+        this.toInline(node.children, marks).forEach(push);
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * Inline extension that carries Confluence markup without an ADF equivalent
+   * verbatim, such as links to pages, user mentions and inline comment
+   * markers. Its content is the visible text, so it shows in Markdown.
+   */
+  private static inlineStorageExtension(element: XhtmlElement, marks: Mark[]): ADFNode {
+    let content: ADFNode[];
+    if (element.name === 'ac:link') {
+      // Links to pages and attachments show their link body or target name
+      const body = XhtmlParser.findChild(element, 'ac:link-body');
+      const plainBody = XhtmlParser.findChild(element, 'ac:plain-text-link-body');
+      const target = element.children.find((child): child is XhtmlElement => child.type === 'element' && child.name.startsWith('ri:'));
+      const text = plainBody ? XhtmlParser.textContent(plainBody) : target?.attributes['ri:content-title'] || target?.attributes['ri:filename'] || '';
+      content = body
+        ? this.toInline(body.children, marks)
+        : text ? [{ type: 'text', text, ...(marks.length > 0 && { marks }) }] : [];
+    } else {
+      content = this.toInline(element.children, marks);
+    }
+
+    return {
+      ...ADFConverter.storageExtension(XhtmlParser.serialize([element])),
+      type: 'inlineExtension',
+      ...(content.length > 0 && { content }),
+      ...(marks.length > 0 && { marks })
+    };
+  }
+
+  // Drop the whitespace left over from the markup around inline content
+  private static trimInline(content: ADFNode[]): ADFNode[] {
+    const first = content[0];
+    if (first?.type === 'text') {
+      first.text = (first.text || '').replace(/^\s+/, '');
+    }
+    const last = content[content.length - 1];
+    if (last?.type === 'text') {
+      last.text = (last.text || '').replace(/\s+$/, '');
+    }
+    return content.filter(node => node.type !== 'text' || node.text);
+  }
+
+  // ADF -> Storage
+
+  private static blockToStorage(node: ADFNode): string {
+    const children = (nodes: ADFNode[] = []) => nodes.map(child => this.blockToStorage(child)).join('');
+
+    switch (node.type) {
+      case 'paragraph':
+        return `<p>${this.inlineToStorage(node.content)}</p>`;
+      case 'heading': {
+        const level = Math.min(Math.max(node.attrs?.level || 1, 1), 6);
+        return `<h${level}>${this.inlineToStorage(node.content)}</h${level}>`;
+      }
+      case 'bulletList':
+        return `<ul>${children(node.content)}</ul>`;
+      case 'orderedList': {
+        const order = node.attrs?.order;
+        return `<ol${order && order !== 1 ? ` start="${order}"` : ''}>${children(node.content)}</ol>`;
+      }
+      case 'listItem': {
+        // A leading paragraph is written inline, as the Confluence editor does
+        const [first, ...rest] = node.content || [];
+        const lead = first?.type === 'paragraph' ? this.inlineToStorage(first.content) : first ? this.blockToStorage(first) : '';
+        return `<li>${lead}${children(rest)}</li>`;
+      }
+      case 'blockquote':
+        return `<blockquote>${children(node.content)}</blockquote>`;
+      case 'codeBlock': {
+        const language = node.attrs?.language;
+        const text = (node.content || []).map(child => child.text || '').join('');
+        return `<ac:structured-macro ac:name="code">${language ? `<ac:parameter ac:name="language">${XhtmlParser.escapeText(language)}</ac:parameter>` : ''}<ac:plain-text-body>${XhtmlParser.cdata(text)}</ac:plain-text-body></ac:structured-macro>`;
+      }
+      case 'rule':
+        return '<hr />';
+      case 'table':
+        return `<table><tbody>${children(node.content)}</tbody></table>`;
+      case 'tableRow':
+        return `<tr>${children(node.content)}</tr>`;
+      case 'tableHeader':
+        return `<th>${children(node.content)}</th>`;
+      case 'tableCell':
+        return `<td>${children(node.content)}</td>`;
+      case 'panel': {
+        const macro = PANEL_MACROS[node.attrs?.panelType] || 'info';
+        return `<ac:structured-macro ac:name="${macro}"><ac:rich-text-body>${children(node.content)}</ac:rich-text-body></ac:structured-macro>`;
+      }
+      case 'mediaSingle':
+      case 'mediaGroup':
+        return (node.content || []).map(media => this.mediaToStorage(media, node.type === 'mediaSingle' ? node.attrs : undefined)).join('');
+      case 'taskList':
+        return this.taskListToStorage(node);
+      case 'extension':
+      case 'bodiedExtension':
+        return this.extensionToStorage(node);
+      case 'decisionList':
+        // Data Center has no decisions, so they are kept as a plain list
+        return `<ul>${(node.content || []).map(item => `<li>${this.inlineToStorage(item.content)}</li>`).join('')}</ul>`;
+      default:
+        if (node.content?.some(child => child.type === 'text' || child.type === 'hardBreak')) {
+          return `<p>${this.inlineToStorage(node.content)}</p>`;
+        }
+        return children(node.content);
+    }
+  }
+
+  // Opaque extensions are written back verbatim; other macro extensions from ADF are rebuilt from their parameters
+  private static extensionToStorage(node: ADFNode): string {
+    const parameters = node.attrs?.parameters || {};
+    if (typeof parameters.storage === 'string') {
+      return parameters.storage;
+    }
+    if (node.attrs?.extensionType !== ADFConverter.MACRO_EXTENSION_TYPE || !node.attrs?.extensionKey) {
+      return '';
+    }
+
+    const macroParams = Object.entries(parameters.macroParams || {})
+      .map(([name, param]) => `<ac:parameter ac:name="${XhtmlParser.escapeAttribute(name)}">${XhtmlParser.escapeText(String((param as { value?: unknown })?.value ?? ''))}</ac:parameter>`)
+      .join('');
+    const body = node.type === 'bodiedExtension'
+      ? `<ac:rich-text-body>${(node.content || []).map(child => this.blockToStorage(child)).join('')}</ac:rich-text-body>`
+      : '';
+    return `<ac:structured-macro ac:name="${XhtmlParser.escapeAttribute(node.attrs.extensionKey)}">${macroParams}${body}</ac:structured-macro>`;
+  }
+
+  private static taskListToStorage(node: ADFNode): string {
+    const tasks: string[] = [];
+    const collect = (list: ADFNode) => {
+      for (const item of list.content || []) {
+        if (item.type === 'taskList') {
+          collect(item);
+          continue;
+        }
+        tasks.push(`<ac:task><ac:task-id>${tasks.length + 1}</ac:task-id><ac:task-status>${item.attrs?.state === 'DONE' ? 'complete' : 'incomplete'}</ac:task-status><ac:task-body>${this.inlineToStorage(item.content)}</ac:task-body></ac:task>`);
+      }
+    };
+    collect(node);
+    return `<ac:task-list>${tasks.join('')}</ac:task-list>`;
+  }
+
+  private static mediaToStorage(media: ADFNode, containerAttrs?: Record<string, any>): string {
+    const attributes: string[] = [];
+    if (media.attrs?.alt) {
+      attributes.push(`ac:alt="${XhtmlParser.escapeAttribute(media.attrs.alt)}"`);
+    }
+    if (containerAttrs?.layout === 'align-start' || containerAttrs?.layout === 'align-end') {
+      attributes.push(`ac:align="${containerAttrs.layout === 'align-start' ? 'left' : 'right'}"`);
+    }
+    if (containerAttrs?.width && containerAttrs.widthType === 'pixel') {
+      attributes.push(`ac:width="${containerAttrs.width}"`);
+    }
+
+    const resource = media.attrs?.type === 'external'
+      ? `<ri:url ri:value="${XhtmlParser.escapeAttribute(media.attrs.url || '')}" />`
+      : `<ri:attachment ri:filename="${XhtmlParser.escapeAttribute(this.attachmentFileName(media.attrs?.id || ''))}" />`;
+
+    return `<ac:image${attributes.length > 0 ? ' ' + attributes.join(' ') : ''}>${resource}</ac:image>`;
+  }
+
+  // Media IDs of uploaded attachments map back to their file names
+  private static attachmentFileName(id: string): string {
+    return this.options.attachments?.find(attachment => attachment.fileId === id)?.fileName || id;
+  }
+
+  private static inlineToStorage(nodes: ADFNode[] = []): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return (node.marks || []).reduce((html, mark) => this.markToStorage(mark, html), XhtmlParser.escapeText(node.text || ''));
+        case 'hardBreak':
+          return '<br />';
+        case 'mediaInline':
+        case 'media':
+          return this.mediaToStorage(node);
+        case 'emoji':
+          return XhtmlParser.escapeText(node.attrs?.text || node.attrs?.shortName || '');
+        case 'mention':
+          return XhtmlParser.escapeText(node.attrs?.text || '');
+        case 'inlineCard': {
+          const url = XhtmlParser.escapeAttribute(node.attrs?.url || '');
+          return `<a href="${url}">${url}</a>`;
+        }
+        case 'inlineExtension':
+          return (node.marks || []).reduce((html, mark) => this.markToStorage(mark, html), this.extensionToStorage(node));
+        case 'status':
+          return XhtmlParser.escapeText(node.attrs?.text || '');
+        case 'date':
+          return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+        default:
+          return this.inlineToStorage(node.content);
+      }
+    }).join('');
+  }
+
+  private static markToStorage(mark: Mark, html: string): string {
+    switch (mark.type) {
+      case 'strong':
+        return `<strong>${html}</strong>`;
+      case 'em':
+        return `<em>${html}</em>`;
+      case 'underline':
+        return `<u>${html}</u>`;
+      case 'strike':
+        return `<s>${html}</s>`;
+      case 'code':
+        return `<code>${html}</code>`;
+      case 'subsup':
+        return mark.attrs?.type === 'sub' ? `<sub>${html}</sub>` : `<sup>${html}</sup>`;
+      case 'link':
+        return `<a href="${XhtmlParser.escapeAttribute(mark.attrs?.href || '')}">${html}</a>`;
+      default:
+        return html;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { ADFConverter } from "./index.js";
+import { BlockDiff } from "./block-diff.js";
+
+export interface MergeResult {
+  markdown: string;
+  conflicts: number;
+  localChanges: number;
+  remoteChanges: number;
+}
+
+export interface MergeLabels {
+  local?: string;
+  remote?: string;
+}
+
+export class ThreeWayMerge {
+  /**
+   * Merge local and remote Markdown against a common base at block level.
+   * Blocks changed on only one side are taken from that side; blocks changed
+   * differently on both sides are written with git-style conflict markers.
+   */
+  static merge(base: string, local: string, remote: string, labels: MergeLabels = {}): MergeResult {
+    const baseBlocks = ADFConverter.splitMarkdownBlocks(base);
+    const localBlocks = ADFConverter.splitMarkdownBlocks(local);
+    const remoteBlocks = ADFConverter.splitMarkdownBlocks(remote);
+
+    const normBase = baseBlocks.map(block => BlockDiff.normalize(block));
+    const normLocal = localBlocks.map(block => BlockDiff.normalize(block));
+    const normRemote = remoteBlocks.map(block => BlockDiff.normalize(block));
+
+    const localMatches = new Map(BlockDiff.match(normBase, normLocal));
+    const remoteMatches = new Map(BlockDiff.match(normBase, normRemote));
+
+    // Base blocks left untouched on both sides anchor the merge
+    const anchors: Array<[number, number, number]> = [];
+    for (let b = 0; b < baseBlocks.length; b++) {
+      const l = localMatches.get(b);
+      const r = remoteMatches.get(b);
+      if (l !== undefined && r !== undefined) {
+        anchors.push([b, l, r]);
+      }
+    }
+    anchors.push([baseBlocks.length, localBlocks.length, remoteBlocks.length]);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let localChanges = 0;
+    let remoteChanges = 0;
+    let i = 0;
+    let j = 0;
+    let k = 0;
+
+    for (const [b, l, r] of anchors) {
+      const baseRegion = normBase.slice(i, b);
+      const localRegion = normLocal.slice(j, l);
+      const remoteRegion = normRemote.slice(k, r);
+
+      const localChanged = !this.sameBlocks(baseRegion, localRegion);
+      const remoteChanged = !this.sameBlocks(baseRegion, remoteRegion);
+
+      if (!remoteChanged || this.sameBlocks(localRegion, remoteRegion)) {
+        output.push(...localBlocks.slice(j, l));
+        if (localChanged) localChanges++;
+      } else if (!localChanged) {
+        output.push(...remoteBlocks.slice(k, r));
+        remoteChanges++;
+      } else {
+        output.push(this.conflictBlock(localBlocks.slice(j, l), remoteBlocks.slice(k, r), labels));
+        conflicts++;
+      }
+
+      if (b < baseBlocks.length) {
+        output.push(localBlocks[l]);
+      }
+
+      i = b + 1;
+      j = l + 1;
+      k = r + 1;
+    }
+
+    return {
+      markdown: output.join('\n\n'),
+      conflicts,
+      localChanges,
+      remoteChanges
+    };
+  }
+
+  /**
+   * Check whether Markdown still contains unresolved conflict markers
+   */
+  static hasConflictMarkers(markdown: string): boolean {
+    return /^<{7} .*$[\s\S]*?^={7}$[\s\S]*?^>{7} /m.test(markdown);
+  }
+
+  private static sameBlocks(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((block, index) => block === b[index]);
+  }
+
+  private static conflictBlock(local: string[], remote: string[], labels: MergeLabels): string {
+    return [
+      `<<<<<<< ${labels.local || 'local'}`,
+      ...(local.length > 0 ? [local.join('\n\n')] : []),
+      '=======',
+      ...(remote.length > 0 ? [remote.join('\n\n')] : []),
+      `>>>>>>> ${labels.remote || 'remote'}`
+    ].join('\n');
+  }
+}
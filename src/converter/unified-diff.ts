@@ -0,0 +1,102 @@
+import { BlockDiff } from "./block-diff.js";
+
+export interface UnifiedDiffResult {
+  // Empty when the texts have the same lines
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface UnifiedDiffLabels {
+  old: string;
+  new: string;
+}
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number };
+
+export class UnifiedDiff {
+  /**
+   * Line-based diff of two texts in the unified format, with the given lines
+   * of context around each change. Trailing whitespace is ignored.
+   */
+  static create(oldText: string, newText: string, labels: UnifiedDiffLabels, context: number = 3): UnifiedDiffResult {
+    const oldLines = this.splitLines(oldText);
+    const newLines = this.splitLines(newText);
+    const lines = this.diffLines(oldLines, newLines);
+
+    const additions = lines.filter(line => line.type === '+').length;
+    const deletions = lines.filter(line => line.type === '-').length;
+    if (additions === 0 && deletions === 0) {
+      return { diff: '', additions, deletions };
+    }
+
+    const output = [`--- ${labels.old}`, `+++ ${labels.new}`];
+    for (const hunk of this.hunks(lines, context)) {
+      const first = hunk[0];
+      const oldCount = hunk.filter(line => line.type !== '+').length;
+      const newCount = hunk.filter(line => line.type !== '-').length;
+      // Empty ranges name the line before them, as in diff -u
+      const oldStart = oldCount === 0 ? first.oldLine - 1 : first.oldLine;
+      const newStart = newCount === 0 ? first.newLine - 1 : first.newLine;
+      output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+      output.push(...hunk.map(line => `${line.type}${line.text}`));
+    }
+
+    return { diff: output.join('\n'), additions, deletions };
+  }
+
+  private static splitLines(text: string): string[] {
+    const normalized = BlockDiff.normalize(text);
+    return normalized ? normalized.split('\n') : [];
+  }
+
+  private static diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+
+    const matches = [...BlockDiff.match(oldLines, newLines), [oldLines.length, newLines.length]];
+    for (const [oldIndex, newIndex] of matches) {
+      for (; i < oldIndex; i++) {
+        lines.push({ type: '-', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      }
+      for (; j < newIndex; j++) {
+        lines.push({ type: '+', text: newLines[j], oldLine: i + 1, newLine: j + 1 });
+      }
+      if (i < oldLines.length && j < newLines.length) {
+        lines.push({ type: ' ', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+        i++;
+        j++;
+      }
+    }
+
+    return lines;
+  }
+
+  // Group changed lines with their context, merging groups whose context overlaps
+  private static hunks(lines: DiffLine[], context: number): DiffLine[][] {
+    const hunks: DiffLine[][] = [];
+    let start = -1;
+    let end = -1;
+
+    lines.forEach((line, index) => {
+      if (line.type === ' ') {
+        return;
+      }
+      const from = Math.max(0, index - context);
+      if (start !== -1 && from > end + 1) {
+        hunks.push(lines.slice(start, end + 1));
+        start = -1;
+      }
+      if (start === -1) {
+        start = from;
+      }
+      end = Math.min(lines.length - 1, index + context);
+    });
+    if (start !== -1) {
+      hunks.push(lines.slice(start, end + 1));
+    }
+
+    return hunks;
+  }
+}
@@ -0,0 +1,181 @@
+export interface XhtmlElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: XhtmlNode[];
+}
+
+export interface XhtmlText {
+  type: 'text';
+  text: string;
+}
+
+export type XhtmlNode = XhtmlElement | XhtmlText;
+
+// HTML elements that never have a closing tag
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'col', 'input', 'meta', 'link', 'area', 'base', 'wbr']);
+
+// Named entities seen in Confluence storage format besides the XML ones
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  times: '×',
+  rarr: '→',
+  larr: '←'
+};
+
+/**
+ * Minimal parser for Confluence storage format. Storage format is XHTML with
+ * ac: and ri: namespaced elements; the parser is lenient about unclosed and
+ * stray tags so hand-edited pages still convert.
+ */
+export class XhtmlParser {
+  private static readonly tagPattern = /<([A-Za-z][\w:.-]*)((?:\s+[\w:.-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>\/=]+))?)*)\s*(\/?)>/y;
+  private static readonly attributePattern = /([\w:.-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>\/=]+)))?/g;
+
+  static parse(input: string): XhtmlNode[] {
+    const root: XhtmlElement = { type: 'element', name: '#root', attributes: {}, children: [] };
+    const stack: XhtmlElement[] = [root];
+    let i = 0;
+
+    const appendText = (text: string) => {
+      if (!text) return;
+      const siblings = stack[stack.length - 1].children;
+      const last = siblings[siblings.length - 1];
+      if (last?.type === 'text') {
+        last.text += text;
+      } else {
+        siblings.push({ type: 'text', text });
+      }
+    };
+
+    while (i < input.length) {
+      const start = input.indexOf('<', i);
+      if (start === -1) {
+        appendText(this.decodeEntities(input.slice(i)));
+        break;
+      }
+      appendText(this.decodeEntities(input.slice(i, start)));
+
+      if (input.startsWith('<!--', start)) {
+        const end = input.indexOf('-->', start + 4);
+        i = end === -1 ? input.length : end + 3;
+        continue;
+      }
+
+      if (input.startsWith('<![CDATA[', start)) {
+        const end = input.indexOf(']]>', start + 9);
+        appendText(input.slice(start + 9, end === -1 ? input.length : end));
+        i = end === -1 ? input.length : end + 3;
+        continue;
+      }
+
+      if (input.startsWith('<!', start) || input.startsWith('<?', start)) {
+        const end = input.indexOf('>', start);
+        i = end === -1 ? input.length : end + 1;
+        continue;
+      }
+
+      if (input.startsWith('</', start)) {
+        const end = input.indexOf('>', start);
+        const name = input.slice(start + 2, end === -1 ? input.length : end).trim();
+        // Close up to the matching element; stray closing tags are ignored
+        const index = stack.map(element => element.name).lastIndexOf(name);
+        if (index > 0) {
+          stack.length = index;
+        }
+        i = end === -1 ? input.length : end + 1;
+        continue;
+      }
+
+      this.tagPattern.lastIndex = start;
+      const match = this.tagPattern.exec(input);
+      if (!match) {
+        appendText('<');
+        i = start + 1;
+        continue;
+      }
+
+      const [tag, name, attributeText, selfClosing] = match;
+      const element: XhtmlElement = { type: 'element', name, attributes: this.parseAttributes(attributeText), children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing && !VOID_ELEMENTS.has(name.toLowerCase())) {
+        stack.push(element);
+      }
+      i = start + tag.length;
+    }
+
+    return root.children;
+  }
+
+  static escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  static escapeAttribute(value: string): string {
+    return this.escapeText(value).replace(/"/g, '&quot;');
+  }
+
+  // Wrap text in CDATA, splitting any ]]> it contains
+  static cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+  }
+
+  // Write nodes back as storage format; plain text bodies keep their CDATA wrapping
+  static serialize(nodes: XhtmlNode[], parent?: XhtmlElement): string {
+    return nodes.map(node => {
+      if (node.type === 'text') {
+        return parent?.name === 'ac:plain-text-body' || parent?.name === 'ac:plain-text-link-body' ? this.cdata(node.text) : this.escapeText(node.text);
+      }
+
+      const attributes = Object.entries(node.attributes).map(([name, value]) => ` ${name}="${this.escapeAttribute(value)}"`).join('');
+      return node.children.length > 0
+        ? `<${node.name}${attributes}>${this.serialize(node.children, node)}</${node.name}>`
+        : `<${node.name}${attributes} />`;
+    }).join('');
+  }
+
+  // Concatenated text of a node and its descendants
+  static textContent(node: XhtmlNode): string {
+    return node.type === 'text' ? node.text : node.children.map(child => this.textContent(child)).join('');
+  }
+
+  static findChild(element: XhtmlElement, name: string): XhtmlElement | undefined {
+    return element.children.find((child): child is XhtmlElement => child.type === 'element' && child.name === name);
+  }
+
+  private static parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(this.attributePattern)) {
+      attributes[match[1]] = this.decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        // Code points past the Unicode range stay as written
+        return code <= 0x10FFFF ? String.fromCodePoint(code) : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+  }
+}
@@ -0,0 +1,195 @@
+import { join, dirname, basename, extname, posix, relative, resolve, isAbsolute, sep } from 'path';
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import { readFile } from 'fs/promises';
+import { ConfluenceClient } from "../client/confluence.js";
+import { ADFDocument, ADFNode, PageAttachment } from "../types/index.js";
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp'
+};
+
+// Block and inline media both reference attachments by file ID
+const MEDIA_NODES = new Set(['media', 'mediaInline']);
+
+export class AssetManager {
+  // Assets live in an assets/ folder next to the Markdown file
+  static readonly ASSETS_DIRECTORY = 'assets';
+
+  // Content hash used to detect changed local images
+  static hash(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+
+  // Collect the media file IDs referenced anywhere in an ADF document
+  static collectMediaIds(adf: ADFDocument): Set<string> {
+    const ids = new Set<string>();
+    const visit = (nodes: ADFNode[]) => {
+      for (const node of nodes) {
+        if (MEDIA_NODES.has(node.type) && node.attrs?.id) {
+          ids.add(node.attrs.id);
+        }
+        visit(node.content || []);
+      }
+    };
+    visit(adf.content);
+    return ids;
+  }
+
+  // Download the attachments shown on a page into assets/<pageId>/ next to the Markdown file
+  static async downloadPageAttachments(client: ConfluenceClient, pageId: string, filePath: string, adf: ADFDocument): Promise<PageAttachment[]> {
+    const mediaIds = this.collectMediaIds(adf);
+    if (mediaIds.size === 0) {
+      return [];
+    }
+
+    const { results } = await client.getAttachments(pageId);
+    const attachments: PageAttachment[] = [];
+
+    for (const attachment of results) {
+      // Storage format pages reference attachments by file name instead of media file ID
+      const fileId = [attachment.extensions?.fileId, attachment.title].find(id => id && mediaIds.has(id));
+      if (!fileId) continue;
+
+      const safeName = attachment.title.replace(/[\\/:*?"<>|]+/g, '-');
+      const path = posix.join(this.ASSETS_DIRECTORY, pageId, safeName);
+      const data = await client.downloadAttachment(attachment._links.download);
+      await fs.outputFile(join(dirname(filePath), path), data);
+
+      attachments.push({
+        id: attachment.id,
+        fileName: attachment.title,
+        path,
+        fileId,
+        collection: attachment.extensions?.collectionName || `contentId-${pageId}`,
+        hash: this.hash(data)
+      });
+    }
+
+    return attachments;
+  }
+
+  // Whether a relative path stays inside the folder of the Markdown file, which holds its assets/ folder
+  private static isInsideFolder(filePath: string, path: string): boolean {
+    const folder = resolve(dirname(filePath));
+    const target = relative(folder, resolve(folder, path));
+    return target !== '' && target !== '..' && !target.startsWith(`..${sep}`) && !isAbsolute(target);
+  }
+
+  // Find local image files referenced with Markdown image syntax, as paths relative to the Markdown file.
+  // Only image types inside the Markdown file's folder are returned, since page text downloaded from
+  // Confluence could otherwise point an upload at any file on disk.
+  static async findLocalImages(markdown: string, filePath: string): Promise<string[]> {
+    const paths: string[] = [];
+
+    for (const match of markdown.matchAll(/!\[[^\]]*\]\(([^)\s]+)\)/g)) {
+      const src = match[1];
+      // Skip remote URLs, data URIs and absolute paths
+      if (/^[a-z][a-z0-9+.-]*:/i.test(src) || src.startsWith('/')) continue;
+
+      let path: string;
+      try {
+        path = posix.normalize(decodeURI(src));
+      } catch (error) {
+        continue;
+      }
+
+      if (!MEDIA_TYPES[extname(path).toLowerCase()]) {
+        console.warn(`Skipping ${src} in ${filePath}: not a supported image type`);
+        continue;
+      }
+      if (!this.isInsideFolder(filePath, path)) {
+        console.warn(`Skipping ${src} in ${filePath}: images must be inside the folder of the Markdown file`);
+        continue;
+      }
+
+      if (!paths.includes(path) && await fs.pathExists(join(dirname(filePath), path))) {
+        paths.push(path);
+      }
+    }
+
+    return paths;
+  }
+
+  // Check whether any local image is new or differs from the attachment it was synced with
+  static async hasChangedImages(markdown: string, filePath: string, known: PageAttachment[]): Promise<boolean> {
+    for (const path of await this.findLocalImages(markdown, filePath)) {
+      const attachment = known.find(candidate => candidate.path === path);
+      if (!attachment || attachment.hash !== this.hash(await readFile(join(dirname(filePath), path)))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Upload local images that are new or changed since the last sync and return the updated attachment list
+  static async uploadLocalImages(client: ConfluenceClient, pageId: string, filePath: string, markdown: string, known: PageAttachment[]): Promise<{ attachments: PageAttachment[]; uploaded: number }> {
+    const attachments = [...known];
+    let uploaded = 0;
+
+    for (const path of await this.findLocalImages(markdown, filePath)) {
+      const data = await readFile(join(dirname(filePath), path));
+      const hash = this.hash(data);
+      const index = attachments.findIndex(attachment => attachment.path === path);
+
+      if (index !== -1 && attachments[index].hash === hash) continue;
+
+      const fileName = basename(path);
+      const attachment = await client.uploadAttachment(pageId, fileName, data, MEDIA_TYPES[extname(path).toLowerCase()]);
+      const fileId = attachment.extensions?.fileId;
+      if (!fileId) {
+        throw new Error(`Confluence did not return a media file ID for ${path}`);
+      }
+
+      const record: PageAttachment = {
+        id: attachment.id,
+        fileName: attachment.title || fileName,
+        path,
+        fileId,
+        collection: attachment.extensions?.collectionName || `contentId-${pageId}`,
+        hash
+      };
+
+      if (index === -1) {
+        attachments.push(record);
+      } else {
+        attachments[index] = record;
+      }
+      uploaded++;
+    }
+
+    return { attachments, uploaded };
+  }
+
+  // Point media nodes at the current version of re-uploaded attachments
+  static updateMediaReferences(adf: ADFDocument, previous: PageAttachment[], current: PageAttachment[]): ADFDocument {
+    const replacements = new Map<string, PageAttachment>();
+    for (const attachment of previous) {
+      const updated = current.find(candidate => candidate.path === attachment.path);
+      if (updated && updated.fileId !== attachment.fileId) {
+        replacements.set(attachment.fileId, updated);
+      }
+    }
+
+    if (replacements.size === 0) {
+      return adf;
+    }
+
+    const update = (node: ADFNode): ADFNode => {
+      const replacement = MEDIA_NODES.has(node.type) ? replacements.get(node.attrs?.id) : undefined;
+      return {
+        ...node,
+        ...(replacement && { attrs: { ...node.attrs, id: replacement.fileId, collection: replacement.collection } }),
+        ...(node.content && { content: node.content.map(update) })
+      };
+    };
+
+    return { ...adf, content: adf.content.map(update) };
+  }
+}
@@ -1,8 +1,9 @@
 import { join, resolve, basename } from 'path';
 import { homedir } from 'os';
+import { createHash } from 'crypto';
 import * as fs from 'fs-extra';
 import { existsSync } from 'fs';
-import { ManagedFile, FileManagerConfig } from "../types/index.js";
+import { ManagedFile, FileManagerConfig, FileMetadata } from "../types/index.js";
 
 export class FileManager {
   private static config: FileManagerConfig = {};
@@ -57,6 +58,40 @@ export class FileManager {
     return match ? match[1] : null;
   }
   
+  // Get the folder holding the child pages of a managed Markdown file
+  static getChildDirectory(filePath: string): string {
+    return filePath.replace(/\.md$/, '');
+  }
+  
+  // Get the folder a whole space is downloaded into
+  static getSpaceDirectory(spaceKey: string, targetDir?: string): string {
+    const safeKey = spaceKey.replace(/[^a-z0-9_~-]+/gi, '-');
+    return join(targetDir || this.getBaseDirectory(), safeKey);
+  }
+  
+  // Get metadata path for a managed Markdown file
+  static getMetadataPath(filePath: string): string {
+    return filePath.replace(/\.md$/, '.meta.json');
+  }
+  
+  // Read metadata file, returning null when missing or unreadable
+  static async readMetadata(metadataPath: string): Promise<FileMetadata | null> {
+    if (!await fs.pathExists(metadataPath)) {
+      return null;
+    }
+    
+    try {
+      return JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+  }
+  
+  // Hash of a Markdown file as last downloaded or uploaded, used to detect local edits
+  static contentHash(content: string): string {
+    return createHash('sha256').update(content, 'utf-8').digest('hex');
+  }
+  
   // Get display-friendly path
   static getDisplayPath(fullPath: string): string {
     const baseDir = this.getBaseDirectory();
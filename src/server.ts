@@ -3,13 +3,26 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { authManager } from "./auth/manager.js";
+import { tokenStorage } from "./auth/token-storage.js";
+import { isReadOnlyMode } from "./auth/scopes.js";
+import { getRequestPipeline } from "./client/request-pipeline.js";
+import { ToolHandler } from "./types/index.js";
 
 // Import tool handlers
-import { createOAuthTools } from "./tools/oauth.js";
+import { createOAuthTools, restoreOAuthSession } from "./tools/oauth.js";
+import { createAuthenticateTool } from "./tools/auth.js";
+import { createSiteTools, withSiteOverride } from "./tools/sites.js";
+import { createManageProfilesTool } from "./tools/profiles.js";
 import { createDownloadPageTool } from "./tools/download-page.js";
+import { createDownloadTreeTool } from "./tools/download-tree.js";
 import { createUploadPageTool } from "./tools/upload-page.js";
+import { createSyncDirectoryTool } from "./tools/sync-directory.js";
+import { createMergePageTool } from "./tools/merge-page.js";
 import { createCrudTools } from "./tools/crud.js";
 import { createSearchTools } from "./tools/search.js";
+import { createHistoryTools } from "./tools/history.js";
+import { withErrorDetails } from "./tools/errors.js";
 
 // Create MCP server
 const server = new McpServer({
@@ -17,75 +30,199 @@ const server = new McpServer({
   version: "0.2.0"
 });
 
-// Register OAuth tools
-const oauthTools = createOAuthTools();
-for (const tool of oauthTools) {
+// Read-only deployments (CONFLUENCE_READ_ONLY=true) do not register tools that change Confluence content
+const MUTATING_TOOLS = new Set(["confluence_upload_page", "confluence_sync_directory", "confluence_delete_page", "confluence_restore_version"]);
+
+// Registered from main() so that invalid settings are reported like any other startup failure
+function registerTools(readOnly: boolean) {
+  const isAllowed = (tool: ToolHandler) => !readOnly || !MUTATING_TOOLS.has(tool.name);
+
+  // Register OAuth tools
+  const oauthTools = createOAuthTools();
+  for (const tool of oauthTools) {
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      },
+      withErrorDetails(tool).handler
+    );
+  }
+
+  // Register authenticate tool
+  const authenticateTool = createAuthenticateTool();
   server.registerTool(
-    tool.name,
+    authenticateTool.name,
     {
-      title: tool.title,
-      description: tool.description,
-      inputSchema: tool.inputSchema
+      title: authenticateTool.title,
+      description: authenticateTool.description,
+      inputSchema: authenticateTool.inputSchema
     },
-    tool.handler
+    withErrorDetails(authenticateTool).handler
   );
-}
 
-// Register download page tool
-const downloadTool = createDownloadPageTool();
-server.registerTool(
-  downloadTool.name,
-  {
-    title: downloadTool.title,
-    description: downloadTool.description,
-    inputSchema: downloadTool.inputSchema
-  },
-  downloadTool.handler
-);
-
-// Register upload page tool
-const uploadTool = createUploadPageTool();
-server.registerTool(
-  uploadTool.name,
-  {
-    title: uploadTool.title,
-    description: uploadTool.description,
-    inputSchema: uploadTool.inputSchema
-  },
-  uploadTool.handler
-);
-
-// Register CRUD tools
-const crudTools = createCrudTools();
-for (const tool of crudTools) {
+  // Register profile tool
+  const profilesTool = createManageProfilesTool();
   server.registerTool(
-    tool.name,
+    profilesTool.name,
     {
-      title: tool.title,
-      description: tool.description,
-      inputSchema: tool.inputSchema
+      title: profilesTool.title,
+      description: profilesTool.description,
+      inputSchema: profilesTool.inputSchema
     },
-    tool.handler
+    withErrorDetails(profilesTool).handler
   );
-}
 
-// Register search tools
-const searchTools = createSearchTools();
-for (const tool of searchTools) {
+  // Register site selection tools
+  const siteTools = createSiteTools();
+  for (const tool of siteTools) {
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      },
+      withErrorDetails(tool).handler
+    );
+  }
+
+  // Confluence tools below accept a per-call site override
+
+  // Register download page tool
+  const downloadTool = withSiteOverride(createDownloadPageTool());
   server.registerTool(
-    tool.name,
+    downloadTool.name,
     {
-      title: tool.title,
-      description: tool.description,
-      inputSchema: tool.inputSchema
+      title: downloadTool.title,
+      description: downloadTool.description,
+      inputSchema: downloadTool.inputSchema
     },
-    tool.handler
+    withErrorDetails(downloadTool).handler
   );
+
+  // Register download tree tool
+  const downloadTreeTool = withSiteOverride(createDownloadTreeTool());
+  server.registerTool(
+    downloadTreeTool.name,
+    {
+      title: downloadTreeTool.title,
+      description: downloadTreeTool.description,
+      inputSchema: downloadTreeTool.inputSchema
+    },
+    withErrorDetails(downloadTreeTool).handler
+  );
+
+  // Register upload page tool
+  const uploadTool = withSiteOverride(createUploadPageTool());
+  if (isAllowed(uploadTool)) {
+    server.registerTool(
+      uploadTool.name,
+      {
+        title: uploadTool.title,
+        description: uploadTool.description,
+        inputSchema: uploadTool.inputSchema
+      },
+      withErrorDetails(uploadTool).handler
+    );
+  }
+
+  // Register sync directory tool
+  const syncTool = withSiteOverride(createSyncDirectoryTool());
+  if (isAllowed(syncTool)) {
+    server.registerTool(
+      syncTool.name,
+      {
+        title: syncTool.title,
+        description: syncTool.description,
+        inputSchema: syncTool.inputSchema
+      },
+      withErrorDetails(syncTool).handler
+    );
+  }
+
+  // Register merge page tool
+  const mergeTool = withSiteOverride(createMergePageTool());
+  server.registerTool(
+    mergeTool.name,
+    {
+      title: mergeTool.title,
+      description: mergeTool.description,
+      inputSchema: mergeTool.inputSchema
+    },
+    withErrorDetails(mergeTool).handler
+  );
+
+  // Register CRUD tools
+  const crudTools = createCrudTools().filter(isAllowed).map(withSiteOverride);
+  for (const tool of crudTools) {
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      },
+      withErrorDetails(tool).handler
+    );
+  }
+
+  // Register search tools
+  const searchTools = createSearchTools().map(withSiteOverride);
+  for (const tool of searchTools) {
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      },
+      withErrorDetails(tool).handler
+    );
+  }
+
+  // Register page history tools
+  const historyTools = createHistoryTools().filter(isAllowed).map(withSiteOverride);
+  for (const tool of historyTools) {
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      },
+      withErrorDetails(tool).handler
+    );
+  }
 }
 
 // Start server
 async function main() {
   try {
+    // Profile whose stored OAuth tokens this session uses
+    if (process.env.CONFLUENCE_PROFILE) {
+      tokenStorage.setProfile(process.env.CONFLUENCE_PROFILE);
+      console.error(`Using authentication profile ${tokenStorage.getProfile()}`);
+    }
+
+    // Settings read from the environment are checked before anything is registered
+    const readOnly = isReadOnlyMode();
+    getRequestPipeline();
+    registerTools(readOnly);
+
+    if (readOnly) {
+      console.error(`Read-only mode: ${[...MUTATING_TOOLS].join(', ')} are disabled and only read scopes are requested`);
+    }
+
+    // API token or personal access token from the environment replaces OAuth
+    if (authManager.configureFromEnvironment()) {
+      console.error(`Using ${authManager.getMethod()} authentication for ${authManager.getBaseUrl()} (${authManager.getDeployment()})`);
+    } else if (await restoreOAuthSession()) {
+      console.error(`Restored OAuth session for ${authManager.getBaseUrl()}`);
+    }
+    
     const transport = new StdioServerTransport();
     await server.connect(transport);
     
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { authManager } from "../auth/manager.js";
+import { ApiTokenStrategy, PersonalAccessTokenStrategy } from "../auth/strategies.js";
+import { ConfluenceClient } from "../client/confluence.js";
+import { ToolHandler, ToolError, AuthStrategy } from "../types/index.js";
+import { toolError } from "./errors.js";
+
+const authenticateSchema = z.object({
+  method: z.enum(["api_token", "pat", "oauth"]).default("api_token").describe("Authentication method: 'api_token' (email + API token, Confluence Cloud), 'pat' (personal access token, Data Center/Server) or 'oauth' (switch back to the OAuth session from confluence_oauth_init)"),
+  baseUrl: z.string().url().optional().describe("Confluence site URL, e.g. https://your-domain.atlassian.net (required for api_token and pat)"),
+  email: z.string().min(1).optional().describe("Atlassian account email, or the username on Data Center/Server (required for api_token)"),
+  token: z.string().min(1).optional().describe("API token or personal access token (required for api_token and pat); the password on Data Center/Server"),
+  deployment: z.enum(["cloud", "datacenter"]).optional().describe("Site type: 'cloud' (default for api_token) or 'datacenter' for Data Center/Server (default for pat)")
+});
+
+/**
+ * Build the strategy for the requested token method
+ */
+function createTokenStrategy({ method, baseUrl, email, token, deployment }: z.infer<typeof authenticateSchema>): AuthStrategy {
+  if (!baseUrl || !token) {
+    throw new ToolError(`baseUrl and token are required for ${method} authentication`);
+  }
+
+  if (method === "api_token") {
+    if (!email) {
+      throw new ToolError("email is required for api_token authentication");
+    }
+    return new ApiTokenStrategy({ baseUrl, email, apiToken: token, ...(deployment && { deployment }) });
+  }
+
+  return new PersonalAccessTokenStrategy({ baseUrl, token, ...(deployment && { deployment }) });
+}
+
+/**
+ * Authenticate with an API token or personal access token
+ */
+export function createAuthenticateTool(): ToolHandler<z.infer<typeof authenticateSchema>> {
+  return {
+    name: "confluence_authenticate",
+    title: "Authenticate with Confluence",
+    description: "Authenticate with an email + API token (Confluence Cloud) or a personal access token (Data Center/Server) instead of OAuth. The credentials are checked against the site and kept in memory for this session. Use method 'oauth' to switch back to an OAuth session.",
+    inputSchema: authenticateSchema.shape,
+    handler: async (params) => {
+      try {
+        const options = authenticateSchema.parse(params);
+
+        if (options.method === "oauth") {
+          authManager.clear();
+          return {
+            content: [{
+              type: "text",
+              text: authManager.isAuthenticated()
+                ? "✅ **Using OAuth Authentication**\n\nRequests now use the OAuth session."
+                : "⏳ **Switched to OAuth Authentication**\n\nNo OAuth session yet. Run 'confluence_oauth_init' and 'confluence_oauth_complete' to sign in."
+            }]
+          };
+        }
+
+        const previous = authManager.getStrategy();
+        const strategy = createTokenStrategy(options);
+        authManager.setStrategy(strategy);
+
+        // Keep the previous credentials when the new ones are rejected
+        const testResult = await new ConfluenceClient().testConnection();
+        if (!testResult.success) {
+          authManager.setStrategy(previous);
+          throw new ToolError(`Connection test failed: ${testResult.error}`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ **Authentication Successful**
+
+🔐 **Method:** ${options.method === "api_token" ? `API token (${options.email})` : 'Personal access token'}
+🌐 **Site:** ${strategy.getBaseUrl()} (${strategy.deployment === 'datacenter' ? 'Data Center/Server' : 'Cloud'})
+⚡ **Ready:** You can now use all Confluence tools`
+          }]
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("authenticate", error);
+      }
+    }
+  };
+}
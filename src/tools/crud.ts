@@ -2,6 +2,7 @@ import { z } from "zod";
 import { authManager } from "../auth/manager.js";
 import { ConfluenceClient } from "../client/confluence.js";
 import { ToolHandler, ToolError } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
 
 // Get Page tool
 const getPageSchema = z.object({
@@ -19,7 +20,7 @@ function createGetPageTool(): ToolHandler<z.infer<typeof getPageSchema>> {
         const { pageId } = getPageSchema.parse(params);
         
         if (!authManager.isAuthenticated()) {
-          throw new ToolError("Not authenticated. Please authenticate first using confluence_authenticate.");
+          throw notAuthenticatedError();
         }
         
         const client = new ConfluenceClient();
@@ -42,7 +43,7 @@ function createGetPageTool(): ToolHandler<z.infer<typeof getPageSchema>> {
           throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
         }
         
-        throw new ToolError(`Failed to get page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("get page", error);
       }
     }
   };
@@ -64,7 +65,7 @@ function createDeletePageTool(): ToolHandler<z.infer<typeof deletePageSchema>> {
         const { pageId } = deletePageSchema.parse(params);
         
         if (!authManager.isAuthenticated()) {
-          throw new ToolError("Not authenticated. Please authenticate first using confluence_authenticate.");
+          throw notAuthenticatedError();
         }
         
         const client = new ConfluenceClient();
@@ -86,7 +87,7 @@ function createDeletePageTool(): ToolHandler<z.infer<typeof deletePageSchema>> {
           throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
         }
         
-        throw new ToolError(`Failed to delete page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("delete page", error);
       }
     }
   };
@@ -108,7 +109,7 @@ function createListSpacesTool(): ToolHandler<z.infer<typeof listSpacesSchema>> {
         const { limit } = listSpacesSchema.parse(params);
         
         if (!authManager.isAuthenticated()) {
-          throw new ToolError("Not authenticated. Please authenticate first using confluence_authenticate.");
+          throw notAuthenticatedError();
         }
         
         const client = new ConfluenceClient();
@@ -141,7 +142,7 @@ function createListSpacesTool(): ToolHandler<z.infer<typeof listSpacesSchema>> {
           throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
         }
         
-        throw new ToolError(`Failed to list spaces: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("list spaces", error);
       }
     }
   };
@@ -3,69 +3,112 @@ import * as fs from "fs-extra";
 import { authManager } from "../auth/manager.js";
 import { ConfluenceClient } from "../client/confluence.js";
 import { FileManager } from "../filemanager/index.js";
+import { AssetManager } from "../filemanager/assets.js";
 import { ADFConverter } from "../converter/index.js";
-import { ToolHandler, ToolError, FileMetadata } from "../types/index.js";
+import { StorageConverter } from "../converter/storage.js";
+import { ToolHandler, ToolError, FileMetadata, ConfluenceContent, PageAttachment, ContentFormat, ADFDocument } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
 
 const downloadSchema = z.object({
   pageId: z.string().min(1).describe("Confluence page ID to download"),
-  targetDirectory: z.string().optional().describe("Target directory for downloaded file (optional)")
+  targetDirectory: z.string().optional().describe("Target directory for downloaded file (optional)"),
+  format: z.enum(["adf", "storage"]).optional().describe("Page body to convert: 'adf' or 'storage' (XHTML storage format, keeps unsupported macros as opaque blocks) (default: adf)")
 });
 
+export interface DownloadedPage {
+  page: ConfluenceContent;
+  filePath: string;
+  attachments: PageAttachment[];
+}
+
+/**
+ * Read the page body in the requested format as ADF. Storage format goes
+ * through the storage to ADF bridge.
+ */
+export function readPageADF(page: ConfluenceContent, format: ContentFormat): ADFDocument {
+  if (format === 'storage') {
+    if (page.body?.storage?.value === undefined) {
+      throw new ToolError(`Page ${page.id} does not have storage format content or is not accessible`);
+    }
+    return StorageConverter.storageToADF(page.body.storage.value);
+  }
+  
+  if (!page.body?.atlas_doc_format?.value) {
+    throw new ToolError(`Page ${page.id} does not have ADF content or is not accessible`);
+  }
+  
+  try {
+    return JSON.parse(page.body.atlas_doc_format.value);
+  } catch (error) {
+    throw new ToolError(`Failed to parse ADF content: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
+  }
+}
+
+/**
+ * Download a page and the attachments it shows into a managed Markdown file
+ */
+export async function downloadPageToFile(client: ConfluenceClient, pageId: string, targetDirectory?: string, format: ContentFormat = 'adf'): Promise<DownloadedPage> {
+  // Fetch page content in the requested format
+  const page = await client.getContent(pageId, [format === 'storage' ? 'body.storage' : 'body.atlas_doc_format', 'space', 'version']);
+  const adfDocument = readPageADF(page, format);
+  
+  // Create managed file
+  const managedFile = await FileManager.createManagedFile(pageId, page.title, targetDirectory);
+  
+  // Save images and other media shown on the page next to the Markdown file
+  const attachments = await AssetManager.downloadPageAttachments(client, pageId, managedFile.filePath, adfDocument);
+  
+  // Convert ADF to Markdown with metadata
+  const metadata: FileMetadata = {
+    pageId: page.id,
+    title: page.title,
+    spaceKey: page.space.key,
+    originalADF: format === 'adf' && page.body?.atlas_doc_format ? page.body.atlas_doc_format.value : JSON.stringify(adfDocument),
+    ...(format === 'storage' && { format }),
+    version: page.version.number,
+    versionWhen: page.version.when,
+    ...(attachments.length > 0 && { attachments })
+  };
+  
+  const markdown = ADFConverter.adfToMarkdown(adfDocument, metadata, { attachments });
+  
+  // Write files
+  await fs.outputFile(managedFile.filePath, markdown, 'utf-8');
+  await fs.outputFile(managedFile.metadataPath, JSON.stringify({ ...metadata, contentHash: FileManager.contentHash(markdown) }, null, 2), 'utf-8');
+  
+  return {
+    page,
+    filePath: managedFile.filePath,
+    attachments
+  };
+}
+
 export function createDownloadPageTool(): ToolHandler<z.infer<typeof downloadSchema>> {
   return {
     name: "confluence_download_page",
     title: "Download Confluence Page",
-    description: "Download a Confluence page as Markdown with metadata, converting from ADF format.",
+    description: "Download a Confluence page as Markdown with metadata, converting from ADF or storage format. Images and other media on the page are saved to an assets/ folder next to the Markdown file.",
     inputSchema: {
       pageId: z.string().min(1).describe("Confluence page ID to download"),
-      targetDirectory: z.string().optional().describe("Target directory for downloaded file (optional)")
+      targetDirectory: z.string().optional().describe("Target directory for downloaded file (optional)"),
+      format: z.enum(["adf", "storage"]).optional().describe("Page body to convert: 'adf' or 'storage' (XHTML storage format, keeps unsupported macros as opaque blocks) (default: adf)")
     },
-    handler: async ({ pageId, targetDirectory }) => {
+    handler: async ({ pageId, targetDirectory, format = "adf" }) => {
       try {
         
         if (!authManager.isAuthenticated()) {
-          throw new ToolError("Not authenticated. Please authenticate first using confluence_authenticate.");
+          throw notAuthenticatedError();
         }
         
-        // Fetch page content with ADF
         const client = new ConfluenceClient();
-        const page = await client.getContent(pageId, ['body.atlas_doc_format', 'space', 'version']);
-        
-        if (!page.body?.atlas_doc_format?.value) {
-          throw new ToolError(`Page ${pageId} does not have ADF content or is not accessible`);
-        }
-        
-        // Parse ADF content
-        let adfDocument;
-        try {
-          adfDocument = JSON.parse(page.body.atlas_doc_format.value);
-        } catch (error) {
-          throw new ToolError(`Failed to parse ADF content: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
-        }
-        
-        // Create managed file
-        const managedFile = await FileManager.createManagedFile(pageId, page.title, targetDirectory);
-        
-        // Convert ADF to Markdown with metadata
-        const metadata: FileMetadata = {
-          pageId: page.id,
-          title: page.title,
-          spaceKey: page.space.key,
-          originalADF: page.body.atlas_doc_format.value
-        };
-        
-        const markdown = ADFConverter.adfToMarkdown(adfDocument, metadata);
-        
-        // Write files
-        await fs.outputFile(managedFile.filePath, markdown, 'utf-8');
-        await fs.outputFile(managedFile.metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+        const { page, filePath, attachments } = await downloadPageToFile(client, pageId, targetDirectory, format);
         
-        const displayPath = FileManager.getDisplayPath(managedFile.filePath);
+        const displayPath = FileManager.getDisplayPath(filePath);
         
         return {
           content: [{
             type: "text",
-            text: `Successfully downloaded page "${page.title}" (ID: ${pageId}) to ${displayPath}`
+            text: `Successfully downloaded page "${page.title}" (ID: ${pageId}) to ${displayPath}${attachments.length > 0 ? `\nSaved ${attachments.length} attachments to ${AssetManager.ASSETS_DIRECTORY}/${pageId}` : ''}`
           }]
         };
       } catch (error) {
@@ -77,7 +120,7 @@ export function createDownloadPageTool(): ToolHandler<z.infer<typeof downloadSch
           throw error;
         }
         
-        throw new ToolError(`Failed to download page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("download page", error);
       }
     }
   };
@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { authManager } from "../auth/manager.js";
+import { ConfluenceClient } from "../client/confluence.js";
+import { FileManager } from "../filemanager/index.js";
+import { downloadPageToFile } from "./download-page.js";
+import { createProgressReporter } from "./progress.js";
+import { ToolHandler, ToolError, ConfluenceContent, ConfluencePageList } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
+
+// Page size used when listing child pages
+const CHILD_PAGE_SIZE = 50;
+
+const downloadTreeShape = {
+  pageId: z.string().min(1).optional().describe("Root page ID; the page and all pages below it are downloaded"),
+  spaceKey: z.string().min(1).optional().describe("Space key; all pages of the space are downloaded"),
+  targetDirectory: z.string().optional().describe("Target directory for the page tree (optional)"),
+  maxDepth: z.number().int().min(0).optional().describe("Maximum depth below the root pages to download (default: unlimited)"),
+  concurrency: z.number().int().min(1).max(10).default(4).describe("Number of pages downloaded in parallel (1-10, default: 4)")
+};
+
+const downloadTreeSchema = z.object(downloadTreeShape).refine(
+  params => Boolean(params.pageId) !== Boolean(params.spaceKey),
+  { message: "Provide either pageId or spaceKey" }
+);
+
+interface TreeTask {
+  pageId: string;
+  title?: string;
+  directory?: string;
+  depth: number;
+}
+
+/**
+ * Collect every page of a paginated page listing
+ */
+async function listAllPages(fetchPage: (start: number) => Promise<ConfluencePageList>): Promise<ConfluenceContent[]> {
+  const pages: ConfluenceContent[] = [];
+  let start = 0;
+
+  while (true) {
+    const list = await fetchPage(start);
+    pages.push(...list.results);
+    if (!list._links?.next || list.results.length === 0) {
+      return pages;
+    }
+    start += list.results.length;
+  }
+}
+
+export function createDownloadTreeTool(): ToolHandler<z.infer<typeof downloadTreeSchema>> {
+  return {
+    name: "confluence_download_tree",
+    title: "Download Confluence Page Tree",
+    description: "Download a page and all its descendants, or a whole space, as Markdown files in a folder hierarchy that mirrors the page tree. Child pages of <id>-<slug>.md are written to the <id>-<slug>/ folder next to it.",
+    inputSchema: downloadTreeShape,
+    handler: async (params, context) => {
+      try {
+        const { pageId, spaceKey, targetDirectory, maxDepth, concurrency } = downloadTreeSchema.parse(params);
+
+        if (!authManager.isAuthenticated()) {
+          throw notAuthenticatedError();
+        }
+
+        const client = new ConfluenceClient();
+        const reportProgress = createProgressReporter(context);
+        const rootDirectory = spaceKey ? FileManager.getSpaceDirectory(spaceKey, targetDirectory) : targetDirectory;
+
+        const queue: TreeTask[] = pageId
+          ? [{ pageId, depth: 0, ...(rootDirectory && { directory: rootDirectory }) }]
+          : (await listAllPages(start => client.getSpaceRootPages(spaceKey as string, start, CHILD_PAGE_SIZE)))
+            .map(page => ({ pageId: page.id, title: page.title, depth: 0, ...(rootDirectory && { directory: rootDirectory }) }));
+
+        const seen = new Set(queue.map(task => task.pageId));
+        const downloaded: Array<{ pageId: string; title: string; filePath: string }> = [];
+        const skipped: Array<{ pageId: string; title?: string; reason: string }> = [];
+        const failed: Array<{ pageId: string; title?: string; error: string }> = [];
+        let discovered = queue.length;
+        let finished = 0;
+
+        const processTask = async (task: TreeTask) => {
+          const label = task.title ? `"${task.title}" (ID: ${task.pageId})` : `page ${task.pageId}`;
+
+          try {
+            const { page, filePath } = await downloadPageToFile(client, task.pageId, task.directory);
+            downloaded.push({ pageId: page.id, title: page.title, filePath });
+
+            if (maxDepth === undefined || task.depth < maxDepth) {
+              const children = await listAllPages(start => client.getChildPages(page.id, start, CHILD_PAGE_SIZE));
+              for (const child of children) {
+                if (seen.has(child.id)) continue;
+                seen.add(child.id);
+                queue.push({
+                  pageId: child.id,
+                  title: child.title,
+                  directory: FileManager.getChildDirectory(filePath),
+                  depth: task.depth + 1
+                });
+                discovered++;
+              }
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            // Pages without ADF content cannot be converted, so they are skipped rather than failed
+            if (error instanceof ToolError) {
+              skipped.push({ pageId: task.pageId, ...(task.title && { title: task.title }), reason: message });
+            } else {
+              failed.push({ pageId: task.pageId, ...(task.title && { title: task.title }), error: message });
+            }
+          }
+
+          finished++;
+          await reportProgress(finished, discovered, `Processed ${label}`);
+        };
+
+        // Keep up to `concurrency` downloads running until the tree is exhausted
+        const running = new Set<Promise<void>>();
+        while (queue.length > 0 || running.size > 0) {
+          while (queue.length > 0 && running.size < concurrency) {
+            const task = queue.shift() as TreeTask;
+            const promise: Promise<void> = processTask(task).finally(() => running.delete(promise));
+            running.add(promise);
+          }
+          await Promise.race(running);
+        }
+
+        const source = pageId ? `page tree ${pageId}` : `space ${spaceKey}`;
+        const lines = [`Downloaded ${downloaded.length} pages from ${source}${rootDirectory ? ` to ${FileManager.getDisplayPath(rootDirectory)}` : ''}`];
+
+        if (skipped.length > 0) {
+          lines.push('', `Skipped ${skipped.length} pages:`);
+          lines.push(...skipped.map(page => `- ${page.title ? `"${page.title}" ` : ''}(ID: ${page.pageId}): ${page.reason}`));
+        }
+
+        if (failed.length > 0) {
+          lines.push('', `Failed ${failed.length} pages:`);
+          lines.push(...failed.map(page => `- ${page.title ? `"${page.title}" ` : ''}(ID: ${page.pageId}): ${page.error}`));
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: lines.join('\n')
+          }],
+          ...(downloaded.length === 0 && failed.length > 0 && { isError: true })
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("download page tree", error);
+      }
+    }
+  };
+}
@@ -0,0 +1,72 @@
+import { ConfluenceApiError, RateLimitedError } from "../client/errors.js";
+import { ToolError, ToolErrorDetails, ToolHandler } from "../types/index.js";
+
+/**
+ * Details of a Confluence error for the tool result, if it is one
+ */
+export function getErrorDetails(error: unknown): ToolErrorDetails | undefined {
+  if (!(error instanceof ConfluenceApiError)) {
+    return undefined;
+  }
+
+  const hint = error.hint;
+  const retryAfterMs = error instanceof RateLimitedError ? error.retryAfterMs : null;
+  return {
+    code: error.code,
+    ...(error.status !== undefined && { status: error.status }),
+    ...(hint && { hint }),
+    ...(retryAfterMs !== null && { retryAfterSeconds: Math.ceil(retryAfterMs / 1000) }),
+    ...(error.messages.length > 0 && { messages: error.messages })
+  };
+}
+
+/**
+ * The ToolError for an operation that failed, keeping the details of
+ * Confluence errors
+ */
+export function toolError(operation: string, error: unknown): ToolError {
+  return new ToolError(
+    `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    getErrorDetails(error)
+  );
+}
+
+/**
+ * The ToolError for a call made before any credentials are configured
+ */
+export function notAuthenticatedError(signInTool: string = "confluence_authenticate"): ToolError {
+  return new ToolError(`Not authenticated. Please authenticate first using ${signInTool}.`, {
+    code: 'not_authenticated',
+    hint: 'Sign in with confluence_oauth_init, or confluence_authenticate for API tokens and personal access tokens, then retry.'
+  });
+}
+
+/**
+ * Return errors with details as error results, with the hint appended to the
+ * message and the details as structured content. Other errors are left to
+ * the MCP server, which reports their message.
+ */
+export function withErrorDetails<T>(tool: ToolHandler<T>): ToolHandler<T> {
+  return {
+    ...tool,
+    handler: async (params, context) => {
+      try {
+        return await tool.handler(params, context);
+      } catch (error) {
+        const details = error instanceof ToolError ? error.details : getErrorDetails(error);
+        if (!details || !(error instanceof Error)) {
+          throw error;
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: details.hint ? `${error.message}\n\n${details.hint}` : error.message
+          }],
+          structuredContent: { error: { message: error.message, ...details } },
+          isError: true
+        };
+      }
+    }
+  };
+}
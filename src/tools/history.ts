@@ -0,0 +1,380 @@
+import { z } from "zod";
+import * as fs from "fs-extra";
+import { readFile } from "fs/promises";
+import { authManager } from "../auth/manager.js";
+import { ConfluenceClient } from "../client/confluence.js";
+import { FileManager } from "../filemanager/index.js";
+import { ADFConverter } from "../converter/index.js";
+import { UnifiedDiff } from "../converter/unified-diff.js";
+import { readPageADF } from "./download-page.js";
+import { createPageBody } from "./upload-page.js";
+import { ToolHandler, ToolError, FileMetadata, ConfluenceContent, ConfluenceVersion, ContentFormat, PageAttachment, ADFDocument } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
+
+// Page History tool
+const historySchema = z.object({
+  pageId: z.string().min(1).describe("Confluence page ID"),
+  limit: z.number().min(1).max(200).default(25).describe("Maximum number of versions to return (1-200, default: 25)"),
+  start: z.number().min(0).default(0).describe("Number of newer versions to skip, for pagination")
+});
+
+function formatVersion(version: ConfluenceVersion): string {
+  const author = version.by?.displayName || version.by?.accountId;
+  return `- Version ${version.number} (${version.when})${author ? ` by ${author}` : ''}`
+    + `${version.message ? `: "${version.message}"` : ''}`
+    + `${version.minorEdit ? ' [minor edit]' : ''}`;
+}
+
+function createPageHistoryTool(): ToolHandler<z.infer<typeof historySchema>> {
+  return {
+    name: "confluence_page_history",
+    title: "List Confluence Page Versions",
+    description: "List the versions of a Confluence page, newest first, with author, date and version message. Use the version numbers with confluence_diff_versions.",
+    inputSchema: historySchema.shape,
+    handler: async (params) => {
+      try {
+        const { pageId, limit, start } = historySchema.parse(params);
+
+        if (!authManager.isAuthenticated()) {
+          throw notAuthenticatedError();
+        }
+
+        const client = new ConfluenceClient();
+        const versions = await client.getVersions(pageId, start, limit);
+
+        if (versions.results.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `No versions found for page ${pageId}${start > 0 ? ` after the first ${start}` : ''}.`
+            }]
+          };
+        }
+
+        const moreText = versions._links?.next
+          ? `\n\nMore versions available. Continue with start: ${start + versions.results.length}`
+          : '';
+
+        return {
+          content: [{
+            type: "text",
+            text: `Versions of page ${pageId} (${start + 1}-${start + versions.results.length}):\n\n${versions.results.map(formatVersion).join('\n')}${moreText}`
+          }]
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("get page history", error);
+      }
+    }
+  };
+}
+
+// Diff Versions tool
+const diffSchema = z.object({
+  pageId: z.string().min(1).optional().describe("Confluence page ID (not needed with filePath)"),
+  fromVersion: z.number().int().min(1).optional().describe("Older version to compare. Required with pageId; with filePath it defaults to the current version"),
+  toVersion: z.number().int().min(1).optional().describe("Newer version to compare (default: current version). Not used with filePath"),
+  filePath: z.string().min(1).optional().describe("Managed Markdown file to compare with the remote page instead of two versions"),
+  context: z.number().int().min(0).max(20).default(3).describe("Unchanged lines shown around each change (default: 3)")
+});
+
+interface RenderedVersion {
+  page: ConfluenceContent;
+  markdown: string;
+}
+
+/**
+ * Render a version of a page, or the current one, as Markdown
+ */
+async function renderVersion(client: ConfluenceClient, pageId: string, version: number | undefined, format: ContentFormat = 'adf', attachments: PageAttachment[] = []): Promise<RenderedVersion> {
+  const page = await client.getContent(pageId, [format === 'storage' ? 'body.storage' : 'body.atlas_doc_format', 'version'], version);
+  return {
+    page,
+    markdown: ADFConverter.adfToMarkdown(readPageADF(page, format), undefined, { attachments })
+  };
+}
+
+interface ManagedFile {
+  pageId: string;
+  markdown: string;
+  metadata: Partial<FileMetadata>;
+}
+
+/**
+ * Read a file downloaded with confluence_download_page with its stored metadata
+ */
+async function readManagedFile(filePath: string, pageId: string | undefined, purpose: string): Promise<ManagedFile> {
+  if (!await fs.pathExists(filePath)) {
+    throw new ToolError(`File not found: ${filePath}`);
+  }
+
+  const markdown = await readFile(filePath, 'utf-8');
+  const { metadata } = ADFConverter.markdownToADF(markdown);
+  const storedMetadata: Partial<FileMetadata> = {
+    ...(metadata as FileMetadata),
+    ...(await FileManager.readMetadata(FileManager.getMetadataPath(filePath)))
+  };
+
+  const filePageId = FileManager.extractPageIdFromFilename(filePath) || storedMetadata.pageId;
+  if (!filePageId) {
+    throw new ToolError(`Cannot determine page ID for ${filePath}. Only files downloaded with confluence_download_page can be ${purpose}.`);
+  }
+  if (pageId && pageId !== filePageId) {
+    throw new ToolError(`File ${filePath} belongs to page ${filePageId}, not ${pageId}`);
+  }
+
+  return { pageId: filePageId, markdown, metadata: storedMetadata };
+}
+
+function diffResult(summary: string, diff: string) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: `${summary}\n\n\`\`\`diff\n${diff}\n\`\`\``
+    }]
+  };
+}
+
+function countText(additions: number, deletions: number): string {
+  return `${additions} line${additions === 1 ? '' : 's'} added, ${deletions} removed`;
+}
+
+function createDiffVersionsTool(): ToolHandler<z.infer<typeof diffSchema>> {
+  return {
+    name: "confluence_diff_versions",
+    title: "Diff Confluence Page Versions",
+    description: "Show what changed between two versions of a Confluence page as a unified diff of their Markdown. With filePath, compares a file downloaded with confluence_download_page against the current (or a given) remote version instead.",
+    inputSchema: diffSchema.shape,
+    handler: async (params) => {
+      try {
+        const { pageId, fromVersion, toVersion, filePath, context } = diffSchema.parse(params);
+
+        if (!filePath && !pageId) {
+          throw new ToolError("Invalid parameters: pageId or filePath is required");
+        }
+        if (filePath && toVersion !== undefined) {
+          throw new ToolError("Invalid parameters: toVersion cannot be used with filePath, the local file is compared with fromVersion");
+        }
+        if (!filePath && fromVersion === undefined) {
+          throw new ToolError("Invalid parameters: fromVersion is required to compare versions");
+        }
+
+        if (!authManager.isAuthenticated()) {
+          throw notAuthenticatedError();
+        }
+
+        const client = new ConfluenceClient();
+
+        if (filePath) {
+          const file = await readManagedFile(filePath, pageId, 'compared');
+
+          // Render the remote page the way the file was downloaded, so only real edits show up
+          const remote = await renderVersion(client, file.pageId, fromVersion, file.metadata.format, file.metadata.attachments);
+          const displayPath = FileManager.getDisplayPath(filePath);
+          const { diff, additions, deletions } = UnifiedDiff.create(
+            ADFConverter.splitMarkdownBlocks(remote.markdown).join('\n\n'),
+            ADFConverter.splitMarkdownBlocks(file.markdown).join('\n\n'),
+            { old: `remote (version ${remote.page.version.number})`, new: `local (${displayPath})` },
+            context
+          );
+
+          if (!diff) {
+            return {
+              content: [{
+                type: "text",
+                text: `No differences between ${displayPath} and version ${remote.page.version.number} of page "${remote.page.title}" (ID: ${file.pageId}).`
+              }]
+            };
+          }
+
+          return diffResult(`Local changes in ${displayPath} against version ${remote.page.version.number} of page "${remote.page.title}" (ID: ${file.pageId}): ${countText(additions, deletions)}`, diff);
+        }
+
+        const from = await renderVersion(client, pageId!, fromVersion);
+        const to = await renderVersion(client, pageId!, toVersion);
+        const fromNumber = from.page.version.number;
+        const toNumber = to.page.version.number;
+        const { diff, additions, deletions } = UnifiedDiff.create(
+          from.markdown,
+          to.markdown,
+          { old: `version ${fromNumber}`, new: `version ${toNumber}` },
+          context
+        );
+
+        if (!diff) {
+          return {
+            content: [{
+              type: "text",
+              text: `No differences between version ${fromNumber} and version ${toNumber} of page "${to.page.title}" (ID: ${pageId}).`
+            }]
+          };
+        }
+
+        return diffResult(`Changes to page "${to.page.title}" (ID: ${pageId}) from version ${fromNumber} to version ${toNumber}: ${countText(additions, deletions)}`, diff);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("diff versions", error);
+      }
+    }
+  };
+}
+
+// Restore Version tool
+const restoreSchema = z.object({
+  pageId: z.string().min(1).optional().describe("Confluence page ID (not needed with filePath)"),
+  version: z.number().int().min(1).optional().describe("Version number to restore"),
+  filePath: z.string().min(1).optional().describe("Managed Markdown file whose content at download time is restored, instead of a version"),
+  message: z.string().optional().describe("Version message of the restored version"),
+  dryRun: z.boolean().optional().describe("Only show the Markdown diff of what the restore would change, without changing the page (default: false)")
+});
+
+function restoreResult(summary: string, diff: string, dryRun: boolean) {
+  const preview = diff ? `\n\n\`\`\`diff\n${diff}\n\`\`\`` : '\n\nThe content is unchanged.';
+  return {
+    content: [{
+      type: "text" as const,
+      text: dryRun
+        ? `Dry run: ${summary}${preview}\n\nRun again without dryRun to restore.`
+        : `${summary}${preview}`
+    }]
+  };
+}
+
+function createRestoreVersionTool(): ToolHandler<z.infer<typeof restoreSchema>> {
+  return {
+    name: "confluence_restore_version",
+    title: "Restore Confluence Page Version",
+    description: "Restore a Confluence page to an earlier version, or to the content a file downloaded with confluence_download_page was based on. The restore adds a new version, so it can be undone. Use dryRun to preview the Markdown diff first.",
+    inputSchema: restoreSchema.shape,
+    handler: async (params) => {
+      try {
+        const { pageId, version, filePath, message, dryRun = false } = restoreSchema.parse(params);
+
+        if ((version === undefined) === (filePath === undefined)) {
+          throw new ToolError("Invalid parameters: either version or filePath is required");
+        }
+        if (version !== undefined && !pageId) {
+          throw new ToolError("Invalid parameters: pageId is required to restore a version");
+        }
+
+        if (!authManager.isAuthenticated()) {
+          throw notAuthenticatedError();
+        }
+
+        const client = new ConfluenceClient();
+
+        if (version !== undefined) {
+          const current = await renderVersion(client, pageId!, undefined);
+          const currentNumber = current.page.version.number;
+          if (version >= currentNumber) {
+            throw new ToolError(`Invalid parameters: version ${version} is not an earlier version of page ${pageId}, whose current version is ${currentNumber}`);
+          }
+
+          const target = await renderVersion(client, pageId!, version);
+          const { diff, additions, deletions } = UnifiedDiff.create(
+            current.markdown,
+            target.markdown,
+            { old: `current (version ${currentNumber})`, new: `version ${version}` }
+          );
+
+          if (dryRun) {
+            return restoreResult(`restoring page "${current.page.title}" (ID: ${pageId}) to version ${version} would change the current version ${currentNumber}: ${countText(additions, deletions)}`, diff, true);
+          }
+
+          const restored = await client.restoreVersion(pageId!, version, message ?? `Restored version ${version}`);
+          return restoreResult(`Restored page "${target.page.title}" (ID: ${pageId}) to version ${version} as new version ${restored.number}: ${countText(additions, deletions)}`, diff, false);
+        }
+
+        const file = await readManagedFile(filePath!, pageId, 'restored');
+        const format = file.metadata.format || 'adf';
+        const attachments = file.metadata.attachments || [];
+        const downloadedVersion = file.metadata.version;
+
+        let originalADF: ADFDocument;
+        try {
+          originalADF = JSON.parse(file.metadata.originalADF || '');
+        } catch (error) {
+          throw new ToolError(`No original ADF found for ${filePath}. Only the content of files downloaded with confluence_download_page can be restored.`);
+        }
+
+        // Compare in the format and with the image paths the file was downloaded with
+        const current = await renderVersion(client, file.pageId, undefined, format, attachments);
+        const currentNumber = current.page.version.number;
+        const downloadedLabel = downloadedVersion !== undefined ? `version ${downloadedVersion}` : 'download';
+        const { diff, additions, deletions } = UnifiedDiff.create(
+          current.markdown,
+          ADFConverter.adfToMarkdown(originalADF, undefined, { attachments }),
+          { old: `current (version ${currentNumber})`, new: `downloaded (${downloadedLabel})` }
+        );
+
+        if (!diff) {
+          return {
+            content: [{
+              type: "text",
+              text: `Page "${current.page.title}" (ID: ${file.pageId}) already has the content ${filePath} was downloaded with. Nothing to restore.`
+            }]
+          };
+        }
+
+        if (dryRun) {
+          return restoreResult(`restoring page "${current.page.title}" (ID: ${file.pageId}) to the content of ${downloadedLabel} would change the current version ${currentNumber}: ${countText(additions, deletions)}`, diff, true);
+        }
+
+        const updatedPage = await client.updateContent(file.pageId, {
+          type: 'page',
+          title: current.page.title,
+          version: {
+            number: currentNumber + 1,
+            message: message ?? `Restored content of ${downloadedLabel}`
+          },
+          body: createPageBody(originalADF, format, attachments)
+        });
+
+        // The local file is based on the restored content, so its edits can be uploaded on top of the new version
+        const metadataPath = FileManager.getMetadataPath(filePath!);
+        if (await fs.pathExists(metadataPath)) {
+          const updatedMetadata: Partial<FileMetadata> = {
+            ...file.metadata,
+            version: updatedPage.version.number,
+            versionWhen: updatedPage.version.when
+          };
+          await fs.outputFile(metadataPath, JSON.stringify(updatedMetadata, null, 2), 'utf-8');
+        }
+
+        return restoreResult(`Restored page "${updatedPage.title}" (ID: ${file.pageId}) to the content of ${downloadedLabel} as new version ${updatedPage.version.number}: ${countText(additions, deletions)}`, diff, false);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("restore version", error);
+      }
+    }
+  };
+}
+
+export function createHistoryTools(): ToolHandler[] {
+  return [
+    createPageHistoryTool(),
+    createDiffVersionsTool(),
+    createRestoreVersionTool()
+  ];
+}
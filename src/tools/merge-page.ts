@@ -0,0 +1,120 @@
+import { z } from "zod";
+import * as fs from "fs-extra";
+import { readFile } from "fs/promises";
+import { authManager } from "../auth/manager.js";
+import { ConfluenceClient } from "../client/confluence.js";
+import { FileManager } from "../filemanager/index.js";
+import { ADFConverter } from "../converter/index.js";
+import { ThreeWayMerge } from "../converter/three-way-merge.js";
+import { readPageADF } from "./download-page.js";
+import { ToolHandler, ToolError, FileMetadata, ADFDocument } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
+
+const mergeSchema = z.object({
+  filePath: z.string().min(1).describe("Path to the locally edited Markdown file"),
+  outputPath: z.string().optional().describe("Where to write the merged Markdown (defaults to overwriting filePath)")
+});
+
+export function createMergePageTool(): ToolHandler<z.infer<typeof mergeSchema>> {
+  return {
+    name: "confluence_merge_page",
+    title: "Merge Local and Remote Page Changes",
+    description: "Three-way merge of a locally edited Markdown file with the current Confluence page, using the ADF captured at download time as the base. Blocks that cannot be merged automatically are written with git-style conflict markers.",
+    inputSchema: {
+      filePath: z.string().min(1).describe("Path to the locally edited Markdown file"),
+      outputPath: z.string().optional().describe("Where to write the merged Markdown (defaults to overwriting filePath)")
+    },
+    handler: async ({ filePath, outputPath }) => {
+      try {
+
+        if (!authManager.isAuthenticated()) {
+          throw notAuthenticatedError();
+        }
+
+        if (!await fs.pathExists(filePath)) {
+          throw new ToolError(`File not found: ${filePath}`);
+        }
+
+        const localMarkdown = await readFile(filePath, 'utf-8');
+        const { metadata } = ADFConverter.markdownToADF(localMarkdown);
+
+        const pageId = FileManager.extractPageIdFromFilename(filePath) || (metadata as FileMetadata)?.pageId;
+        if (!pageId) {
+          throw new ToolError(`Cannot determine page ID for ${filePath}. Only files downloaded with confluence_download_page can be merged.`);
+        }
+
+        // Base version is the ADF captured at download time
+        const storedMetadata: Partial<FileMetadata> = {
+          ...(metadata as FileMetadata),
+          ...(await FileManager.readMetadata(FileManager.getMetadataPath(filePath)))
+        };
+
+        let baseADF: ADFDocument;
+        try {
+          baseADF = JSON.parse(storedMetadata.originalADF || '');
+        } catch (error) {
+          throw new ToolError(`No original ADF found for ${filePath}. Download the page again to get a merge base.`);
+        }
+
+        // Compare against the remote page in the format the file was downloaded with
+        const format = storedMetadata.format || 'adf';
+        const client = new ConfluenceClient();
+        const remotePage = await client.getContent(pageId, [format === 'storage' ? 'body.storage' : 'body.atlas_doc_format', 'space', 'version']);
+        const remoteADF = readPageADF(remotePage, format);
+
+        // Render media with the local asset paths the file was downloaded with
+        const attachments = storedMetadata.attachments || [];
+        const result = ThreeWayMerge.merge(
+          ADFConverter.adfToMarkdown(baseADF, undefined, { attachments }),
+          localMarkdown,
+          ADFConverter.adfToMarkdown(remoteADF, undefined, { attachments }),
+          {
+            local: 'local',
+            remote: `remote (version ${remotePage.version.number})`
+          }
+        );
+
+        // The merged file is now based on the remote version
+        const mergedMetadata: FileMetadata = {
+          pageId: remotePage.id,
+          title: remotePage.title,
+          spaceKey: remotePage.space.key,
+          originalADF: format === 'adf' && remotePage.body?.atlas_doc_format ? remotePage.body.atlas_doc_format.value : JSON.stringify(remoteADF),
+          ...(format === 'storage' && { format }),
+          version: remotePage.version.number,
+          versionWhen: remotePage.version.when,
+          ...(attachments.length > 0 && { attachments })
+        };
+
+        const targetPath = outputPath || filePath;
+        await fs.outputFile(targetPath, ADFConverter.withFrontMatter(result.markdown, mergedMetadata), 'utf-8');
+        await fs.outputFile(FileManager.getMetadataPath(targetPath), JSON.stringify(mergedMetadata, null, 2), 'utf-8');
+
+        const displayPath = FileManager.getDisplayPath(targetPath);
+        const summary = `Merged page "${remotePage.title}" (ID: ${pageId}) with remote version ${remotePage.version.number} into ${displayPath}
+- Local changes: ${result.localChanges}
+- Remote changes: ${result.remoteChanges}
+- Conflicts: ${result.conflicts}`;
+
+        return {
+          content: [{
+            type: "text",
+            text: result.conflicts > 0
+              ? `${summary}\n\nResolve the conflict markers (<<<<<<< / ======= / >>>>>>>) in the file, then upload it with confluence_upload_page.`
+              : `${summary}\n\nNo conflicts. Upload the merged file with confluence_upload_page.`
+          }]
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("merge page", error);
+      }
+    }
+  };
+}
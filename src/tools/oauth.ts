@@ -3,8 +3,10 @@ import { exec } from "child_process";
 import { promisify } from "util";
 import { OAuthClient } from "../auth/oauth-client.js";
 import { OAuthConfluenceClient } from "../client/oauth-confluence.js";
-import { tokenStorage } from "../auth/token-storage.js";
+import { tokenStorage, StorageInfo } from "../auth/token-storage.js";
+import { isReadOnlyMode, isWriteScope, ScopeReport } from "../auth/scopes.js";
 import { ToolHandler, ToolError, OAuthCredentials } from "../types/index.js";
+import { toolError } from "./errors.js";
 
 const execAsync = promisify(exec);
 
@@ -12,6 +14,49 @@ const execAsync = promisify(exec);
 let globalOAuthClient: OAuthClient | null = null;
 let globalOAuthConfluenceClient: OAuthConfluenceClient | null = null;
 
+// Whether the pending flow expects the redirect URL to be pasted instead of a callback
+let manualFlow = false;
+
+// Whether the session came from storage, and why the stored session could not be restored
+let sessionRestored = false;
+let restoreError: string | null = null;
+
+// Scope lines of the sign-in and status output
+function describeScopes(report: ScopeReport | null, readOnly: boolean): string {
+  const lines = [`🛡️ **Mode:** ${readOnly ? 'Read-only (tools that change content are disabled)' : 'Read and write'}`];
+
+  if (!report) {
+    lines.push("🔑 **Scopes:** Not recorded for this session. Sign in again to compare requested and granted scopes.");
+    return lines.join('\n');
+  }
+
+  lines.push(`🔑 **Granted Scopes:** ${report.granted.join(', ') || 'None'}`);
+  lines.push(`📋 **Requested Scopes:** ${report.requested.join(', ')}`);
+  if (report.missing.length > 0) {
+    lines.push(`⚠️ **Requested but Not Granted:** ${report.missing.join(', ')}`);
+  }
+  if (report.unrequested.length > 0) {
+    lines.push(`⚠️ **Granted but Not Requested:** ${report.unrequested.join(', ')}`);
+  }
+  if (readOnly && report.granted.some(isWriteScope)) {
+    lines.push("⚠️ **Write Access:** The token has write scopes. Sign in again to replace it with a read-only token.");
+  }
+
+  return lines.join('\n');
+}
+
+// Encryption line of the status output, with what the key protects against
+function describeEncryption(storageInfo: StorageInfo): string {
+  switch (storageInfo.keySource) {
+    case 'passphrase':
+      return 'AES-256-GCM with a key derived from CONFLUENCE_TOKEN_PASSPHRASE';
+    case 'machine':
+      return 'AES-256-GCM with a key derived from this machine and user account. A copied token file cannot be read elsewhere, but programs running as this user can read it; set CONFLUENCE_TOKEN_PASSPHRASE to require a passphrase.';
+    default:
+      return 'Managed by the system keychain';
+  }
+}
+
 /**
  * Initialize OAuth authentication flow
  */
@@ -19,14 +64,45 @@ export function createOAuthInitTool(): ToolHandler {
   return {
     name: "confluence_oauth_init",
     title: "Initialize OAuth Authentication",
-    description: "Initialize OAuth 2.0 authentication flow for Confluence. Requires client credentials from Atlassian Developer Console.",
+    description: "Initialize OAuth 2.0 authentication flow for Confluence. Requires client credentials from Atlassian Developer Console. Use manual mode when the server runs on a remote machine or in a container the browser cannot reach. In read-only mode only read scopes are requested.",
     inputSchema: {
       clientId: z.string().min(1).describe("OAuth Client ID from Atlassian Developer Console"),
       clientSecret: z.string().min(1).describe("OAuth Client Secret from Atlassian Developer Console"),
-      redirectUri: z.string().url().optional().describe("OAuth redirect URI (defaults to http://localhost:PORT/oauth/callback)")
+      redirectUri: z.string().url().optional().describe("OAuth redirect URI (defaults to http://localhost:PORT/oauth/callback; required in manual mode)"),
+      manual: z.boolean().optional().describe("Skip the local callback server; paste the URL the browser is redirected to into confluence_oauth_complete (default: false)"),
+      scopes: z.array(z.string().min(1)).min(1).optional().describe("OAuth scopes to request instead of CONFLUENCE_OAUTH_SCOPES or the defaults; offline_access is always added")
     },
-    handler: async ({ clientId, clientSecret, redirectUri }) => {
+    handler: async ({ clientId, clientSecret, redirectUri, manual = false, scopes }) => {
       try {
+        if (manual) {
+          if (!redirectUri) {
+            throw new ToolError("redirectUri is required in manual mode. Use the callback URL registered for the app in the Atlassian Developer Console.");
+          }
+
+          globalOAuthClient = new OAuthClient({ clientId, clientSecret, redirectUri, ...(scopes && { scopes }) });
+          manualFlow = true;
+
+          return {
+            content: [{
+              type: "text",
+              text: `OAuth initialization successful (manual mode)!
+
+🌐 **Authorization URL:** 
+${globalOAuthClient.generateAuthUrl()}
+
+📝 **Next steps:**
+1. Open the URL above in a browser on any machine
+2. Sign in to your Atlassian account
+3. Grant permission to the application
+4. The browser is redirected to ${redirectUri} - the page may fail to load, which is expected
+5. Copy the full URL from the address bar and pass it as 'callbackUrl' to the 'confluence_oauth_complete' tool
+
+⏰ **Timeout:** 10 minutes`
+            }]
+          };
+        }
+
+
         // Start callback server to get available port
         const oauthClient = new OAuthClient({
           clientId,
@@ -43,11 +119,13 @@ export function createOAuthInitTool(): ToolHandler {
         globalOAuthClient = new OAuthClient({
           clientId,
           clientSecret,
-          redirectUri: actualRedirectUri
+          redirectUri: actualRedirectUri,
+          ...(scopes && { scopes })
         });
 
         // Start callback server on the same port
         await globalOAuthClient.startCallbackServer();
+        manualFlow = false;
         
         // Generate authorization URL
         const authUrl = globalOAuthClient.generateAuthUrl();
@@ -73,7 +151,11 @@ ${authUrl}
           }]
         };
       } catch (error) {
-        throw new ToolError(`Failed to initialize OAuth: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("initialize OAuth", error);
       }
     }
   };
@@ -86,18 +168,29 @@ export function createOAuthCompleteTool(): ToolHandler {
   return {
     name: "confluence_oauth_complete",
     title: "Complete OAuth Authentication",
-    description: "Complete the OAuth 2.0 authentication flow. Call this after visiting the authorization URL.",
+    description: "Complete the OAuth 2.0 authentication flow. Call this after visiting the authorization URL. In manual mode, pass the URL the browser was redirected to.",
     inputSchema: {
-      openBrowser: z.boolean().optional().describe("Automatically open the authorization URL in browser (default: true)")
+      openBrowser: z.boolean().optional().describe("Automatically open the authorization URL in browser (default: true)"),
+      callbackUrl: z.string().min(1).optional().describe("Manual mode: the full URL the browser was redirected to after granting access, or just its code parameter")
     },
-    handler: async ({ openBrowser = true }) => {
+    handler: async ({ openBrowser = true, callbackUrl }) => {
       try {
         if (!globalOAuthClient) {
           throw new ToolError("OAuth not initialized. Please run 'confluence_oauth_init' first.");
         }
 
+        if (callbackUrl) {
+          try {
+            await globalOAuthClient.completeWithRedirect(callbackUrl);
+          } catch (error) {
+            throw new ToolError(`OAuth authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}. Run 'confluence_oauth_init' again if the authorization URL expired.`);
+          }
+        } else if (manualFlow) {
+          throw new ToolError("This OAuth flow uses manual mode. Pass the URL the browser was redirected to as 'callbackUrl'.");
+        }
+
         // Optionally open browser
-        if (openBrowser) {
+        if (!callbackUrl && openBrowser) {
           const authUrl = globalOAuthClient.generateAuthUrl();
           try {
             // Try to open in default browser
@@ -111,14 +204,19 @@ export function createOAuthCompleteTool(): ToolHandler {
         }
 
         // Wait for OAuth completion
-        const result = await globalOAuthClient.waitForAuthCompletion();
+        if (!callbackUrl) {
+          const result = await globalOAuthClient.waitForAuthCompletion();
 
-        if (!result.success) {
-          throw new ToolError(`OAuth authentication failed: ${result.error}`);
+          if (!result.success) {
+            throw new ToolError(`OAuth authentication failed: ${result.error}`);
+          }
         }
 
         // Create OAuth Confluence client
         globalOAuthConfluenceClient = new OAuthConfluenceClient(globalOAuthClient);
+        manualFlow = false;
+        sessionRestored = false;
+        restoreError = null;
 
         // Test the connection
         const testResult = await globalOAuthConfluenceClient.testConnection();
@@ -131,17 +229,22 @@ export function createOAuthCompleteTool(): ToolHandler {
           globalOAuthClient.stopCallbackServer();
         }
 
+        const sites = globalOAuthClient.getSites();
+        const siteSummary = sites.length > 1
+          ? `\n🗂️ **Sites:** The grant covers ${sites.length} sites. Using ${globalOAuthClient.getDomainUrl()}; run 'confluence_list_sites' to see them and 'confluence_select_site' to switch.`
+          : '';
+
         return {
           content: [{
             type: "text",
             text: `✅ **OAuth Authentication Successful!**
 
 🔐 **Status:** Authenticated with Confluence Cloud
-🌐 **Cloud ID:** ${globalOAuthConfluenceClient.getOAuthClient().getCloudId()}
-🔧 **Scopes:** Confluence read/write permissions granted
-⚡ **Ready:** You can now use all Confluence tools
+🌐 **Cloud ID:** ${globalOAuthConfluenceClient.getOAuthClient().getCloudId()}${siteSummary}
+${describeScopes(globalOAuthClient.getScopeReport(), isReadOnlyMode())}
+⚡ **Ready:** You can now use the Confluence tools
 
-The OAuth tokens are securely stored in memory and will be automatically refreshed as needed.`
+The OAuth tokens and client credentials are stored securely, refreshed automatically as needed and restored when the server restarts.`
           }]
         };
       } catch (error) {
@@ -154,7 +257,7 @@ The OAuth tokens are securely stored in memory and will be automatically refresh
           throw error;
         }
         
-        throw new ToolError(`Failed to complete OAuth authentication: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("complete OAuth authentication", error);
       }
     }
   };
@@ -171,6 +274,15 @@ export function createOAuthStatusTool(): ToolHandler {
     inputSchema: {},
     handler: async () => {
       try {
+        if (!globalOAuthClient && restoreError) {
+          return {
+            content: [{
+              type: "text",
+              text: `⚠️ **Stored OAuth Session Not Restored**\n\nThe session stored for profile '${tokenStorage.getProfile()}' could not be restored: ${restoreError}\n\nPlease run 'confluence_oauth_init' to sign in again.`
+            }]
+          };
+        }
+
         if (!globalOAuthClient) {
           return {
             content: [{
@@ -184,7 +296,9 @@ export function createOAuthStatusTool(): ToolHandler {
           return {
             content: [{
               type: "text",
-              text: "⏳ **OAuth Initialized but Not Authenticated**\n\nPlease complete the OAuth flow by visiting the authorization URL and running 'confluence_oauth_complete'."
+              text: manualFlow
+                ? "⏳ **OAuth Initialized but Not Authenticated** (manual mode)\n\nPlease visit the authorization URL and run 'confluence_oauth_complete' with the URL the browser was redirected to as 'callbackUrl'."
+                : "⏳ **OAuth Initialized but Not Authenticated**\n\nPlease complete the OAuth flow by visiting the authorization URL and running 'confluence_oauth_complete'."
             }]
           };
         }
@@ -194,6 +308,7 @@ export function createOAuthStatusTool(): ToolHandler {
         
         const cloudId = globalOAuthConfluenceClient?.getOAuthClient().getCloudId() || 'Unknown';
         const storageInfo = tokenStorage.getStorageInfo();
+        const expiresAt = globalOAuthClient.getTokenExpiresAt();
         
         return {
           content: [{
@@ -202,15 +317,20 @@ export function createOAuthStatusTool(): ToolHandler {
 
 🔐 **Status:** ${testResult?.success ? 'Connected' : 'Connection Issue'}
 🌐 **Cloud ID:** ${cloudId}
+👤 **Profile:** ${tokenStorage.getProfile()}
+🔁 **Session:** ${sessionRestored ? 'Restored from stored tokens' : 'Signed in with confluence_oauth_complete'}
+⏱️ **Access Token Expires:** ${expiresAt ? new Date(expiresAt).toISOString() : 'Unknown'} (refreshed automatically)
+${describeScopes(globalOAuthClient.getScopeReport(), isReadOnlyMode())}
 🔧 **Client Configured:** Yes
 ⚡ **Ready for API calls:** ${testResult?.success ? 'Yes' : 'No'}
 💾 **Token Storage:** ${storageInfo.method} (${storageInfo.location})
+🔒 **Encryption:** ${describeEncryption(storageInfo)}
 
 ${testResult?.success ? '' : `⚠️ **Connection Issue:** ${testResult?.error}`}`
           }]
         };
       } catch (error) {
-        throw new ToolError(`Failed to check OAuth status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("check OAuth status", error);
       }
     }
   };
@@ -233,6 +353,9 @@ export function createOAuthClearTool(): ToolHandler {
         }
         
         globalOAuthConfluenceClient = null;
+        manualFlow = false;
+        sessionRestored = false;
+        restoreError = null;
 
         return {
           content: [{
@@ -241,7 +364,7 @@ export function createOAuthClearTool(): ToolHandler {
           }]
         };
       } catch (error) {
-        throw new ToolError(`Failed to clear OAuth authentication: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("clear OAuth authentication", error);
       }
     }
   };
@@ -266,6 +389,44 @@ export function getOAuthConfluenceClient(): OAuthConfluenceClient | null {
   return globalOAuthConfluenceClient;
 }
 
+/**
+ * Drop the in-memory OAuth session, keeping its stored tokens
+ */
+export function resetOAuthSession(): void {
+  globalOAuthClient?.stopCallbackServer();
+  globalOAuthClient = null;
+  globalOAuthConfluenceClient = null;
+  manualFlow = false;
+  sessionRestored = false;
+  restoreError = null;
+}
+
+/**
+ * Restore the OAuth session stored for the active profile, refreshing
+ * expired tokens. Returns whether a session was restored; failures are
+ * reported by confluence_oauth_status.
+ */
+export async function restoreOAuthSession(): Promise<boolean> {
+  resetOAuthSession();
+
+  try {
+    const oauthClient = await OAuthClient.restore();
+    if (!oauthClient) {
+      // A token file that cannot be decrypted reads as no stored session
+      restoreError = tokenStorage.getStorageInfo().error ?? null;
+      return false;
+    }
+
+    globalOAuthClient = oauthClient;
+    globalOAuthConfluenceClient = new OAuthConfluenceClient(oauthClient);
+    sessionRestored = true;
+    return true;
+  } catch (error) {
+    restoreError = error instanceof Error ? error.message : 'Unknown error';
+    return false;
+  }
+}
+
 /**
  * Check if OAuth is authenticated
  */
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { authManager } from "../auth/manager.js";
+import { tokenStorage, DEFAULT_PROFILE, PROFILE_NAME_PATTERN } from "../auth/token-storage.js";
+import { restoreOAuthSession } from "./oauth.js";
+import { ToolHandler, ToolError } from "../types/index.js";
+import { toolError } from "./errors.js";
+
+const manageProfilesSchema = z.object({
+  action: z.enum(["list", "create", "select", "delete"]).default("list").describe("Action: 'list' profiles, 'create' a profile and make it active, 'select' the active profile or 'delete' a profile and its stored tokens (default: list)"),
+  name: z.string().regex(PROFILE_NAME_PATTERN, "Profile names use up to 64 letters, digits, '-' or '_'").optional().describe("Profile name (required for create, select and delete)")
+});
+
+// The OAuth session belongs to the profile it was signed in with
+async function switchProfile(name: string): Promise<string> {
+  tokenStorage.setProfile(name);
+  authManager.clear();
+
+  return await restoreOAuthSession()
+    ? `Restored the stored OAuth session for ${authManager.getBaseUrl()}.`
+    : "Sign in with 'confluence_oauth_init' and 'confluence_oauth_complete'. The tokens are stored under this profile.";
+}
+
+function requireName(action: string, name: string | undefined): string {
+  if (!name) {
+    throw new ToolError(`name is required to ${action} a profile`);
+  }
+  return name;
+}
+
+async function listProfiles(): Promise<string> {
+  const profiles = await tokenStorage.listProfiles();
+  const active = tokenStorage.getProfile();
+
+  return `👤 **Authentication Profiles (${profiles.length})**
+
+${profiles.map(profile => profile === active ? `- ✅ **${profile}** *(active)*` : `- **${profile}**`).join('\n')}
+
+Use action 'select' to switch profiles or 'create' to add one.`;
+}
+
+async function createProfile(name: string): Promise<string> {
+  if ((await tokenStorage.listProfiles()).includes(name)) {
+    throw new ToolError(`Profile "${name}" already exists. Use action 'select' to switch to it.`);
+  }
+
+  await tokenStorage.createProfile(name);
+  const session = await switchProfile(name);
+
+  return `✅ **Profile Created**
+
+👤 **Profile:** ${name} (active)
+
+${session}`;
+}
+
+async function selectProfile(name: string): Promise<string> {
+  const profiles = await tokenStorage.listProfiles();
+  if (!profiles.includes(name)) {
+    throw new ToolError(`Unknown profile "${name}". Available profiles: ${profiles.join(', ')}`);
+  }
+
+  const session = await switchProfile(name);
+
+  return `✅ **Active Profile Changed**
+
+👤 **Profile:** ${name}
+
+${session}`;
+}
+
+async function deleteProfile(name: string): Promise<string> {
+  if (name === DEFAULT_PROFILE) {
+    throw new ToolError("The default profile cannot be deleted. Use 'confluence_oauth_clear' to remove its tokens.");
+  }
+
+  const wasActive = name === tokenStorage.getProfile();
+  await tokenStorage.deleteProfile(name);
+  const session = wasActive ? await switchProfile(DEFAULT_PROFILE) : null;
+
+  return `✅ **Profile Deleted**
+
+👤 **Profile:** ${name}${session ? `\n\nSwitched back to the ${DEFAULT_PROFILE} profile. ${session}` : ''}`;
+}
+
+/**
+ * Manage named profiles that keep OAuth sessions of different accounts side by side
+ */
+export function createManageProfilesTool(): ToolHandler<z.infer<typeof manageProfilesSchema>> {
+  return {
+    name: "confluence_manage_profiles",
+    title: "Manage Authentication Profiles",
+    description: "List, create, select or delete named authentication profiles. Each profile stores its own OAuth tokens and site, so separate accounts can be kept side by side. Set CONFLUENCE_PROFILE to choose the profile at startup.",
+    inputSchema: manageProfilesSchema.shape,
+    handler: async (params) => {
+      try {
+        const { action, name } = manageProfilesSchema.parse(params);
+
+        let text: string;
+        switch (action) {
+          case "create":
+            text = await createProfile(requireName(action, name));
+            break;
+          case "select":
+            text = await selectProfile(requireName(action, name));
+            break;
+          case "delete":
+            text = await deleteProfile(requireName(action, name));
+            break;
+          default:
+            text = await listProfiles();
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text
+          }]
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("manage profiles", error);
+      }
+    }
+  };
+}
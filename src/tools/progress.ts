@@ -0,0 +1,32 @@
+import { ToolContext } from "../types/index.js";
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
+/**
+ * Create a progress callback for a tool call. Notifications are only sent
+ * when the client asked for them with a progress token.
+ */
+export function createProgressReporter(context?: ToolContext): ProgressReporter {
+  const progressToken = context?._meta?.progressToken;
+  const sendNotification = context?.sendNotification;
+
+  return async (progress, total, message) => {
+    if (progressToken === undefined || !sendNotification) {
+      return;
+    }
+
+    try {
+      await sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(message && { message })
+        }
+      });
+    } catch (error) {
+      // Progress is best effort and must not fail the tool call
+    }
+  };
+}
@@ -1,59 +1,140 @@
 import { z } from "zod";
 import { authManager } from "../auth/manager.js";
 import { ConfluenceClient } from "../client/confluence.js";
-import { ToolHandler, ToolError } from "../types/index.js";
+import { buildCql } from "../client/cql.js";
+import { ToolHandler, ToolError, ConfluenceSearchResult, ConfluenceSearchFilters } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
+
+// Search API returns at most this many results per request
+const SEARCH_PAGE_SIZE = 100;
+
+const datePattern = /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?$/;
 
 // Search Content tool
 const searchSchema = z.object({
-  query: z.string().min(1).describe("Search query to find content"),
-  limit: z.number().min(1).max(100).default(25).describe("Maximum number of results to return")
+  query: z.string().min(1).optional().describe("Free-text search across page titles and content"),
+  cql: z.string().min(1).optional().describe("Raw CQL expression, combined with the other filters using AND"),
+  spaceKeys: z.array(z.string().min(1)).optional().describe("Only return content from these space keys"),
+  types: z.array(z.enum(["page", "blogpost", "comment", "attachment"])).optional().describe("Only return these content types"),
+  labels: z.array(z.string().min(1)).optional().describe("Only return content with one of these labels"),
+  contributor: z.string().min(1).optional().describe("Account ID of a contributor, or currentUser()"),
+  modifiedAfter: z.string().regex(datePattern).optional().describe("Only content modified on or after this date (yyyy-MM-dd)"),
+  modifiedBefore: z.string().regex(datePattern).optional().describe("Only content modified on or before this date (yyyy-MM-dd)"),
+  ancestorId: z.string().min(1).optional().describe("Only content below this page in the page tree"),
+  limit: z.number().min(1).max(1000).default(25).describe("Maximum number of results to return (1-1000, default: 25)"),
+  cursor: z.string().min(1).optional().describe("Cursor from a previous search to fetch the next results")
 });
 
+/**
+ * Convert search highlight markers to Markdown bold and flatten whitespace
+ */
+function formatExcerpt(excerpt: string): string {
+  return excerpt
+    .replace(/@@@hl@@@/g, '**')
+    .replace(/@@@endhl@@@/g, '**')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function formatResult(result: ConfluenceSearchResult): string {
+  const lines = [`- **${result.content?.title || result.title}**${result.content ? ` (ID: ${result.content.id})` : ''}`];
+
+  if (result.content?.space) {
+    lines.push(`  Space: ${result.content.space.name} (${result.content.space.key})`);
+  } else if (result.resultGlobalContainer) {
+    lines.push(`  Space: ${result.resultGlobalContainer.title}`);
+  }
+
+  if (result.content?.type) {
+    lines.push(`  Type: ${result.content.type}`);
+  }
+
+  if (result.lastModified) {
+    lines.push(`  Last Modified: ${result.lastModified}`);
+  }
+
+  lines.push(`  URL: ${authManager.getBaseUrl()}${result.content?._links?.webui || result.url}`);
+
+  const excerpt = result.excerpt ? formatExcerpt(result.excerpt) : '';
+  if (excerpt) {
+    lines.push(`  Excerpt: ${excerpt}`);
+  }
+
+  return lines.join('\n');
+}
+
 function createSearchTool(): ToolHandler<z.infer<typeof searchSchema>> {
   return {
     name: "confluence_search",
     title: "Search Confluence Content",
-    description: "Search for Confluence pages and content using text queries.",
-    inputSchema: searchSchema,
+    description: "Search Confluence content with free text, raw CQL and structured filters (space, label, type, contributor, last-modified range, ancestor). Supports cursor pagination beyond 100 results and returns excerpts of the matching text.",
+    inputSchema: searchSchema.shape,
     handler: async (params) => {
       try {
-        const { query, limit } = searchSchema.parse(params);
-        
+        const { limit, cursor, query, ...filters } = searchSchema.parse(params);
+
         if (!authManager.isAuthenticated()) {
-          throw new ToolError("Not authenticated. Please authenticate first using confluence_authenticate.");
+          throw notAuthenticatedError();
         }
-        
+
+        let cql: string;
+        try {
+          cql = buildCql({ ...filters, ...(query && { text: query }) } as ConfluenceSearchFilters);
+        } catch (error) {
+          throw new ToolError(`Invalid parameters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
         const client = new ConfluenceClient();
-        const result = await client.searchContent(query, limit);
-        
-        if (result.results.length === 0) {
+        const results: ConfluenceSearchResult[] = [];
+        let nextCursor = cursor;
+        let totalSize: number | undefined;
+
+        // Follow cursors until the requested number of results is collected
+        do {
+          const page = await client.search(cql, {
+            limit: Math.min(limit - results.length, SEARCH_PAGE_SIZE),
+            ...(nextCursor && { cursor: nextCursor })
+          });
+          results.push(...page.results);
+          totalSize = totalSize ?? page.totalSize;
+          nextCursor = page.nextCursor;
+        } while (nextCursor && results.length < limit);
+
+        const textOnly = query && Object.values(filters).every(value => value === undefined);
+        const description = textOnly ? `"${query}"` : `CQL: ${cql}`;
+
+        if (results.length === 0) {
           return {
             content: [{
               type: "text",
-              text: `No results found for query: "${query}"`
+              text: `No results found for ${textOnly ? 'query: ' : ''}${description}`
             }]
           };
         }
-        
-        const resultsList = result.results.map(page => {
-          return `- **${page.title}** (ID: ${page.id})
-  Space: ${page.space.name} (${page.space.key})
-  Type: ${page.type}
-  URL: ${authManager.getBaseUrl()}${page._links.webui}`;
-        }).join('\n\n');
-        
+
+        const shown = results.slice(0, limit);
+        const resultsList = shown.map(formatResult).join('\n\n');
+        const totalText = totalSize !== undefined && totalSize > shown.length ? ` of ${totalSize}` : '';
+        const moreText = nextCursor
+          ? `\n\nMore results available. Continue with cursor: ${nextCursor}`
+          : '';
+
         return {
           content: [{
             type: "text",
-            text: `Found ${result.results.length} results for "${query}":\n\n${resultsList}`
+            text: `Found ${shown.length}${totalText} results for ${description}:\n\n${resultsList}${moreText}`
           }]
         };
       } catch (error) {
         if (error instanceof z.ZodError) {
           throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
         }
-        
-        throw new ToolError(`Failed to search content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("search content", error);
       }
     }
   };
@@ -63,4 +144,4 @@ export function createSearchTools(): ToolHandler[] {
   return [
     createSearchTool()
   ];
-}
\ No newline at end of file
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { authManager } from "../auth/manager.js";
+import { ToolHandler, ToolError, AtlassianResource } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
+
+const selectSiteSchema = z.object({
+  site: z.string().min(1).describe("Site to make active: its name, URL, host name or cloud ID")
+});
+
+// Parameter added to every Confluence tool by withSiteOverride
+const siteParameter = z.string().min(1).optional().describe("Run this call against another site of the OAuth grant (name, URL, host name or cloud ID) without changing the active site");
+
+function describeSite(site: AtlassianResource, activeCloudId: string): string {
+  return `- ${site.id === activeCloudId ? '✅ ' : ''}**${site.name}** - ${site.url} (cloud ID: ${site.id})${site.id === activeCloudId ? ' *(active)*' : ''}`;
+}
+
+function requireOAuthSession(): void {
+  if (authManager.getMethod() !== 'oauth') {
+    throw new ToolError(`Site selection is only available with OAuth authentication. The current ${authManager.getMethod()} authentication is bound to ${authManager.getBaseUrl()}.`);
+  }
+
+  if (!authManager.isAuthenticated()) {
+    throw notAuthenticatedError("confluence_oauth_init");
+  }
+}
+
+/**
+ * List the Confluence sites covered by the OAuth grant
+ */
+export function createListSitesTool(): ToolHandler {
+  return {
+    name: "confluence_list_sites",
+    title: "List Confluence Sites",
+    description: "List the Confluence sites the OAuth grant gives access to and show which one is active.",
+    inputSchema: {},
+    handler: async () => {
+      try {
+        requireOAuthSession();
+
+        const sites = await authManager.getSites();
+        const activeCloudId = authManager.getCloudId();
+
+        return {
+          content: [{
+            type: "text",
+            text: `🌐 **Confluence Sites (${sites.length})**
+
+${sites.map(site => describeSite(site, activeCloudId)).join('\n')}
+
+Use 'confluence_select_site' to switch the active site, or pass \`site\` to a single tool call.`
+          }]
+        };
+      } catch (error) {
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("list sites", error);
+      }
+    }
+  };
+}
+
+/**
+ * Switch the active Confluence site and remember the choice
+ */
+export function createSelectSiteTool(): ToolHandler<z.infer<typeof selectSiteSchema>> {
+  return {
+    name: "confluence_select_site",
+    title: "Select Confluence Site",
+    description: "Switch the active Confluence site when the OAuth grant covers several sites. The choice is saved with the OAuth tokens and kept across restarts.",
+    inputSchema: selectSiteSchema.shape,
+    handler: async (params) => {
+      try {
+        const { site } = selectSiteSchema.parse(params);
+        requireOAuthSession();
+
+        await authManager.getSites();
+        const selected = await authManager.selectSite(site);
+
+        return {
+          content: [{
+            type: "text",
+            text: `✅ **Active Site Changed**
+
+🌐 **Site:** ${selected.name} (${selected.url})
+🔑 **Cloud ID:** ${selected.id}`
+          }]
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("select site", error);
+      }
+    }
+  };
+}
+
+export function createSiteTools(): ToolHandler[] {
+  return [
+    createListSitesTool(),
+    createSelectSiteTool()
+  ];
+}
+
+/**
+ * Add a `site` parameter to a tool that runs the call against another site
+ * of the OAuth grant
+ */
+export function withSiteOverride<T>(tool: ToolHandler<T>): ToolHandler<T> {
+  return {
+    ...tool,
+    inputSchema: { ...tool.inputSchema, site: siteParameter },
+    handler: async ({ site, ...params }, context) => {
+      // Without a session the tool reports the authentication error itself
+      if (site === undefined || !authManager.isAuthenticated()) {
+        return tool.handler(params, context);
+      }
+
+      let resource: AtlassianResource;
+      try {
+        resource = await authManager.resolveSite(site);
+      } catch (error) {
+        throw new ToolError(`Invalid site: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      return authManager.withSite(resource, () => tool.handler(params, context));
+    }
+  };
+}
@@ -0,0 +1,254 @@
+import { z } from "zod";
+import * as fs from "fs-extra";
+import { readFile } from "fs/promises";
+import { join, dirname, relative } from "path";
+import { authManager } from "../auth/manager.js";
+import { ConfluenceClient } from "../client/confluence.js";
+import { FileManager } from "../filemanager/index.js";
+import { AssetManager } from "../filemanager/assets.js";
+import { ADFConverter } from "../converter/index.js";
+import { BlockDiff } from "../converter/block-diff.js";
+import { ThreeWayMerge } from "../converter/three-way-merge.js";
+import { createPageFromFile, updatePageFromFile, parseOriginalADF, getMarkdownTitle } from "./upload-page.js";
+import { createProgressReporter } from "./progress.js";
+import { ToolHandler, ToolError, FileMetadata } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
+
+const syncSchema = z.object({
+  directory: z.string().min(1).describe("Folder of Markdown files to sync, e.g. one written by confluence_download_tree"),
+  spaceKey: z.string().optional().describe("Space key for new pages that are not inside a downloaded page's folder"),
+  parentPageId: z.string().optional().describe("Parent page ID for new pages at the top level of the folder (optional)"),
+  mode: z.enum(["patch", "replace"]).optional().describe("Update mode: 'patch' applies only changed blocks to the original ADF, 'replace' rebuilds the whole page (default: patch)"),
+  force: z.boolean().optional().describe("Overwrite pages even if they were changed in Confluence since download (default: false)"),
+  dryRun: z.boolean().optional().describe("Only list what would be created, updated and skipped without contacting Confluence (default: false)")
+});
+
+// Where new pages of a folder are created
+interface ParentPage {
+  pageId?: string;
+  label?: string;
+  spaceKey?: string;
+  // Why pages of the folder cannot be created
+  unavailable?: string;
+}
+
+interface SyncEntry {
+  filePath: string;
+  detail: string;
+}
+
+/**
+ * List the Markdown files of a folder tree, with the files of a folder
+ * before its subfolders so parent pages are handled before their children
+ */
+async function findMarkdownFiles(directory: string): Promise<string[]> {
+  const entries = (await fs.readdir(directory, { withFileTypes: true }))
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const files = entries
+    .filter(entry => entry.isFile() && entry.name.endsWith('.md'))
+    .map(entry => join(directory, entry.name));
+
+  for (const entry of entries) {
+    if (entry.isDirectory() && entry.name !== AssetManager.ASSETS_DIRECTORY) {
+      files.push(...await findMarkdownFiles(join(directory, entry.name)));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Check whether a managed file was edited since it was downloaded or last uploaded
+ */
+async function hasLocalChanges(markdown: string, filePath: string, metadata: FileMetadata): Promise<boolean> {
+  if (metadata.contentHash) {
+    if (FileManager.contentHash(markdown) !== metadata.contentHash) {
+      return true;
+    }
+  } else {
+    // Files without a recorded hash are compared with a fresh rendering of the stored ADF
+    const originalADF = parseOriginalADF(metadata.originalADF);
+    if (!originalADF) {
+      return true;
+    }
+
+    const normalize = (text: string) => ADFConverter.splitMarkdownBlocks(text).map(block => BlockDiff.normalize(block)).join('\n');
+    const original = ADFConverter.adfToMarkdown(originalADF, undefined, { attachments: metadata.attachments || [] });
+    if (normalize(markdown) !== normalize(original)) {
+      return true;
+    }
+  }
+
+  return AssetManager.hasChangedImages(markdown, filePath, metadata.attachments || []);
+}
+
+function describeParent(parent: ParentPage): string {
+  if (parent.pageId) {
+    return ` under page ${parent.pageId}`;
+  }
+  return parent.label ? ` under ${parent.label}` : '';
+}
+
+export function createSyncDirectoryTool(): ToolHandler<z.infer<typeof syncSchema>> {
+  return {
+    name: "confluence_sync_directory",
+    title: "Sync Directory to Confluence",
+    description: "Upload all changed Markdown files of a folder to Confluence. Managed files edited since download are updated; new files are created as pages under the page whose folder they are in. Use dryRun to list what would be created, updated and skipped first.",
+    inputSchema: syncSchema.shape,
+    handler: async (params, context) => {
+      try {
+        const { directory, spaceKey, parentPageId, mode = "patch", force = false, dryRun = false } = syncSchema.parse(params);
+
+        if (!dryRun && !authManager.isAuthenticated()) {
+          throw notAuthenticatedError();
+        }
+
+        if (!await fs.pathExists(directory)) {
+          throw new ToolError(`Directory not found: ${directory}`);
+        }
+
+        // A folder written by confluence_download_tree belongs to the page file next to it
+        const parentFile = `${directory.replace(/[\\/]+$/, '')}.md`;
+        const folderPageId = FileManager.extractPageIdFromFilename(parentFile);
+        const folderMetadata = folderPageId ? await FileManager.readMetadata(FileManager.getMetadataPath(parentFile)) : null;
+        const rootPageId = parentPageId || folderPageId;
+        const rootSpaceKey = spaceKey || folderMetadata?.spaceKey;
+        const rootParent: ParentPage = {
+          ...(rootPageId && { pageId: rootPageId }),
+          ...(rootSpaceKey && { spaceKey: rootSpaceKey })
+        };
+
+        const files = await findMarkdownFiles(directory);
+        const client = dryRun ? null : new ConfluenceClient();
+        const reportProgress = createProgressReporter(context);
+
+        // Parent pages for the child folders of handled files
+        const parents = new Map<string, ParentPage>();
+        const parentFor = (folder: string): ParentPage => {
+          const parent = parents.get(folder);
+          if (parent) return parent;
+          const path = relative(directory, folder);
+          if (!path || path.startsWith('..')) return rootParent;
+          return parentFor(dirname(folder));
+        };
+
+        const created: SyncEntry[] = [];
+        const updated: SyncEntry[] = [];
+        const skipped: SyncEntry[] = [];
+        const failed: SyncEntry[] = [];
+        const renamedFolders: Array<[string, string]> = [];
+
+        for (const [index, filePath] of files.entries()) {
+          const childFolder = FileManager.getChildDirectory(filePath);
+          const parent = parentFor(dirname(filePath));
+          const pageId = FileManager.extractPageIdFromFilename(filePath);
+          const markdown = await readFile(filePath, 'utf-8');
+
+          if (pageId) {
+            const metadata = await FileManager.readMetadata(FileManager.getMetadataPath(filePath));
+            const childSpaceKey = metadata?.spaceKey || parent.spaceKey;
+            parents.set(childFolder, { pageId, ...(childSpaceKey && { spaceKey: childSpaceKey }) });
+
+            if (!metadata) {
+              skipped.push({ filePath, detail: 'no metadata file, upload it with confluence_upload_page' });
+            } else if (ThreeWayMerge.hasConflictMarkers(markdown)) {
+              skipped.push({ filePath, detail: 'unresolved merge conflict markers' });
+            } else if (!await hasLocalChanges(markdown, filePath, metadata)) {
+              skipped.push({ filePath, detail: `unchanged since download (ID: ${pageId})` });
+            } else if (!client) {
+              updated.push({ filePath, detail: `"${metadata.title}" (ID: ${pageId})` });
+            } else {
+              try {
+                const { page } = await updatePageFromFile(client, pageId, filePath, markdown, { mode, force });
+                updated.push({ filePath, detail: `"${page.title}" (ID: ${page.id})` });
+              } catch (error) {
+                failed.push({ filePath, detail: error instanceof Error ? error.message : 'Unknown error' });
+              }
+            }
+          } else {
+            const title = getMarkdownTitle(markdown, ADFConverter.markdownToADF(markdown).metadata);
+            const unavailable = (reason: string) => {
+              skipped.push({ filePath, detail: reason });
+              parents.set(childFolder, { unavailable: `parent page "${title}" was not created` });
+            };
+
+            if (parent.unavailable) {
+              unavailable(parent.unavailable);
+            } else if (!parent.spaceKey) {
+              unavailable('no space key for new page, pass spaceKey');
+            } else if (ThreeWayMerge.hasConflictMarkers(markdown)) {
+              unavailable('unresolved merge conflict markers');
+            } else if (!client) {
+              created.push({ filePath, detail: `"${title}" in space ${parent.spaceKey}${describeParent(parent)}` });
+              parents.set(childFolder, { label: `new page "${title}"`, spaceKey: parent.spaceKey });
+            } else {
+              try {
+                const { page, filePath: newFilePath } = await createPageFromFile(client, filePath, markdown, {
+                  spaceKey: parent.spaceKey,
+                  parentPageId: parent.pageId,
+                  targetDirectory: dirname(filePath)
+                });
+                created.push({ filePath, detail: `"${page.title}" (ID: ${page.id})${describeParent(parent)}, renamed to ${relative(directory, newFilePath)}` });
+                parents.set(childFolder, { pageId: page.id, spaceKey: page.space.key });
+                renamedFolders.push([childFolder, FileManager.getChildDirectory(newFilePath)]);
+              } catch (error) {
+                failed.push({ filePath, detail: error instanceof Error ? error.message : 'Unknown error' });
+                parents.set(childFolder, { unavailable: `parent page "${title}" was not created` });
+              }
+            }
+          }
+
+          await reportProgress(index + 1, files.length, `Processed ${relative(directory, filePath)}`);
+        }
+
+        // Child folders follow their renamed page files, deepest first so the
+        // recorded paths stay valid
+        for (const [from, to] of renamedFolders.reverse()) {
+          if (await fs.pathExists(from)) {
+            await fs.move(from, to);
+          }
+        }
+
+        const list = (heading: string, entries: SyncEntry[]) => entries.length > 0
+          ? ['', `${heading}:`, ...entries.map(entry => `- ${relative(directory, entry.filePath)}: ${entry.detail}`)]
+          : [];
+
+        const displayPath = FileManager.getDisplayPath(directory);
+        const lines = dryRun
+          ? [
+            `Dry run for ${displayPath}: ${created.length} pages to create, ${updated.length} to update, ${skipped.length} skipped`,
+            ...list('Would create', created),
+            ...list('Would update', updated),
+            ...list('Skipped', skipped)
+          ]
+          : [
+            `Synced ${displayPath}: ${created.length} pages created, ${updated.length} updated, ${skipped.length} skipped, ${failed.length} failed`,
+            ...list('Created', created),
+            ...list('Updated', updated),
+            ...list('Skipped', skipped),
+            ...list('Failed', failed)
+          ];
+
+        return {
+          content: [{
+            type: "text",
+            text: lines.join('\n')
+          }],
+          ...(failed.length > 0 && created.length === 0 && updated.length === 0 && { isError: true })
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ToolError(`Invalid parameters: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        if (error instanceof ToolError) {
+          throw error;
+        }
+
+        throw toolError("sync directory", error);
+      }
+    }
+  };
+}
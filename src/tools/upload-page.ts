@@ -4,30 +4,259 @@ import { readFile } from "fs/promises";
 import { authManager } from "../auth/manager.js";
 import { ConfluenceClient } from "../client/confluence.js";
 import { FileManager } from "../filemanager/index.js";
+import { AssetManager } from "../filemanager/assets.js";
 import { ADFConverter } from "../converter/index.js";
-import { ToolHandler, ToolError, FileMetadata } from "../types/index.js";
+import { ADFPatcher } from "../converter/adf-patcher.js";
+import { StorageConverter } from "../converter/storage.js";
+import { ThreeWayMerge } from "../converter/three-way-merge.js";
+import { ToolHandler, ToolError, FileMetadata, ADFDocument, PageAttachment, ConfluenceContent, ContentBody, ContentFormat } from "../types/index.js";
+import { notAuthenticatedError, toolError } from "./errors.js";
 
 const uploadSchema = z.object({
   filePath: z.string().min(1).describe("Path to the Markdown file to upload"),
   spaceKey: z.string().optional().describe("Target space key (required for new pages)"),
-  parentPageId: z.string().optional().describe("Parent page ID for new pages (optional)")
+  parentPageId: z.string().optional().describe("Parent page ID for new pages (optional)"),
+  mode: z.enum(["patch", "replace"]).optional().describe("Update mode: 'patch' applies only changed blocks to the original ADF, 'replace' rebuilds the whole page (default: patch)"),
+  force: z.boolean().optional().describe("Overwrite the page even if it was changed in Confluence since download (default: false)"),
+  format: z.enum(["adf", "storage"]).optional().describe("Page body to send: 'adf' or 'storage' (XHTML storage format) (default: the format the file was downloaded with, otherwise adf)")
 });
 
+/**
+ * Parse the ADF captured at download time
+ */
+export function parseOriginalADF(originalADF?: string): ADFDocument | null {
+  if (!originalADF) {
+    return null;
+  }
+  
+  try {
+    const parsed = JSON.parse(originalADF);
+    return parsed?.type === 'doc' && Array.isArray(parsed.content) ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Title of a Markdown file, taken from the front matter or the first heading
+ */
+export function getMarkdownTitle(markdownContent: string, metadata?: Record<string, any>): string {
+  let title = (metadata as FileMetadata)?.title;
+  if (!title) {
+    const titleMatch = markdownContent.match(/^#+\s+(.+)$/m);
+    title = titleMatch?.[1] || 'Untitled';
+  }
+  return title;
+}
+
+function blockCount(count: number): string {
+  return `${count} block${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Page body for an ADF document in the given format
+ */
+export function createPageBody(adf: ADFDocument, format: ContentFormat = 'adf', attachments: PageAttachment[] = []): ContentBody {
+  if (format === 'storage') {
+    return {
+      storage: {
+        value: StorageConverter.adfToStorage(adf, { attachments }),
+        representation: 'storage'
+      }
+    };
+  }
+  
+  return {
+    atlas_doc_format: {
+      value: JSON.stringify(adf),
+      representation: 'atlas_doc_format'
+    }
+  };
+}
+
+export interface UploadedPage {
+  page: ConfluenceContent;
+  filePath: string;
+  summary: string;
+}
+
+/**
+ * Update an existing page from a managed Markdown file and record the new
+ * version in its metadata file
+ */
+export async function updatePageFromFile(
+  client: ConfluenceClient,
+  pageId: string,
+  filePath: string,
+  markdownContent: string,
+  { mode = "patch", force = false, format }: { mode?: "patch" | "replace"; force?: boolean; format?: ContentFormat | undefined } = {}
+): Promise<UploadedPage> {
+  const { metadata } = ADFConverter.markdownToADF(markdownContent);
+  
+  // Get current page to get version
+  const currentPage = await client.getContent(pageId, ['version']);
+  
+  // Stored metadata file takes precedence over front matter
+  const metadataPath = FileManager.getMetadataPath(filePath);
+  const metadataFileExists = await fs.pathExists(metadataPath);
+  const storedMetadata: Partial<FileMetadata> = {
+    ...(metadata as FileMetadata),
+    ...(await FileManager.readMetadata(metadataPath))
+  };
+  
+  // Refuse to overwrite edits made in Confluence since download
+  if (!force && storedMetadata.version && currentPage.version.number > storedMetadata.version) {
+    const author = currentPage.version.by?.displayName || currentPage.version.by?.accountId || 'another user';
+    throw new ToolError(`Version conflict: page ${pageId} was changed in Confluence since download. Remote version ${currentPage.version.number} was saved by ${author} at ${currentPage.version.when}, local file is based on version ${storedMetadata.version}.`, {
+      code: 'version_conflict',
+      hint: 'Run confluence_merge_page to merge both sets of changes, or re-run with force: true to overwrite.'
+    });
+  }
+  
+  // Build the page with the images already attached first, so conversion
+  // errors surface before new attachment versions are uploaded
+  const knownAttachments = storedMetadata.attachments || [];
+  // Keep sending the format the file was downloaded with unless told otherwise
+  const bodyFormat = format || storedMetadata.format || 'adf';
+  const originalADF = mode === 'patch' ? parseOriginalADF(storedMetadata.originalADF) : null;
+  const buildPage = (attachments: PageAttachment[]) => {
+    // Patch changed blocks into the original ADF so unsupported nodes survive
+    if (originalADF) {
+      // Match against the attachments the original was downloaded with, then
+      // point re-uploaded images at their new versions
+      const patched = ADFPatcher.patch(originalADF, markdownContent, { attachments: [...knownAttachments, ...attachments] });
+      const adf = AssetManager.updateMediaReferences(patched.adf, knownAttachments, attachments);
+      return {
+        adf,
+        body: createPageBody(adf, bodyFormat, [...knownAttachments, ...attachments]),
+        summary: `\nPatched original ADF: ${blockCount(patched.stats.preserved)} preserved, ${blockCount(patched.stats.changed)} rewritten, ${blockCount(patched.stats.removed)} removed`
+      };
+    }
+    const adf = ADFConverter.markdownToADF(markdownContent, { attachments }).adf;
+    return { adf, body: createPageBody(adf, bodyFormat, [...knownAttachments, ...attachments]), summary: '' };
+  };
+  let page = buildPage(knownAttachments);
+  
+  // Upload new or changed local images, then reference them from the page
+  const { attachments, uploaded } = await AssetManager.uploadLocalImages(client, pageId, filePath, markdownContent, knownAttachments);
+  if (uploaded > 0) {
+    page = buildPage(attachments);
+  }
+  const attachmentSummary = uploaded > 0 ? `\nUploaded ${uploaded} images as attachments` : '';
+  
+  const updatedPage = await client.updateContent(pageId, {
+    type: 'page',
+    title: getMarkdownTitle(markdownContent, metadata),
+    version: { number: currentPage.version.number + 1 },
+    body: page.body
+  });
+  
+  // Update metadata file if it exists or the file tracks a version
+  if (metadataFileExists || storedMetadata.version !== undefined) {
+    const updatedMetadata: FileMetadata = {
+      pageId: updatedPage.id,
+      title: updatedPage.title,
+      spaceKey: updatedPage.space.key,
+      originalADF: JSON.stringify(page.adf),
+      version: updatedPage.version.number,
+      versionWhen: updatedPage.version.when,
+      contentHash: FileManager.contentHash(markdownContent),
+      ...(bodyFormat === 'storage' && { format: bodyFormat }),
+      ...(attachments.length > 0 && { attachments })
+    };
+    await fs.outputFile(metadataPath, JSON.stringify(updatedMetadata, null, 2), 'utf-8');
+  }
+  
+  return {
+    page: updatedPage,
+    filePath,
+    summary: `${page.summary}${attachmentSummary}`
+  };
+}
+
+/**
+ * Create a new page from a Markdown file. The file is renamed to carry the
+ * new page ID and gets a metadata file next to it.
+ */
+export async function createPageFromFile(
+  client: ConfluenceClient,
+  filePath: string,
+  markdownContent: string,
+  { spaceKey, parentPageId, targetDirectory, format = 'adf' }: { spaceKey: string; parentPageId?: string | undefined; targetDirectory?: string | undefined; format?: ContentFormat | undefined }
+): Promise<UploadedPage> {
+  const { adf, metadata } = ADFConverter.markdownToADF(markdownContent);
+  const title = getMarkdownTitle(markdownContent, metadata);
+  
+  const newPageData: any = {
+    type: 'page',
+    title,
+    space: { key: spaceKey },
+    body: createPageBody(adf, format)
+  };
+  
+  if (parentPageId) {
+    newPageData.ancestors = [{ id: parentPageId }];
+  }
+  
+  let newPage = await client.createContent(newPageData);
+  
+  // Images can only be attached once the page exists, so they are added in a second revision
+  let pageADF: ADFDocument = adf;
+  let attachments: PageAttachment[] = [];
+  if ((await AssetManager.findLocalImages(markdownContent, filePath)).length > 0) {
+    ({ attachments } = await AssetManager.uploadLocalImages(client, newPage.id, filePath, markdownContent, []));
+    pageADF = ADFConverter.markdownToADF(markdownContent, { attachments }).adf;
+    newPage = await client.updateContent(newPage.id, {
+      type: 'page',
+      title,
+      version: { number: newPage.version.number + 1 },
+      body: createPageBody(pageADF, format, attachments)
+    });
+  }
+  
+  // Rename the file with the page ID prefix
+  const newManagedFile = await FileManager.createManagedFile(newPage.id, title, targetDirectory);
+  await fs.move(filePath, newManagedFile.filePath);
+  
+  // Create metadata file
+  const newMetadata: FileMetadata = {
+    pageId: newPage.id,
+    title: newPage.title,
+    spaceKey: newPage.space.key,
+    originalADF: JSON.stringify(pageADF),
+    version: newPage.version.number,
+    versionWhen: newPage.version.when,
+    contentHash: FileManager.contentHash(markdownContent),
+    ...(format === 'storage' && { format }),
+    ...(attachments.length > 0 && { attachments })
+  };
+  await fs.outputFile(newManagedFile.metadataPath, JSON.stringify(newMetadata, null, 2), 'utf-8');
+  
+  return {
+    page: newPage,
+    filePath: newManagedFile.filePath,
+    summary: ''
+  };
+}
+
 export function createUploadPageTool(): ToolHandler<z.infer<typeof uploadSchema>> {
   return {
     name: "confluence_upload_page",
     title: "Upload Page to Confluence",
-    description: "Upload a Markdown file to Confluence, converting to ADF format. Updates existing page if file contains page ID, creates new page otherwise.",
+    description: "Upload a Markdown file to Confluence, converting to ADF or storage format. Updates existing page if file contains page ID, creates new page otherwise. New or changed local images are uploaded as page attachments.",
     inputSchema: {
       filePath: z.string().min(1).describe("Path to the Markdown file to upload"),
       spaceKey: z.string().optional().describe("Target space key (required for new pages)"),
-      parentPageId: z.string().optional().describe("Parent page ID for new pages (optional)")
+      parentPageId: z.string().optional().describe("Parent page ID for new pages (optional)"),
+      mode: z.enum(["patch", "replace"]).optional().describe("Update mode: 'patch' applies only changed blocks to the original ADF, 'replace' rebuilds the whole page (default: patch)"),
+      force: z.boolean().optional().describe("Overwrite the page even if it was changed in Confluence since download (default: false)"),
+      format: z.enum(["adf", "storage"]).optional().describe("Page body to send: 'adf' or 'storage' (XHTML storage format) (default: the format the file was downloaded with, otherwise adf)")
     },
-    handler: async ({ filePath, spaceKey, parentPageId }) => {
+    handler: async ({ filePath, spaceKey, parentPageId, mode = "patch", force = false, format }) => {
       try {
         
         if (!authManager.isAuthenticated()) {
-          throw new ToolError("Not authenticated. Please authenticate first using confluence_authenticate.");
+          throw notAuthenticatedError();
         }
         
         // Check if file exists
@@ -38,60 +267,33 @@ export function createUploadPageTool(): ToolHandler<z.infer<typeof uploadSchema>
         // Read markdown content
         const markdownContent = await readFile(filePath, 'utf-8');
         
-        // Convert markdown to ADF
-        const { adf, metadata } = ADFConverter.markdownToADF(markdownContent);
+        if (ThreeWayMerge.hasConflictMarkers(markdownContent)) {
+          throw new ToolError(`File ${filePath} contains unresolved merge conflict markers. Resolve them before uploading.`);
+        }
         
-        // Extract page ID from filename or metadata
-        const pageIdFromFilename = FileManager.extractPageIdFromFilename(filePath);
-        const existingPageId = pageIdFromFilename || (metadata as FileMetadata)?.pageId;
+        // Extract page ID from filename or front matter
+        const { metadata } = ADFConverter.markdownToADF(markdownContent);
+        const existingPageId = FileManager.extractPageIdFromFilename(filePath) || (metadata as FileMetadata)?.pageId;
         
         const client = new ConfluenceClient();
         
         if (existingPageId) {
           // Update existing page
           try {
-            // Get current page to get version
-            const currentPage = await client.getContent(existingPageId, ['version']);
-            
-            // Extract title from markdown (first heading or from metadata)
-            let title = (metadata as FileMetadata)?.title;
-            if (!title) {
-              const titleMatch = markdownContent.match(/^#+\s+(.+)$/m);
-              title = titleMatch?.[1] || 'Untitled';
-            }
-            
-            const updatedPage = await client.updateContent(existingPageId, {
-              type: 'page',
-              title,
-              version: { number: currentPage.version.number + 1 },
-              body: {
-                atlas_doc_format: {
-                  value: JSON.stringify(adf),
-                  representation: 'atlas_doc_format'
-                }
-              }
-            });
-            
-            // Update metadata file if it exists
-            const metadataPath = filePath.replace(/\.md$/, '.meta.json');
-            if (await fs.pathExists(metadataPath)) {
-              const updatedMetadata: FileMetadata = {
-                pageId: updatedPage.id,
-                title: updatedPage.title,
-                spaceKey: updatedPage.space.key,
-                originalADF: JSON.stringify(adf)
-              };
-              await fs.outputFile(metadataPath, JSON.stringify(updatedMetadata, null, 2), 'utf-8');
-            }
+            const { page, summary } = await updatePageFromFile(client, existingPageId, filePath, markdownContent, { mode, force, format });
             
             return {
               content: [{
                 type: "text",
-                text: `Successfully updated page "${updatedPage.title}" (ID: ${updatedPage.id})\nView at: ${authManager.getBaseUrl()}${updatedPage._links.webui}`
+                text: `Successfully updated page "${page.title}" (ID: ${page.id})${summary}\nView at: ${authManager.getBaseUrl()}${page._links.webui}`
               }]
             };
           } catch (error) {
-            throw new ToolError(`Failed to update existing page ${existingPageId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            if (error instanceof ToolError) {
+              throw error;
+            }
+            
+            throw toolError(`update existing page ${existingPageId}`, error);
           }
         } else {
           // Create new page
@@ -99,64 +301,18 @@ export function createUploadPageTool(): ToolHandler<z.infer<typeof uploadSchema>
             throw new ToolError("spaceKey is required when creating a new page");
           }
           
-          // Extract title from markdown
-          let title = (metadata as FileMetadata)?.title;
-          if (!title) {
-            const titleMatch = markdownContent.match(/^#+\s+(.+)$/m);
-            title = titleMatch?.[1] || 'Untitled';
-          }
-          
-          const newPageData: any = {
-            type: 'page',
-            title,
-            space: { key: spaceKey },
-            body: {
-              atlas_doc_format: {
-                value: JSON.stringify(adf),
-                representation: 'atlas_doc_format'
-              }
-            }
-          };
-          
-          if (parentPageId) {
-            newPageData.ancestors = [{ id: parentPageId }];
-          }
-          
           try {
-            const newPage = await client.createContent(newPageData);
+            const { page, filePath: newFilePath } = await createPageFromFile(client, filePath, markdownContent, { spaceKey, parentPageId, format });
+            const displayPath = FileManager.getDisplayPath(newFilePath);
             
-            // Update file with page ID prefix if not already present
-            if (!pageIdFromFilename) {
-              const newManagedFile = await FileManager.createManagedFile(newPage.id, title);
-              await fs.move(filePath, newManagedFile.filePath);
-              
-              // Create metadata file
-              const newMetadata: FileMetadata = {
-                pageId: newPage.id,
-                title: newPage.title,
-                spaceKey: newPage.space.key,
-                originalADF: JSON.stringify(adf)
-              };
-              await fs.outputFile(newManagedFile.metadataPath, JSON.stringify(newMetadata, null, 2), 'utf-8');
-              
-              const displayPath = FileManager.getDisplayPath(newManagedFile.filePath);
-              
-              return {
-                content: [{
-                  type: "text",
-                  text: `Successfully created new page "${newPage.title}" (ID: ${newPage.id})\nFile renamed to: ${displayPath}\nView at: ${authManager.getBaseUrl()}${newPage._links.webui}`
-                }]
-              };
-            } else {
-              return {
-                content: [{
-                  type: "text",
-                  text: `Successfully created new page "${newPage.title}" (ID: ${newPage.id})\nView at: ${authManager.getBaseUrl()}${newPage._links.webui}`
-                }]
-              };
-            }
+            return {
+              content: [{
+                type: "text",
+                text: `Successfully created new page "${page.title}" (ID: ${page.id})\nFile renamed to: ${displayPath}\nView at: ${authManager.getBaseUrl()}${page._links.webui}`
+              }]
+            };
           } catch (error) {
-            throw new ToolError(`Failed to create new page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw toolError("create new page", error);
           }
         }
       } catch (error) {
@@ -168,7 +324,7 @@ export function createUploadPageTool(): ToolHandler<z.infer<typeof uploadSchema>
           throw error;
         }
         
-        throw new ToolError(`Failed to upload page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toolError("upload page", error);
       }
     }
   };
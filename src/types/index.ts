@@ -12,6 +12,8 @@ export interface OAuthCredentials {
   clientId: string;
   clientSecret: string;
   redirectUri: string;
+  // Scopes to request instead of the configured or default ones
+  scopes?: string[];
 }
 
 export interface OAuthTokens {
@@ -20,6 +22,8 @@ export interface OAuthTokens {
   expires_in: number;
   token_type: 'Bearer';
   scope: string;
+  // Epoch milliseconds when the access token expires, recorded when it is received
+  expiresAt?: number;
 }
 
 export interface AtlassianResource {
@@ -37,6 +41,33 @@ export interface OAuthState {
   timestamp: number;
 }
 
+export type AuthMethod = 'oauth' | 'api_token' | 'pat';
+
+// Cloud sites serve the REST API below /wiki and store pages as ADF; Data
+// Center and Server sites serve it at the base URL and store storage format
+export type Deployment = 'cloud' | 'datacenter';
+
+export interface ApiTokenCredentials {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  deployment?: Deployment;
+}
+
+export interface PersonalAccessTokenCredentials {
+  baseUrl: string;
+  token: string;
+  deployment?: Deployment;
+}
+
+export interface AuthStrategy {
+  readonly method: AuthMethod;
+  readonly deployment: Deployment;
+  isAuthenticated(): boolean;
+  getAuthHeaders(): Record<string, string>;
+  getBaseUrl(): string;
+}
+
 export interface ConfluenceContent {
   id: string;
   type: string;
@@ -50,16 +81,56 @@ export interface ConfluenceContent {
       value: string;
       representation: string;
     };
+    storage?: {
+      value: string;
+      representation: string;
+    };
   };
   version: {
     number: number;
     when: string;
+    message?: string;
+    by?: {
+      accountId?: string;
+      displayName?: string;
+    };
   };
   _links: {
     webui: string;
   };
 }
 
+export interface ConfluencePageList {
+  results: ConfluenceContent[];
+  start?: number;
+  limit?: number;
+  size: number;
+  _links?: {
+    next?: string;
+  };
+}
+
+export interface ConfluenceVersion {
+  number: number;
+  when: string;
+  message?: string;
+  minorEdit?: boolean;
+  by?: {
+    accountId?: string;
+    displayName?: string;
+  };
+}
+
+export interface ConfluenceVersionList {
+  results: ConfluenceVersion[];
+  start?: number;
+  limit?: number;
+  size: number;
+  _links?: {
+    next?: string;
+  };
+}
+
 export interface ConfluenceSpace {
   id: string;
   key: string;
@@ -74,11 +145,105 @@ export interface ConfluenceSpace {
   };
 }
 
+export interface ConfluenceSearchFilters {
+  cql?: string;
+  text?: string;
+  spaceKeys?: string[];
+  types?: string[];
+  labels?: string[];
+  contributor?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  ancestorId?: string;
+}
+
+export interface ConfluenceSearchResult {
+  content?: {
+    id: string;
+    type: string;
+    title: string;
+    status?: string;
+    space?: {
+      key: string;
+      name: string;
+    };
+    _links?: {
+      webui?: string;
+    };
+  };
+  title: string;
+  excerpt?: string;
+  url: string;
+  lastModified?: string;
+  friendlyLastModified?: string;
+  resultGlobalContainer?: {
+    title: string;
+    displayUrl: string;
+  };
+}
+
+export interface ConfluenceSearchPage {
+  results: ConfluenceSearchResult[];
+  totalSize?: number;
+  nextCursor?: string;
+}
+
+export interface ConfluenceAttachment {
+  id: string;
+  type: string;
+  title: string;
+  metadata?: {
+    mediaType?: string;
+    comment?: string;
+  };
+  extensions?: {
+    mediaType?: string;
+    fileSize?: number;
+    fileId?: string;
+    collectionName?: string;
+  };
+  version?: {
+    number: number;
+    when?: string;
+  };
+  _links: {
+    download: string;
+    webui?: string;
+  };
+}
+
+// Attachment stored next to a downloaded page
+export interface PageAttachment {
+  id: string;
+  fileName: string;
+  path: string;
+  fileId: string;
+  collection: string;
+  hash?: string;
+}
+
+// Body sent when creating or updating a page
+export type ContentBody =
+  | { atlas_doc_format: { value: string; representation: string } }
+  | { storage: { value: string; representation: string } };
+
+// Page body representation a file is synced with: ADF or storage format (XHTML)
+export type ContentFormat = 'adf' | 'storage';
+
 export interface FileMetadata {
   pageId: string;
   title: string;
   spaceKey: string;
   originalADF: string;
+  format?: ContentFormat;
+  version?: number;
+  versionWhen?: string;
+  contentHash?: string;
+  attachments?: PageAttachment[];
+}
+
+export interface ConversionOptions {
+  attachments?: PageAttachment[];
 }
 
 export interface ADFNode {
@@ -99,23 +264,54 @@ export interface ADFDocument {
 }
 
 // Tool types
+export interface ProgressNotification {
+  method: "notifications/progress";
+  params: {
+    progressToken: string | number;
+    progress: number;
+    total?: number;
+    message?: string;
+  };
+}
+
+// Request context the MCP server passes to tool handlers
+export interface ToolContext {
+  _meta?: {
+    progressToken?: string | number | undefined;
+  } | undefined;
+  sendNotification?: (notification: ProgressNotification) => Promise<void>;
+}
+
 export interface ToolHandler<T = any> {
   name: string;
   title: string;
   description: string;
   inputSchema: Record<string, any>;
-  handler: (params: { [x: string]: any }) => Promise<{
+  handler: (params: { [x: string]: any }, context?: ToolContext) => Promise<{
     content: Array<{
       type: "text";
       text: string;
     }>;
+    structuredContent?: Record<string, unknown>;
     isError?: boolean;
   }>;
 }
 
+// Machine-readable reason of a failed tool call
+export interface ToolErrorDetails {
+  code: string;
+  status?: number;
+  hint?: string;
+  retryAfterSeconds?: number;
+  messages?: string[];
+}
+
 export class ToolError extends Error {
-  constructor(message: string) {
+  readonly details: ToolErrorDetails | undefined;
+
+  constructor(message: string, details?: ToolErrorDetails) {
     super(message);
     this.name = "ToolError";
+    this.details = details;
   }
 }
\ No newline at end of file